@@ -1,7 +1,14 @@
+import type { EpisodeOverride } from './types/podcast'
+
 export default defineAppConfig({
   podcast: {
-    // RSS feed URL - required
+    // RSS feed URL - required (unless shows is set)
     feedUrl: '',
+
+    // Network mode: multiple shows, each served under /shows/<id>.
+    // When set, the home page lists every show and the latest episodes
+    // across the network. Example: [{ id: 'daily', feedUrl: 'https://...' }]
+    shows: [] as Array<{ id: string; feedUrl: string; overrides?: Record<string, EpisodeOverride> }>,
     
     // Site metadata
     siteTitle: '',
@@ -47,6 +54,19 @@ export default defineAppConfig({
     // Transcript timestamp offset in seconds (for podcasts with intros not in transcript)
     transcriptOffset: 0,
 
+    // Local fixes and additions to episodes from the feed, keyed by episode GUID.
+    // Applied across the site and in the re-published feed at /feed.xml.
+    // In network mode, set `overrides` on each show instead.
+    // Example: { 'episode-guid': { episodeNumber: 12, persons: [{ name: 'Sam', role: 'guest' }] } }
+    overrides: {} as Record<string, EpisodeOverride>,
+
+    // Boosts for feeds with podcast:value. Listeners pay from a WebLN browser
+    // wallet, or set walletEndpoint to POST the payments to a wallet service
+    // instead ('/api/wallet/stand-in' tries boosts offline in development)
+    boost: {
+      walletEndpoint: '',
+    },
+
     // Newsletter signup (optional)
     newsletter: {
       // Email platform: 'beehiiv' | 'substack' | 'mailchimp' | 'kit'
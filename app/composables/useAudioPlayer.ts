@@ -3,12 +3,19 @@ import { ref, computed, watch } from 'vue'
 import { useStorage, useIntervalFn } from '@vueuse/core'
 import { useRoute } from '#app'
 import { parseTimestamp } from '~/utils/timestamps'
-import type { Episode, EpisodeSummary } from '~/types/podcast'
+import { showPath } from '~/utils/routes'
+import { episodeSources, isHlsType, isSlowConnection, isVideoType, pickSource } from '~/utils/media-sources'
+import type { ConnectionInfo, EpisodeSource } from '~/utils/media-sources'
+import { VideoPlayback } from '~/utils/video-playback'
+import type { MediaPlayback, PlaybackOptions } from '~/utils/video-playback'
+import { useDownloads } from '~/composables/useDownloads'
+import type { Chapter, Episode, EpisodeSummary } from '~/types/podcast'
 
 /** Lightweight read of listening progress from localStorage (no dependency on useListeningProgress) */
 interface StoredProgress { position: number; duration: number; lastUpdated: number }
 const PROGRESS_KEY = 'podcast-listening-progress'
 const LAST_EPISODE_KEY = 'podcast-last-episode'
+const QUEUE_KEY = 'podcast-queue'
 
 /** Episode data the player needs — works with both full Episode and lightweight EpisodeSummary */
 type PlayableEpisode = Episode | EpisodeSummary
@@ -23,11 +30,46 @@ interface AudioPlayerState {
   isLoading: boolean
   isMuted: boolean
   volumeBeforeMute: number
+  /** Chapters registered per episode GUID (see setChapters) */
+  chaptersByGuid: Record<string, Chapter[]>
+  /** Episodes queued to play after the current one */
+  queue: PlayableEpisode[]
+  /** Start the next unplayed queued episode when one ends */
+  autoplay: boolean
+  /** Show title and artwork for lock-screen metadata (see setShowInfo) */
+  show: { title: string; artwork: string } | null
+  /** URL of the source picked for the current episode, or null to choose automatically */
+  sourceChoice: string | null
+  /** URL being streamed, or null when playing a downloaded copy */
+  sourceUrl: string | null
+  /** The current source is video, playing through the shared video element */
+  isVideo: boolean
+  /** A page's video surface is showing the video (otherwise the mini player does) */
+  videoOnPage: boolean
+  /** Clip being played (a soundbite or a shared ?t=&end= range): playback pauses at its end */
+  clip: PlayerClip | null
 }
 
+/** A range of an episode to stop playing at the end of */
+interface PlayerClip {
+  guid: string
+  /** Start and end in seconds */
+  start: number
+  end: number
+}
+
+/** Queue and autoplay preference as persisted in localStorage */
+interface StoredQueue { episodes: PlayableEpisode[]; autoplay: boolean }
+
 // Playback speed presets
 const SPEED_PRESETS = [1, 1.25, 1.5, 1.75, 2]
 
+// Artwork sizes offered to the Media Session (the OS picks the closest)
+const MEDIA_ARTWORK_SIZES = [96, 128, 192, 256, 384, 512]
+
+// "Previous chapter" restarts the current chapter when this far into it
+const CHAPTER_RESTART_THRESHOLD = 3
+
 // Global state (persists across navigation)
 const state = ref<AudioPlayerState>({
   currentEpisode: null,
@@ -39,22 +81,224 @@ const state = ref<AudioPlayerState>({
   isLoading: false,
   isMuted: false,
   volumeBeforeMute: 0.8,
+  chaptersByGuid: {},
+  queue: [],
+  autoplay: false,
+  show: null,
+  sourceChoice: null,
+  sourceUrl: null,
+  isVideo: false,
+  videoOnPage: false,
+  clip: null,
 })
 
-let howl: Howl | null = null
+/** Howl for audio, VideoPlayback for video */
+let howl: MediaPlayback | null = null
+
+/** The one <video> element video episodes play through (see attachVideo) */
+let videoElement: HTMLVideoElement | null = null
+
+/** Where the video element is shown: a page's surface wins over the mini player */
+const videoHosts: { page: HTMLElement | null; mini: HTMLElement | null } = { page: null, mini: null }
+
+/** Position to resume at once the next Howl loads, after switching sources */
+let pendingSeek: number | null = null
+
+/** Audio element used to ask the browser which formats it can play */
+let formatProbe: HTMLAudioElement | null = null
+
+/** Decides which queued episodes autoplay skips (see setCompletedCheck) */
+let isCompletedCheck: (guid: string) => boolean = () => false
+
+/**
+ * Strip show notes and Podcasting 2.0 data before queueing —
+ * the queue is persisted and only needs what the player uses
+ */
+function toQueueItem(episode: PlayableEpisode): PlayableEpisode {
+  const { htmlContent, podcast2, keywords, ...item } = episode as Episode
+  return item
+}
+
+/**
+ * The Media Session API, when the browser supports it
+ */
+function getMediaSession(): MediaSession | null {
+  if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return null
+  return navigator.mediaSession
+}
+
+/**
+ * Guess an image MIME type from its URL (the Media Session needs one per image)
+ */
+function artworkType(url: string): string | undefined {
+  const ext = url.split(/[?#]/)[0]!.split('.').pop()?.toLowerCase()
+  if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg'
+  if (ext === 'png') return 'image/png'
+  if (ext === 'webp') return 'image/webp'
+  return undefined
+}
 
 /**
- * Persistent audio player powered by Howler.js
+ * Register a Media Session action handler, ignoring actions the browser
+ * doesn't support (setActionHandler throws for those)
+ */
+function setMediaAction(session: MediaSession, action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+  try {
+    session.setActionHandler(action, handler)
+  } catch {
+    // Unsupported action
+  }
+}
+
+/**
+ * Guess a Howler format from an audio URL's extension. Needed for blob
+ * URLs, which have no extension for Howler to sniff.
+ */
+function audioFormat(url: string): string {
+  const ext = url.split(/[?#]/)[0]!.split('.').pop()?.toLowerCase()
+  return ext && ['mp3', 'm4a', 'm4b', 'mp4', 'aac', 'ogg', 'oga', 'opus', 'wav', 'flac', 'webm'].includes(ext)
+    ? ext
+    : 'mp3'
+}
+
+/**
+ * Whether this browser can play a media type (with codecs, when known).
+ * HLS plays anywhere hls.js can stream it through Media Source Extensions.
+ */
+function canPlayType(type: string, codecs?: string): boolean {
+  if (typeof document === 'undefined') return true
+  if (isHlsType(type) && ('MediaSource' in window || 'ManagedMediaSource' in window)) return true
+  formatProbe ??= document.createElement('audio')
+  return formatProbe.canPlayType(codecs ? `${type}; codecs="${codecs}"` : type) !== ''
+}
+
+/**
+ * The shared video element, created on first use
+ */
+function getVideoElement(): HTMLVideoElement {
+  if (!videoElement) {
+    videoElement = document.createElement('video')
+    videoElement.playsInline = true
+    videoElement.preload = 'none'
+  }
+  return videoElement
+}
+
+/**
+ * Move the video element into its current host. appendChild moves it
+ * within the same task, so a playing video keeps playing.
+ */
+function placeVideo() {
+  const host = videoHosts.page ?? videoHosts.mini
+  if (videoElement && host && videoElement.parentElement !== host) host.appendChild(videoElement)
+  state.value.videoOnPage = videoHosts.page !== null
+}
+
+/**
+ * The Network Information API's view of the connection, when the browser has it
+ */
+function getConnection(): ConnectionInfo | undefined {
+  if (typeof navigator === 'undefined') return undefined
+  return (navigator as Navigator & { connection?: ConnectionInfo }).connection
+}
+
+/**
+ * Save the queue and autoplay preference to localStorage
+ */
+function persistQueue() {
+  try {
+    const stored: StoredQueue = { episodes: state.value.queue, autoplay: state.value.autoplay }
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(stored))
+  } catch {
+    // localStorage write failed — queue still works for this session
+  }
+}
+
+/**
+ * Persistent audio player powered by Howler.js, with video enclosures
+ * played through a shared <video> element
  * State persists across page navigation
  */
 export function useAudioPlayer() {
   const route = useRoute()
+  const { localAudioUrl } = useDownloads()
+
+  /**
+   * Version of an episode's audio to stream: the one picked in the source
+   * menu, else the enclosure, or the smallest version on a slow connection
+   */
+  const streamSource = (episode: PlayableEpisode): EpisodeSource => {
+    const sources = episodeSources(episode, canPlayType)
+    const chosen = state.value.sourceChoice
+      ? sources.find(source => source.url === state.value.sourceChoice)
+      : undefined
+    return chosen ?? pickSource(sources, isSlowConnection(getConnection()))!
+  }
+
+  /**
+   * Source options for an episode, preferring a downloaded copy, and
+   * whether it's video
+   */
+  const audioSource = (episode: PlayableEpisode): { src: string[]; format?: string[]; hls: boolean; video: boolean } => {
+    const localUrl = localAudioUrl(episode.guid)
+    if (localUrl) {
+      state.value.sourceUrl = null
+      return { src: [localUrl], format: [audioFormat(episode.audioUrl)], hls: false, video: isVideoType(episode.audioType) }
+    }
+
+    const source = streamSource(episode)
+    state.value.sourceUrl = source.url
+    const hls = isHlsType(source.type)
+    const video = source.video === true
+    return source.format ? { src: [source.url], format: [source.format], hls, video } : { src: [source.url], hls, video }
+  }
+
+  /**
+   * Create the playback for an episode: a Howl for audio, or the shared
+   * video element for video and HLS
+   */
+  const createPlayback = (episode: PlayableEpisode, options: Omit<PlaybackOptions, 'src' | 'format' | 'hls'>): MediaPlayback => {
+    const { video, hls, ...source } = audioSource(episode)
+    state.value.isVideo = video
+    if (video) {
+      const playback = new VideoPlayback(getVideoElement(), { ...options, ...source, hls })
+      placeVideo()
+      return playback
+    }
+    return new Howl({
+      ...options,
+      ...source,
+      html5: true, // Use HTML5 Audio for streaming
+    })
+  }
+
+  /**
+   * Create a playback for an episode that loads nothing until it's played
+   */
+  const createIdlePlayback = (episode: PlayableEpisode): MediaPlayback => {
+    return createPlayback(episode, {
+      preload: false, // Don't preload any data; wait until user hits play
+      volume: state.value.volume,
+      rate: state.value.playbackRate,
+      onload: () => {
+        state.value.duration = episode.live ? 0 : howl?.duration() || episode.duration || 0
+      },
+    })
+  }
 
   // Auto-update current time while playing
   const { pause: pauseInterval, resume: resumeInterval } = useIntervalFn(
     () => {
       if (howl && state.value.isPlaying) {
-        state.value.currentTime = howl.seek() as number
+        state.value.currentTime = howl.seek()
+        updatePositionState()
+
+        // Stop at the end of a clip
+        const clip = state.value.clip
+        if (clip && state.value.currentTime >= clip.end) {
+          state.value.clip = null
+          pause()
+        }
       }
     },
     250, // Update 4x per second for smooth progress
@@ -67,8 +311,21 @@ export function useAudioPlayer() {
   const play = async (episode: PlayableEpisode) => {
     state.value.isLoading = true
 
-    // If same episode and already playing/paused (not just preloaded), resume
-    if (howl && state.value.currentEpisode?.guid === episode.guid && state.value.currentTime > 0) {
+    // A live stream and its recording share a GUID but are different media
+    const current = state.value.currentEpisode
+    const sameEpisode = current?.guid === episode.guid && current.live === episode.live
+
+    // A source picked for the previous episode doesn't apply to this one,
+    // nor does a clip
+    if (!sameEpisode) {
+      state.value.sourceChoice = null
+      state.value.clip = null
+      pendingSeek = null
+    }
+
+    // If same episode and already playing/paused (not just preloaded), resume.
+    // After a source switch the new source still has to load and seek.
+    if (howl && sameEpisode && state.value.currentTime > 0 && pendingSeek === null) {
       howl.play()
       state.value.isPlaying = true
       state.value.isLoading = false
@@ -85,20 +342,41 @@ export function useAudioPlayer() {
       howl = null
     }
 
-    // Create new Howl instance
-    howl = new Howl({
-      src: [episode.audioUrl],
-      html5: true, // Use HTML5 Audio for streaming
+    // Create the playback (from the downloaded copy when there is one)
+    howl = createPlayback(episode, {
       preload: 'metadata', // Only preload metadata, not the entire file
       volume: state.value.volume,
       rate: state.value.playbackRate,
       onload: () => {
+        // A live stream has no end to seek toward, and nowhere to resume
+        if (episode.live) {
+          state.value.duration = 0
+          state.value.isLoading = false
+          return
+        }
+
         state.value.duration = howl?.duration() || 0
         state.value.isLoading = false
+        updatePositionState()
+
+        // Switched sources: carry on where the previous one was
+        if (pendingSeek !== null) {
+          const position = pendingSeek
+          pendingSeek = null
+          seek(position)
+          return
+        }
         
-        // Priority 1: ?t= URL parameter (explicit user intent, e.g. shared link)
+        // Priority 1: ?t= URL parameter (explicit user intent, e.g. shared link).
+        // With ?end= too, it's a clip that stops there, even one starting at 0.
         if (route.query.t) {
           const timestampSeconds = parseTimestamp(route.query.t as string)
+          const clipEnd = route.query.end ? parseTimestamp(route.query.end as string) : 0
+          if (clipEnd > timestampSeconds) {
+            state.value.clip = { guid: episode.guid, start: timestampSeconds, end: clipEnd }
+            seek(timestampSeconds)
+            return
+          }
           if (timestampSeconds > 0) {
             seek(timestampSeconds)
             return
@@ -126,15 +404,20 @@ export function useAudioPlayer() {
       onplay: () => {
         state.value.isPlaying = true
         resumeInterval()
+        setPlaybackState('playing')
       },
       onpause: () => {
         state.value.isPlaying = false
         pauseInterval()
+        setPlaybackState('paused')
       },
       onend: () => {
         state.value.isPlaying = false
         state.value.currentTime = 0
+        state.value.clip = null
         pauseInterval()
+        setPlaybackState('none')
+        advanceQueue()
       },
       onerror: (id, error) => {
         console.error('Audio playback error:', error)
@@ -145,10 +428,13 @@ export function useAudioPlayer() {
     })
 
     state.value.currentEpisode = episode
+    removeFromQueue(episode.guid)
+    updateMediaSession()
 
     // Persist last-played episode so it can be restored on next page load
+    // (not a live stream, which will have ended by then)
     try {
-      localStorage.setItem(LAST_EPISODE_KEY, JSON.stringify(episode))
+      if (!episode.live) localStorage.setItem(LAST_EPISODE_KEY, JSON.stringify(episode))
     } catch {
       // localStorage write failed — not critical
     }
@@ -156,6 +442,34 @@ export function useAudioPlayer() {
     howl.play()
   }
 
+  /**
+   * Play part of an episode, pausing at `end` (both in seconds).
+   * Used for soundbites; a shared ?t=&end= link becomes a clip on its own.
+   */
+  const playClip = async (episode: PlayableEpisode, start: number, end: number) => {
+    if (episode.live || end <= start) return
+
+    const current = state.value.currentEpisode
+    const loaded = howl && current?.guid === episode.guid && !current.live && state.value.currentTime > 0
+
+    // A loaded episode resumes from where it's seeked to; otherwise the
+    // position is applied once the new playback loads
+    if (loaded) seek(start)
+    await play(episode)
+    if (!loaded) pendingSeek = start
+    state.value.clip = { guid: episode.guid, start, end }
+  }
+
+  /**
+   * Make a range of the loaded episode a clip without starting playback,
+   * e.g. for a ?t=&end= link to the episode that's already loaded
+   */
+  const setClip = (start: number, end: number) => {
+    const episode = state.value.currentEpisode
+    if (!episode || episode.live || end <= start) return
+    state.value.clip = { guid: episode.guid, start, end }
+  }
+
   /**
    * Pause playback
    */
@@ -164,6 +478,7 @@ export function useAudioPlayer() {
       howl.pause()
       state.value.isPlaying = false
       pauseInterval()
+      setPlaybackState('paused')
     }
   }
 
@@ -173,7 +488,10 @@ export function useAudioPlayer() {
    * without initiating any audio playback or unnecessary HTTP requests.
    */
   const preload = (episode: PlayableEpisode) => {
-    if (state.value.currentEpisode?.guid === episode.guid) return
+    // Already loaded — unless it's a live stream being replaced by its
+    // recording, which shares the stream's GUID
+    const current = state.value.currentEpisode
+    if (current?.guid === episode.guid && current.live === episode.live) return
 
     // Unload previous audio
     if (howl) {
@@ -187,18 +505,77 @@ export function useAudioPlayer() {
     state.value.currentTime = 0
     state.value.duration = episode.duration || 0
     state.value.isLoading = false
+    state.value.sourceChoice = null
+    state.value.clip = null
+    pendingSeek = null
+    updateMediaSession()
 
-    // Create Howl in preload-only mode; do NOT call howl.play()
-    howl = new Howl({
-      src: [episode.audioUrl],
-      html5: true,
-      preload: false, // Don't preload any data; wait until user hits play
-      volume: state.value.volume,
-      rate: state.value.playbackRate,
-      onload: () => {
-        state.value.duration = howl?.duration() || episode.duration || 0
-      },
-    })
+    // Create the playback in preload-only mode; do NOT call howl.play()
+    howl = createIdlePlayback(episode)
+  }
+
+  /**
+   * Switch the current episode to another version of its audio (a URL
+   * from `sources`), or back to choosing automatically with null.
+   * Playback carries on from the same position.
+   */
+  const selectSource = (url: string | null) => {
+    const episode = state.value.currentEpisode
+    if (!episode) return
+    state.value.sourceChoice = url
+
+    // Nothing to reload when a downloaded copy is playing or the source stays the same
+    if (!howl || state.value.sourceUrl === null || streamSource(episode).url === state.value.sourceUrl) return
+
+    const position = state.value.currentTime
+    const wasPlaying = state.value.isPlaying
+    howl.stop()
+    howl.unload()
+    howl = null
+    pauseInterval()
+    state.value.isPlaying = false
+    pendingSeek = position > 0 ? position : null
+
+    if (wasPlaying) {
+      play(episode)
+    } else {
+      howl = createIdlePlayback(episode)
+    }
+  }
+
+  /**
+   * Show the video in a host element. Pages pass 'page' for their video
+   * surface; the mini player passes 'mini' and shows the video whenever no
+   * page does, so navigating away hands a playing video over to it.
+   */
+  const attachVideo = (host: HTMLElement, placement: 'page' | 'mini') => {
+    videoHosts[placement] = host
+    placeVideo()
+  }
+
+  /**
+   * Stop showing the video in a host element (e.g. its page is unmounting)
+   */
+  const detachVideo = (host: HTMLElement, placement: 'page' | 'mini') => {
+    if (videoHosts[placement] !== host) return
+    videoHosts[placement] = null
+    placeVideo()
+  }
+
+  /**
+   * Pop the video out into the browser's picture-in-picture window, or back in
+   */
+  const togglePictureInPicture = async () => {
+    if (!videoElement || !state.value.isVideo) return
+    try {
+      if (document.pictureInPictureElement === videoElement) {
+        await document.exitPictureInPicture()
+      } else {
+        await videoElement.requestPictureInPicture()
+      }
+    } catch (error) {
+      console.warn('Picture-in-picture failed:', error)
+    }
   }
 
   /**
@@ -216,9 +593,14 @@ export function useAudioPlayer() {
    * Seek to a specific position in seconds
    */
   const seek = (seconds: number) => {
+    // Seeking out of a clip lets the episode play on
+    const clip = state.value.clip
+    if (clip && (seconds < clip.start || seconds >= clip.end)) state.value.clip = null
+
     if (howl) {
       howl.seek(seconds)
       state.value.currentTime = seconds
+      updatePositionState()
     }
   }
 
@@ -252,6 +634,7 @@ export function useAudioPlayer() {
     if (howl) {
       howl.rate(rate)
       state.value.playbackRate = rate
+      updatePositionState()
     }
   }
 
@@ -301,17 +684,272 @@ export function useAudioPlayer() {
     }
   }
 
+  /**
+   * Register chapters for an episode. The player only exposes them while
+   * that episode is loaded, so pages can register chapters up front
+   * (e.g. the episode page) without affecting another playing episode.
+   */
+  const setChapters = (episodeGuid: string, chapters: Chapter[]) => {
+    state.value.chaptersByGuid[episodeGuid] = chapters
+    // Chapter skip buttons on the lock screen depend on the chapters
+    if (episodeGuid === state.value.currentEpisode?.guid) updateMediaSession()
+  }
+
+  /**
+   * Jump to the start of the next chapter
+   */
+  const nextChapter = () => {
+    const next = chapters.value[currentChapterIndex.value + 1]
+    if (next) seek(next.startTime)
+  }
+
+  /**
+   * Jump to the start of the previous chapter, or restart the current one
+   * if it has been playing for more than a few seconds
+   */
+  const previousChapter = () => {
+    const index = currentChapterIndex.value
+    const current = chapters.value[index]
+    if (current && state.value.currentTime - current.startTime > CHAPTER_RESTART_THRESHOLD) {
+      seek(current.startTime)
+      return
+    }
+    seek(chapters.value[index - 1]?.startTime ?? 0)
+  }
+
+  /**
+   * Set the show title and artwork shown on the lock screen
+   */
+  const setShowInfo = (title: string, artwork: string) => {
+    state.value.show = { title, artwork }
+    updateMediaSession()
+  }
+
+  /**
+   * Publish the current episode to the Media Session (lock screen,
+   * notification shade, hardware media keys) and register its actions
+   */
+  const updateMediaSession = () => {
+    const session = getMediaSession()
+    const episode = state.value.currentEpisode
+    if (!session || !episode) return
+
+    const artwork = episode.artwork || state.value.show?.artwork
+    if (typeof MediaMetadata !== 'undefined') {
+      session.metadata = new MediaMetadata({
+        title: episode.title,
+        artist: state.value.show?.title ?? '',
+        album: state.value.show?.title ?? '',
+        artwork: artwork
+          ? MEDIA_ARTWORK_SIZES.map(size => ({ src: artwork, sizes: `${size}x${size}`, type: artworkType(artwork) }))
+          : [],
+      })
+    }
+
+    setMediaAction(session, 'play', () => {
+      if (state.value.currentEpisode) play(state.value.currentEpisode)
+    })
+    setMediaAction(session, 'pause', pause)
+    setMediaAction(session, 'seekforward', details => skipForward(details.seekOffset))
+    setMediaAction(session, 'seekbackward', details => skipBackward(details.seekOffset))
+    setMediaAction(session, 'seekto', (details) => {
+      if (details.seekTime !== undefined) seek(details.seekTime)
+    })
+
+    const hasChapters = chapters.value.length > 0
+    setMediaAction(session, 'previoustrack', hasChapters ? previousChapter : null)
+    setMediaAction(session, 'nexttrack', hasChapters ? nextChapter : null)
+  }
+
+  /**
+   * Sync the lock-screen seek bar with the player
+   */
+  const updatePositionState = () => {
+    const session = getMediaSession()
+    const duration = state.value.duration
+    if (!session?.setPositionState || !(duration > 0)) return
+    try {
+      session.setPositionState({
+        duration,
+        playbackRate: state.value.playbackRate,
+        position: Math.min(Math.max(state.value.currentTime, 0), duration),
+      })
+    } catch {
+      // Invalid state (e.g. duration not known yet) — skip this update
+    }
+  }
+
+  /**
+   * Tell the Media Session whether audio is playing
+   */
+  const setPlaybackState = (playbackState: MediaSessionPlaybackState) => {
+    const session = getMediaSession()
+    if (session) session.playbackState = playbackState
+  }
+
+  /**
+   * Add an episode to the end of the queue.
+   * No-op if it's already queued or currently loaded.
+   */
+  const addToQueue = (episode: PlayableEpisode) => {
+    if (episode.live || episode.guid === state.value.currentEpisode?.guid || isQueued(episode.guid)) return
+    state.value.queue.push(toQueueItem(episode))
+    persistQueue()
+  }
+
+  /**
+   * Put an episode at the front of the queue (moving it if already queued)
+   */
+  const playNext = (episode: PlayableEpisode) => {
+    if (episode.live || episode.guid === state.value.currentEpisode?.guid) return
+    state.value.queue = [
+      toQueueItem(episode),
+      ...state.value.queue.filter((item: PlayableEpisode) => item.guid !== episode.guid),
+    ]
+    persistQueue()
+  }
+
+  /**
+   * Remove an episode from the queue
+   */
+  const removeFromQueue = (guid: string) => {
+    if (!isQueued(guid)) return
+    state.value.queue = state.value.queue.filter((item: PlayableEpisode) => item.guid !== guid)
+    persistQueue()
+  }
+
+  /**
+   * Move a queued episode from one position to another
+   */
+  const moveInQueue = (from: number, to: number) => {
+    const queue = [...state.value.queue]
+    if (from < 0 || from >= queue.length || to < 0 || to >= queue.length || from === to) return
+    const [item] = queue.splice(from, 1)
+    queue.splice(to, 0, item!)
+    state.value.queue = queue
+    persistQueue()
+  }
+
+  /**
+   * Remove every episode from the queue
+   */
+  const clearQueue = () => {
+    state.value.queue = []
+    persistQueue()
+  }
+
+  /**
+   * Whether an episode is in the queue
+   */
+  const isQueued = (guid: string): boolean => {
+    return state.value.queue.some((item: PlayableEpisode) => item.guid === guid)
+  }
+
+  /**
+   * Play the first queued episode now
+   */
+  const skipToNext = () => {
+    const next = state.value.queue[0]
+    if (next) play(next)
+  }
+
+  /**
+   * Called when an episode ends. With autoplay on, starts the next queued
+   * episode, dropping any already listened to. With autoplay off, loads
+   * the next episode into the player without starting it.
+   */
+  const advanceQueue = () => {
+    if (state.value.autoplay) {
+      const finished = state.value.queue.filter((item: PlayableEpisode) => isCompletedCheck(item.guid))
+      finished.forEach((item: PlayableEpisode) => removeFromQueue(item.guid))
+      skipToNext()
+      return
+    }
+
+    const next = state.value.queue[0]
+    if (next) {
+      removeFromQueue(next.guid)
+      preload(next)
+    }
+  }
+
+  /**
+   * Turn autoplay of the next unplayed queued episode on or off
+   */
+  const setAutoplay = (enabled: boolean) => {
+    state.value.autoplay = enabled
+    persistQueue()
+  }
+
+  /**
+   * Register how to tell whether an episode has been listened to.
+   * AudioPlayer passes useListeningProgress().isCompleted, which can't be
+   * called from here (it depends on this composable).
+   */
+  const setCompletedCheck = (check: (guid: string) => boolean) => {
+    isCompletedCheck = check
+  }
+
+  /**
+   * Restore the queue and autoplay preference saved in localStorage
+   */
+  const restoreQueue = () => {
+    try {
+      const raw = localStorage.getItem(QUEUE_KEY)
+      if (!raw) return
+      const stored: StoredQueue = JSON.parse(raw)
+      state.value.queue = Array.isArray(stored.episodes) ? stored.episodes : []
+      state.value.autoplay = stored.autoplay === true
+    } catch {
+      // Corrupt or unreadable — start with an empty queue
+    }
+  }
+
   /**
    * Generate shareable URL with current timestamp
+   * (under /shows/<showId> in network mode)
    */
-  const getShareUrl = (episodeSlug: string): string => {
+  const getShareUrl = (episodeSlug: string, showId?: string): string => {
     const currentSeconds = Math.floor(state.value.currentTime)
-    const baseUrl = `${window.location.origin}/episodes/${episodeSlug}`
+    const baseUrl = `${window.location.origin}${showPath(showId, `/episodes/${episodeSlug}`)}`
     return currentSeconds > 0 ? `${baseUrl}?t=${currentSeconds}` : baseUrl
   }
 
   // Computed properties
   const hasEpisode = computed(() => state.value.currentEpisode !== null)
+  /** A live stream is loaded: no seek bar, no saved progress */
+  const isLive = computed(() => state.value.currentEpisode?.live === true)
+  const chapters = computed<Chapter[]>(() => {
+    const guid = state.value.currentEpisode?.guid
+    return (guid && state.value.chaptersByGuid[guid]) || []
+  })
+
+  /** Index of the chapter containing the current position (-1 if none) */
+  const currentChapterIndex = computed(() => {
+    const list = chapters.value
+    let index = -1
+    for (let i = 0; i < list.length; i++) {
+      if (list[i]!.startTime <= state.value.currentTime) index = i
+      else break
+    }
+    return index
+  })
+  const currentChapter = computed<Chapter | null>(() =>
+    chapters.value[currentChapterIndex.value] ?? null,
+  )
+  /** Versions of the current episode's audio this browser can play */
+  const sources = computed<EpisodeSource[]>(() => {
+    const episode = state.value.currentEpisode
+    return episode ? episodeSources(episode, canPlayType) : []
+  })
+  /** The version being streamed (null while playing a download) */
+  const currentSource = computed<EpisodeSource | null>(() =>
+    sources.value.find(source => source.url === state.value.sourceUrl) ?? null,
+  )
+  /** The browser can pop the current video out into its own window */
+  const canPictureInPicture = computed(() =>
+    state.value.isVideo && typeof document !== 'undefined' && document.pictureInPictureEnabled === true,
+  )
   const progressPercent = computed(() => {
     if (state.value.duration === 0) return 0
     return (state.value.currentTime / state.value.duration) * 100
@@ -340,12 +978,27 @@ export function useAudioPlayer() {
     playbackRate: computed(() => state.value.playbackRate),
     isLoading: computed(() => state.value.isLoading),
     isMuted: computed(() => state.value.isMuted),
+    queue: computed(() => state.value.queue),
+    autoplay: computed(() => state.value.autoplay),
+    sourceChoice: computed(() => state.value.sourceChoice),
+    isVideo: computed(() => state.value.isVideo),
+    videoOnPage: computed(() => state.value.videoOnPage),
+    clip: computed(() => state.value.clip),
     hasEpisode,
+    isLive,
+    chapters,
+    currentChapterIndex,
+    currentChapter,
+    sources,
+    currentSource,
+    canPictureInPicture,
     progressPercent,
     speakerIcon,
 
     // Methods
     play,
+    playClip,
+    setClip,
     preload,
     pause,
     toggle,
@@ -356,7 +1009,25 @@ export function useAudioPlayer() {
     cycleSpeed,
     setVolume,
     toggleMute,
+    setChapters,
+    nextChapter,
+    previousChapter,
+    setShowInfo,
+    selectSource,
+    attachVideo,
+    detachVideo,
+    togglePictureInPicture,
     getShareUrl,
+    addToQueue,
+    playNext,
+    removeFromQueue,
+    moveInQueue,
+    clearQueue,
+    isQueued,
+    skipToNext,
+    setAutoplay,
+    setCompletedCheck,
+    restoreQueue,
 
     // Constants
     speedPresets: SPEED_PRESETS,
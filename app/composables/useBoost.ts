@@ -0,0 +1,100 @@
+import { computed } from 'vue'
+import type { BoostConfig, BoostPayment, BoostResult } from '~/types/podcast'
+
+/** The parts of a WebLN provider (window.webln) used for boosts */
+interface WebLNProvider {
+  enable(): Promise<void>
+  keysend(args: { destination: string; amount: string; customRecords?: Record<string, string> }): Promise<{ preimage: string }>
+  sendPayment(paymentRequest: string): Promise<{ preimage: string }>
+}
+
+/** LNURL-pay endpoint response (LUD-06), or its error */
+interface PayRequest {
+  callback?: string
+  minSendable?: number
+  maxSendable?: number
+  commentAllowed?: number
+  reason?: string
+}
+
+function getWebLN(): WebLNProvider | undefined {
+  if (!import.meta.client) return undefined
+  return (window as Window & { webln?: WebLNProvider }).webln
+}
+
+/**
+ * Fetch a BOLT11 invoice for a Lightning address payment from its
+ * LNURL-pay endpoint
+ */
+async function requestInvoice(payment: BoostPayment): Promise<string> {
+  if (!payment.lnurlp) throw new Error(`${payment.destination} is not a Lightning address`)
+
+  const params = await $fetch<PayRequest>(payment.lnurlp)
+  if (!params.callback) throw new Error(params.reason || `${payment.destination} does not accept payments`)
+
+  const msat = payment.amount * 1000
+  if ((params.minSendable && msat < params.minSendable) || (params.maxSendable && msat > params.maxSendable)) {
+    throw new Error(`${payment.destination} does not accept ${payment.amount} sats`)
+  }
+
+  const invoice = await $fetch<{ pr?: string; reason?: string }>(params.callback, {
+    query: {
+      amount: msat,
+      comment: params.commentAllowed ? payment.comment?.slice(0, params.commentAllowed) : undefined,
+    },
+  })
+  if (!invoice.pr) throw new Error(invoice.reason || `${payment.destination} did not send an invoice`)
+  return invoice.pr
+}
+
+/**
+ * Sending boosts (podcast:value payments) from the listener's wallet.
+ *
+ * Payments are POSTed to app.config `podcast.boost.walletEndpoint` when
+ * it's set, otherwise paid through a WebLN browser wallet (Alby and the
+ * like): keysend for node recipients, and a BOLT11 invoice from the
+ * LNURL-pay endpoint for Lightning addresses. One recipient failing
+ * doesn't stop the others.
+ */
+export function useBoost() {
+  const appConfig = useAppConfig()
+
+  const walletEndpoint = computed(() => ((appConfig.podcast as any)?.boost as BoostConfig | undefined)?.walletEndpoint || '')
+
+  /** Whether there's a wallet to send boosts to (client only) */
+  const hasWallet = computed(() => !!walletEndpoint.value || !!getWebLN())
+
+  const send = async (payments: BoostPayment[]): Promise<BoostResult[]> => {
+    if (walletEndpoint.value) {
+      const response = await $fetch<{ payments: BoostResult[] }>(walletEndpoint.value, {
+        method: 'POST',
+        body: { payments },
+      })
+      return response.payments
+    }
+
+    const webln = getWebLN()
+    if (!webln) throw new Error('No Lightning wallet found')
+    await webln.enable()
+
+    const results: BoostResult[] = []
+    for (const payment of payments) {
+      const { destination, amount } = payment
+      try {
+        const { preimage } = payment.method === 'keysend'
+          ? await webln.keysend({ destination, amount: String(amount), customRecords: payment.customRecords })
+          : await webln.sendPayment(await requestInvoice(payment))
+        results.push({ destination, amount, ok: true, preimage })
+      } catch (e) {
+        results.push({ destination, amount, ok: false, error: e instanceof Error ? e.message : String(e) })
+      }
+    }
+    return results
+  }
+
+  return {
+    walletEndpoint,
+    hasWallet,
+    send,
+  }
+}
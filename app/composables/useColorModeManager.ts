@@ -25,7 +25,7 @@ export function useColorModeManager() {
   })
 
   // Artwork-derived theme colors
-  const { isLoaded: themeReady, applyThemeColors } = useThemeColors()
+  const { themeData, isLoaded: themeReady, applyThemeColors } = useThemeColors()
 
   // Resolved mode: 'light' | 'dark' (resolves 'auto' to the actual value)
   const resolvedMode = computed(() => {
@@ -35,9 +35,10 @@ export function useColorModeManager() {
 
   const isDark = computed(() => resolvedMode.value === 'dark')
 
-  // Apply theme colors when data is loaded or color mode changes
+  // Apply theme colors when data is loaded, the show changes (network mode),
+  // or color mode changes
   watch(
-    [themeReady, resolvedMode],
+    [themeReady, resolvedMode, themeData],
     ([ready, mode]) => {
       if (ready) {
         applyThemeColors(mode)
@@ -0,0 +1,289 @@
+import { ref, computed } from 'vue'
+import { formatBytes } from '~/utils/format'
+import type { Episode, EpisodeSummary } from '~/types/podcast'
+
+/** Episode data a download needs — works with both full Episode and lightweight EpisodeSummary */
+type DownloadableEpisode = Episode | EpisodeSummary
+
+/** A downloaded episode, without its audio */
+interface DownloadedEpisode {
+  guid: string
+  episode: EpisodeSummary
+  /** Audio size in bytes */
+  size: number
+  /** Audio MIME type */
+  type: string
+  downloadedAt: number
+}
+
+/** A download as stored in IndexedDB */
+interface StoredDownload extends DownloadedEpisode {
+  blob: Blob
+}
+
+interface DownloadProgress {
+  loaded: number
+  /** Total bytes, or 0 when the server doesn't send Content-Length */
+  total: number
+}
+
+const DB_NAME = 'podcast-downloads'
+const DB_VERSION = 1
+const STORE_NAME = 'episodes'
+
+// Global state (shared by every caller, like the audio player)
+const downloads = ref<Record<string, DownloadedEpisode>>({})
+const progress = ref<Record<string, DownloadProgress>>({})
+const errors = ref<Record<string, string>>({})
+
+/** Object URLs for downloaded audio, keyed by episode GUID */
+const objectUrls = new Map<string, string>()
+/** In-flight downloads, so they can be cancelled */
+const controllers = new Map<string, AbortController>()
+
+let database: Promise<IDBDatabase> | null = null
+let loading: Promise<void> | null = null
+
+/**
+ * Open (and on first use, create) the downloads database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'guid' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+/**
+ * Run a single request against the downloads store
+ */
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Whether this browser can store downloads
+ */
+function isSupported(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof fetch !== 'undefined'
+}
+
+/**
+ * Strip show notes and Podcasting 2.0 data — a download only needs
+ * what the player and episode lists use
+ */
+function toSummary(episode: DownloadableEpisode): EpisodeSummary {
+  const { htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary } = episode as Episode
+  return summary
+}
+
+/**
+ * Throw if the browser's storage quota can't fit `bytes` more
+ */
+async function checkQuota(bytes: number) {
+  if (!bytes || typeof navigator === 'undefined' || !navigator.storage?.estimate) return
+  const { quota, usage } = await navigator.storage.estimate()
+  if (quota !== undefined && usage !== undefined && quota - usage < bytes) {
+    throw new Error(`Not enough storage space (${formatBytes(bytes)} needed, ${formatBytes(quota - usage)} free)`)
+  }
+}
+
+/**
+ * Human-readable message for a failed download
+ */
+function downloadErrorMessage(error: unknown): string {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Not enough storage space for this episode'
+  }
+  // fetch() rejects with a TypeError on network and CORS failures
+  if (error instanceof TypeError) {
+    return 'Download failed — check your connection, or the audio host may not allow downloads'
+  }
+  return error instanceof Error ? error.message : 'Download failed'
+}
+
+/**
+ * Offline episode downloads.
+ *
+ * Audio files are fetched with progress and stored as blobs in IndexedDB.
+ * Once loaded, each download gets an object URL so the player can switch
+ * to the local copy synchronously (no await between a tap and playback).
+ */
+export function useDownloads() {
+  /**
+   * Read downloads from IndexedDB. Called once on app start; safe to call again.
+   */
+  const loadDownloads = (): Promise<void> => {
+    if (!isSupported()) return Promise.resolve()
+
+    loading ??= withStore<StoredDownload[]>('readonly', store => store.getAll())
+      .then((records) => {
+        const loaded: Record<string, DownloadedEpisode> = {}
+        for (const { blob, ...download } of records) {
+          loaded[download.guid] = download
+          if (!objectUrls.has(download.guid)) {
+            objectUrls.set(download.guid, URL.createObjectURL(blob))
+          }
+        }
+        downloads.value = loaded
+      })
+      .catch((error) => {
+        console.warn('Failed to load downloads:', error)
+      })
+    return loading
+  }
+
+  /**
+   * Download an episode's audio for offline listening
+   */
+  const download = async (episode: DownloadableEpisode) => {
+    const guid = episode.guid
+    if (!isSupported() || downloads.value[guid] || controllers.has(guid)) return
+
+    const controller = new AbortController()
+    controllers.set(guid, controller)
+    progress.value[guid] = { loaded: 0, total: 0 }
+    delete errors.value[guid]
+
+    try {
+      await loadDownloads()
+
+      const response = await fetch(episode.audioUrl, { signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`Download failed (HTTP ${response.status})`)
+      }
+
+      const total = Number(response.headers.get('Content-Length')) || 0
+      await checkQuota(total)
+      progress.value[guid] = { loaded: 0, total }
+
+      // Read the body in chunks to report progress
+      const chunks: Uint8Array[] = []
+      const reader = response.body?.getReader()
+      if (reader) {
+        let loaded = 0
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+          chunks.push(value)
+          loaded += value.length
+          progress.value[guid] = { loaded, total }
+        }
+      } else {
+        chunks.push(new Uint8Array(await response.arrayBuffer()))
+      }
+
+      const type = response.headers.get('Content-Type')?.split(';')[0] || 'audio/mpeg'
+      const blob = new Blob(chunks as BlobPart[], { type })
+      if (!total) await checkQuota(blob.size)
+
+      const record: StoredDownload = {
+        guid,
+        episode: toSummary(episode),
+        size: blob.size,
+        type,
+        downloadedAt: Date.now(),
+        blob,
+      }
+      await withStore('readwrite', store => store.put(record))
+
+      const { blob: _blob, ...downloaded } = record
+      downloads.value[guid] = downloaded
+      objectUrls.set(guid, URL.createObjectURL(blob))
+
+      // Ask the browser not to evict downloads under storage pressure
+      navigator.storage?.persist?.().catch(() => {})
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        errors.value[guid] = downloadErrorMessage(error)
+      }
+    } finally {
+      controllers.delete(guid)
+      delete progress.value[guid]
+    }
+  }
+
+  /**
+   * Stop an in-progress download
+   */
+  const cancel = (guid: string) => {
+    controllers.get(guid)?.abort()
+  }
+
+  /**
+   * Delete a downloaded episode
+   */
+  const remove = async (guid: string) => {
+    if (!isSupported()) return
+    await withStore('readwrite', store => store.delete(guid))
+    delete downloads.value[guid]
+    const url = objectUrls.get(guid)
+    if (url) {
+      URL.revokeObjectURL(url)
+      objectUrls.delete(guid)
+    }
+  }
+
+  /**
+   * Object URL of a downloaded episode's audio, if it has been downloaded
+   */
+  const localAudioUrl = (guid: string): string | undefined => objectUrls.get(guid)
+
+  const isDownloaded = (guid: string): boolean => guid in downloads.value
+  const isDownloading = (guid: string): boolean => guid in progress.value
+
+  /**
+   * Download progress as a percentage (0 when the size is unknown)
+   */
+  const getProgressPercent = (guid: string): number => {
+    const current = progress.value[guid]
+    if (!current?.total) return 0
+    return Math.min(100, (current.loaded / current.total) * 100)
+  }
+
+  /**
+   * Error from the last failed download of an episode
+   */
+  const getError = (guid: string): string | null => errors.value[guid] ?? null
+
+  /** Downloaded episodes, most recent first */
+  const downloadedEpisodes = computed(() =>
+    Object.values(downloads.value).sort((a, b) => b.downloadedAt - a.downloadedAt),
+  )
+
+  /** Total bytes used by downloads */
+  const totalSize = computed(() =>
+    Object.values(downloads.value).reduce((sum, download) => sum + download.size, 0),
+  )
+
+  return {
+    // State
+    downloadedEpisodes,
+    totalSize,
+    hasDownloads: computed(() => downloadedEpisodes.value.length > 0),
+
+    // Methods
+    loadDownloads,
+    download,
+    cancel,
+    remove,
+    localAudioUrl,
+
+    // Status checks
+    isSupported,
+    isDownloaded,
+    isDownloading,
+    getProgressPercent,
+    getError,
+  }
+}
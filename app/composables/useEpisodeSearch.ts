@@ -1,50 +1,194 @@
 /**
- * Shared episode search state using the lightweight search-index endpoint.
+ * Shared episode search state backed by the server-side search endpoint.
  *
- * The search index is loaded lazily on the client only (server: false),
- * so it never enters the SSG payload. Searching happens client-side
- * against a minimal dataset (title + description per episode).
+ * Queries go to /api/podcast/search, which ranks matches (title boost,
+ * prefix matching, typo tolerance) and returns only the current page with
+ * highlighted snippets. Results are fetched on the client only (server: false),
+ * so they never enter the SSG payload.
+ *
+ * Static builds (`nuxi generate`) have no server to answer search queries.
+ * When the endpoint is missing, the composable falls back to the prerendered
+ * /api/podcast/search-index and filters it client-side.
+ *
+ * Results matched inside a transcript link straight to the matching cue
+ * via ?t=, shifted by the podcast's transcriptOffset like TranscriptViewer.
+ *
+ * In network mode, searches the show in the current route.
  */
 import { refDebounced } from '@vueuse/core'
-import type { SearchIndexEntry } from '~/types/podcast'
+import type { SearchIndexEntry, SearchResponse, SearchResult } from '~/types/podcast'
 
 const searchInput = ref('')
 const debouncedQuery = refDebounced(searchInput, 300)
+const page = ref(1)
+
+/** Results per page for both the server and fallback searches */
+const PAGE_SIZE = 20
+
+/** Longest query searched; the search endpoint truncates to the same length */
+const MAX_QUERY_LENGTH = 200
+
+/**
+ * The query as searched: trimmed and truncated like the server does, so
+ * it matches the `query` a response echoes back
+ */
+function searchQuery(input: string): string {
+  return input.trim().slice(0, MAX_QUERY_LENGTH)
+}
+
+// Once the search endpoint is known to be missing (static build), stop
+// asking for it and use the prerendered index instead.
+let serverSearchAvailable = true
+const staticIndexes = new Map<string, Promise<SearchIndexEntry[]>>()
+
+/**
+ * Escape text for insertion via v-html
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Naive substring search over the prerendered search index.
+ * Used only when the server search endpoint is unavailable.
+ */
+async function searchStaticIndex(
+  q: string,
+  pageNumber: number,
+  query: Record<string, string>,
+  signal: AbortSignal,
+): Promise<SearchResponse> {
+  const cacheKey = query.show ?? ''
+  let staticIndex = staticIndexes.get(cacheKey)
+  if (!staticIndex) {
+    staticIndex = $fetch<SearchIndexEntry[]>('/api/podcast/search-index', { query, signal })
+      .catch((error) => {
+        staticIndexes.delete(cacheKey)
+        throw error
+      })
+    staticIndexes.set(cacheKey, staticIndex)
+  }
+  const entries = await staticIndex
+
+  const needle = q.toLowerCase()
+  const matches = entries.filter(ep =>
+    ep.title.toLowerCase().includes(needle)
+    || ep.description.toLowerCase().includes(needle),
+  )
+
+  const start = (pageNumber - 1) * PAGE_SIZE
+  const results: SearchResult[] = matches.slice(start, start + PAGE_SIZE).map(ep => {
+    const plain = ep.description.replace(/<[^>]*>/g, '')
+    return {
+      ...ep,
+      score: 0,
+      titleHighlight: escapeHtml(ep.title),
+      snippet: escapeHtml(plain.length > 200 ? `${plain.substring(0, 200).trim()}...` : plain),
+    }
+  })
+
+  return {
+    query: q,
+    results,
+    total: matches.length,
+    page: pageNumber,
+    totalPages: Math.ceil(matches.length / PAGE_SIZE),
+  }
+}
 
 export function useEpisodeSearch() {
-  // Lazy-load the search index on the client only.
-  // This never enters the SSG payload — it's fetched on demand.
-  const { data: searchIndex } = useAsyncData(
-    'episode-search-index',
-    async (_nuxtApp, { signal }) => {
-      return await $fetch<SearchIndexEntry[]>('/api/podcast/search-index', { signal })
+  const appConfig = useAppConfig()
+  const { apiQuery, dataKey, path } = useShow()
+
+  const { data, status } = useAsyncData(
+    () => dataKey('episode-search'),
+    async (_nuxtApp, { signal }): Promise<SearchResponse | null> => {
+      const q = searchQuery(debouncedQuery.value)
+      if (!q) return null
+
+      if (serverSearchAvailable) {
+        try {
+          const response = await $fetch<SearchResponse>('/api/podcast/search', {
+            query: { ...apiQuery.value, q, page: page.value, limit: PAGE_SIZE },
+            signal,
+          })
+          // Static hosts may answer unknown routes with an HTML page
+          if (Array.isArray(response?.results)) return response
+          serverSearchAvailable = false
+        } catch (error: any) {
+          const statusCode = error?.statusCode ?? error?.response?.status
+          if (statusCode !== 404 && statusCode !== 405) throw error
+          serverSearchAvailable = false
+        }
+      }
+
+      return await searchStaticIndex(q, page.value, apiQuery.value, signal)
     },
-    { server: false, lazy: true },
+    { server: false, lazy: true, watch: [debouncedQuery, page] },
   )
 
-  /** Filtered search results — only populated when there's a query */
-  const results = computed<SearchIndexEntry[]>(() => {
-    const q = debouncedQuery.value.toLowerCase().trim()
-    if (!q || !Array.isArray(searchIndex.value)) return []
-
-    return searchIndex.value.filter(ep =>
-      ep.title.toLowerCase().includes(q)
-      || ep.description.toLowerCase().includes(q),
-    )
+  /** Current page of ranked results — only populated when there's a query */
+  const results = computed<SearchResult[]>(() => {
+    if (!debouncedQuery.value.trim()) return []
+    return data.value?.results ?? []
   })
 
+  /** Total number of matches across all pages */
+  const total = computed(() => (debouncedQuery.value.trim() ? data.value?.total ?? 0 : 0))
+  const totalPages = computed(() => data.value?.totalPages ?? 0)
+
   /** Whether a search is active */
   const isSearching = computed(() => debouncedQuery.value.trim().length > 0)
 
+  /**
+   * Whether results for the current query are still loading. Until the
+   * refetch starts, the previous query's results are still loaded; a failed
+   * search isn't loading.
+   */
+  const isLoading = computed(() => {
+    if (!isSearching.value || status.value === 'error') return false
+    return status.value === 'pending' || data.value?.query !== searchQuery(debouncedQuery.value)
+  })
+
+  // A new query always starts from the first page. Sync flush so the reset
+  // lands before useAsyncData's watcher refetches with the stale page.
+  watch(debouncedQuery, () => {
+    page.value = 1
+  }, { flush: 'sync' })
+
   const clear = () => {
     searchInput.value = ''
   }
 
+  /** Audio position of a result's transcript hit, or null if it has none */
+  const transcriptTime = (result: SearchResult): number | null => {
+    if (!result.transcriptHit) return null
+    const offset = (appConfig.podcast as any)?.transcriptOffset ?? 0
+    return Math.max(0, Math.round(result.transcriptHit.startTime + offset))
+  }
+
+  /** Episode page path for a result, jumping to the transcript hit if any */
+  const resultPath = (result: SearchResult): string => {
+    const time = transcriptTime(result)
+    const episodePage = path(`/episodes/${result.slug}`)
+    return time ? `${episodePage}?t=${time}` : episodePage
+  }
+
   return {
     searchInput,
     query: debouncedQuery,
+    page,
     results,
+    total,
+    totalPages,
     isSearching,
+    isLoading,
     clear,
+    transcriptTime,
+    resultPath,
   }
 }
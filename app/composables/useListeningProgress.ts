@@ -121,6 +121,7 @@ export function useListeningProgress() {
       if (
         player.isPlaying.value &&
         player.currentEpisode.value &&
+        !player.isLive.value &&
         player.currentTime.value > 0
       ) {
         saveProgress(
@@ -142,8 +143,8 @@ export function useListeningProgress() {
         resumeAutoSave()
       } else {
         pauseAutoSave()
-        // Save one final time when pausing
-        if (player.currentEpisode.value && player.currentTime.value > 0) {
+        // Save one final time when pausing (live streams have no position to resume)
+        if (player.currentEpisode.value && !player.isLive.value && player.currentTime.value > 0) {
           saveProgress(
             player.currentEpisode.value.guid,
             player.currentTime.value,
@@ -0,0 +1,68 @@
+import { computed, watch } from 'vue'
+import { useIntervalFn } from '@vueuse/core'
+import { liveEpisode } from '~/utils/live'
+import type { LiveItem } from '~/types/podcast'
+
+// Live status changes while the page is open; check again this often
+const REFRESH_INTERVAL = 60_000
+
+/**
+ * Live streams (podcast:liveItem) for the current show, from /api/podcast/live.
+ *
+ * Fetched on the client and refreshed every minute, so a static build
+ * never freezes a status into the page (and simply shows nothing, as
+ * the endpoint needs the site's server).
+ *
+ * Also converts a finished stream into its recording: once the feed
+ * publishes the recording, a stream loaded in the player is swapped for
+ * the regular episode as soon as it isn't playing. The default layout's
+ * LiveBanner calls this, so the check runs on every page.
+ */
+export function useLiveItems() {
+  const { apiQuery, dataKey, isNetworkRoot, showId } = useShow()
+  const player = useAudioPlayer()
+
+  const { data, refresh } = useAsyncData(
+    () => dataKey('live-items'),
+    async (_nuxtApp, { signal }) => {
+      if (isNetworkRoot.value) return []
+      return await $fetch<LiveItem[]>('/api/podcast/live', { query: apiQuery.value, signal })
+    },
+    { server: false, lazy: true, default: () => [] },
+  )
+
+  useIntervalFn(() => refresh(), REFRESH_INTERVAL)
+
+  const items = computed<LiveItem[]>(() => (Array.isArray(data.value) ? data.value : []))
+
+  /** Streams on air now */
+  const liveNow = computed(() => items.value.filter(item => item.status === 'live'))
+
+  /** Scheduled streams, soonest first */
+  const upcoming = computed(() => items.value.filter(item => item.status === 'pending'))
+
+  /**
+   * Play a stream in the persistent player
+   */
+  const playLive = (item: LiveItem) => {
+    player.play(liveEpisode(item, showId.value))
+  }
+
+  watch(
+    [items, () => player.currentEpisode.value, () => player.isPlaying.value],
+    () => {
+      const current = player.currentEpisode.value
+      if (!current?.live || player.isPlaying.value) return
+      const recording = items.value.find(item => item.guid === current.guid)?.episode
+      if (recording) player.preload(recording)
+    },
+  )
+
+  return {
+    items,
+    liveNow,
+    upcoming,
+    playLive,
+    refresh,
+  }
+}
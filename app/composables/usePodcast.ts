@@ -9,12 +9,18 @@ import type { Podcast } from '~/types/podcast'
  *
  * For episode data, pages should fetch directly from the paginated
  * /api/podcast/episodes endpoint using their own useAsyncData call.
+ *
+ * In network mode this follows the show in the current route, and is
+ * null on the network landing page (which has no single show).
  */
 export const usePodcast = () => {
+  const { apiQuery, dataKey, isNetworkRoot } = useShow()
+
   const { data, status, error: fetchError, refresh } = useAsyncData(
-    'podcast-meta',
+    () => dataKey('podcast-meta'),
     async (_nuxtApp, { signal }) => {
-      return await $fetch<Podcast>('/api/podcast/meta', { signal })
+      if (isNetworkRoot.value) return null
+      return await $fetch<Podcast>('/api/podcast/meta', { query: apiQuery.value, signal })
     },
   )
 
@@ -0,0 +1,51 @@
+import type { ShowConfig } from '~/types/podcast'
+
+/**
+ * Composable for network mode (multiple shows configured in
+ * app.config.ts `podcast.shows`).
+ *
+ * Every page is also served under /shows/<id>; this reads the show id
+ * from the route and provides what pages need to stay scoped to it:
+ * API query params, route-prefixed links, and per-show useAsyncData keys.
+ * On a single-show site all of these are no-ops.
+ */
+export function useShow() {
+  const route = useRoute()
+  const appConfig = useAppConfig()
+
+  /** All shows in the network (empty for a single-show site) */
+  const shows = computed<ShowConfig[]>(() => (appConfig.podcast as any).shows ?? [])
+  const isNetwork = computed(() => shows.value.length > 0)
+
+  /** Show id from the /shows/<id> route prefix */
+  const showId = computed(() => {
+    const param = route.params.show
+    return typeof param === 'string' && param ? param : undefined
+  })
+
+  /** Whether this is the network landing page context (network mode, no show selected) */
+  const isNetworkRoot = computed(() => isNetwork.value && !showId.value)
+
+  /** Query params that scope API requests to the current show */
+  const apiQuery = computed(() => {
+    const query: Record<string, string> = {}
+    if (showId.value) query.show = showId.value
+    return query
+  })
+
+  /** Prefix an app path with the current show's route prefix */
+  const path = (to = '/') => showPath(showId.value, to)
+
+  /** Namespace a useAsyncData key so shows don't share cached data */
+  const dataKey = (key: string) => (showId.value ? `${key}:${showId.value}` : key)
+
+  return {
+    shows,
+    isNetwork,
+    showId,
+    isNetworkRoot,
+    apiQuery,
+    path,
+    dataKey,
+  }
+}
@@ -16,10 +16,15 @@ function colorsToCssProperties(colors: ThemeColors): string {
  * Uses useHead to inject a <style> tag during SSR so theme colors are present
  * in the initial HTML (no FOUC). On the client, also sets inline styles
  * for dynamic color mode switching.
+ *
+ * In network mode, uses the palette of the show in the current route.
  */
 export function useThemeColors() {
+  const { apiQuery, dataKey } = useShow()
+
   const { data: themeData, status } = useFetch<ThemeColorsResponse>('/api/podcast/colors', {
-    key: 'podcast-theme-colors',
+    key: computed(() => dataKey('podcast-theme-colors')),
+    query: apiQuery,
     server: true,
     // On static sites, read from the SSG payload instead of re-fetching at runtime.
     // The route is prerendered by nuxi generate — the data is already in the payload.
@@ -6,17 +6,29 @@ const LAST_EPISODE_KEY = 'podcast-last-episode'
 /**
  * Client-only plugin to initialize the audio player at app root.
  * Ensures Howler.js only loads on the client side (no SSR).
- * Restores the last-played episode from localStorage, or falls back
- * to preloading the latest episode without starting playback.
+ * Loads offline downloads, then restores the queue and last-played episode
+ * from localStorage, or falls back to preloading the latest episode without
+ * starting playback.
  */
 export default defineNuxtPlugin((nuxtApp) => {
   // Only run on client side
   if (import.meta.server) return
 
   const player = useAudioPlayer()
+  const appConfig = useAppConfig()
+  const router = useRouter()
 
   // Use nuxtApp hook to run after app is ready
   nuxtApp.hook('app:mounted', async () => {
+    // Embedded players only ever play their own episode
+    if (router.currentRoute.value.meta.layout === 'embed') return
+
+    // Load downloads first so a restored episode plays from its local copy
+    await useDownloads().loadDownloads()
+
+    // Restore the "Up next" queue saved by a previous visit
+    player.restoreQueue()
+
     // Only preload if no episode is already loaded
     if (player.hasEpisode.value) return
 
@@ -40,13 +52,24 @@ export default defineNuxtPlugin((nuxtApp) => {
       }
 
       // No saved episode — fall back to preloading the latest episode
-      const data = await $fetch<PaginatedEpisodes>('/api/podcast/episodes', {
-        query: { page: 1, limit: 1 },
-      })
+      // (of the current show, or across the whole network on its landing page)
+      const showId = router.currentRoute.value.params.show
+      let latest: EpisodeSummary | undefined
+      if (typeof showId !== 'string' && (appConfig.podcast as any).shows?.length) {
+        const episodes = await $fetch<EpisodeSummary[]>('/api/network/latest', {
+          query: { limit: 1 },
+        })
+        latest = episodes[0]
+      } else {
+        const data = await $fetch<PaginatedEpisodes>('/api/podcast/episodes', {
+          query: { page: 1, limit: 1, ...(typeof showId === 'string' && { show: showId }) },
+        })
+        latest = data.episodes[0]
+      }
 
-      if (data.episodes.length > 0) {
+      if (latest) {
         // preload() sets state without initiating any audio HTTP requests
-        player.preload(data.episodes[0])
+        player.preload(latest)
       }
     } catch {
       // Silently fail — preloading is a nice-to-have, not critical
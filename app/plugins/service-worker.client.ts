@@ -0,0 +1,21 @@
+/**
+ * Client-only plugin to register the offline service worker (public/sw.js).
+ * Skipped in development, where cached assets would mask hot reloads, and
+ * in the embed player, which runs in other sites' iframes.
+ *
+ * The worker is registered with the build id, so each deploy installs a
+ * fresh worker whose caches replace the previous build's.
+ */
+export default defineNuxtPlugin((nuxtApp) => {
+  if (import.meta.dev || !('serviceWorker' in navigator)) return
+
+  const { baseURL, buildId } = useRuntimeConfig().app
+
+  nuxtApp.hook('app:mounted', () => {
+    if (useRoute().meta.layout === 'embed') return
+
+    navigator.serviceWorker.register(`${baseURL}sw.js?v=${encodeURIComponent(buildId)}`, { scope: baseURL }).catch((error) => {
+      console.warn('Service worker registration failed:', error)
+    })
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Embeddable player helpers, shared by the share popover (embed code)
+ * and the oEmbed endpoint so both produce identical markup.
+ */
+
+export type EmbedTheme = 'auto' | 'light' | 'dark'
+
+export interface EmbedOptions {
+  /** Iframe width in pixels, or a CSS length such as '100%' */
+  width: number | string
+  /** Iframe height in pixels */
+  height: number
+  theme?: EmbedTheme
+  /** Start position in seconds */
+  start?: number
+}
+
+/** Default iframe size for the embed player */
+export const EMBED_DEFAULT_WIDTH = '100%'
+export const EMBED_DEFAULT_HEIGHT = 180
+
+/** Fixed-size embeds (oEmbed): default width, and the smallest the player works at */
+export const EMBED_FIXED_WIDTH = 600
+export const EMBED_MIN_WIDTH = 280
+export const EMBED_MIN_HEIGHT = 120
+
+/**
+ * Pixel size for a fixed-size embed within a consumer's maximum
+ * (oEmbed maxwidth/maxheight; 0 or missing for no limit). Returns null
+ * when the maximum is below what the player needs.
+ */
+export function fitEmbedSize(maxWidth?: number, maxHeight?: number): { width: number; height: number } | null {
+  const widthLimit = maxWidth && maxWidth > 0 ? Math.floor(maxWidth) : Infinity
+  const heightLimit = maxHeight && maxHeight > 0 ? Math.floor(maxHeight) : Infinity
+  if (widthLimit < EMBED_MIN_WIDTH || heightLimit < EMBED_MIN_HEIGHT) return null
+
+  return {
+    width: Math.min(EMBED_FIXED_WIDTH, widthLimit),
+    height: Math.min(EMBED_DEFAULT_HEIGHT, heightLimit),
+  }
+}
+
+/**
+ * Escape text for use inside a double-quoted HTML attribute
+ */
+function escapeAttribute(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Build the /embed/<slug> URL for an episode.
+ * `embedPath` is the path of the embed page (e.g. from showPath).
+ */
+export function buildEmbedUrl(origin: string, embedPath: string, options: Pick<EmbedOptions, 'theme' | 'start'> = {}): string {
+  const params = new URLSearchParams()
+  if (options.theme && options.theme !== 'auto') params.set('theme', options.theme)
+  if (options.start && options.start > 0) params.set('t', String(Math.floor(options.start)))
+
+  const query = params.toString()
+  return `${origin}${embedPath}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Build the <iframe> embed code for an embed URL
+ */
+export function buildEmbedCode(src: string, title: string, options: Pick<EmbedOptions, 'width' | 'height'>): string {
+  const width = typeof options.width === 'number' ? String(options.width) : options.width
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${escapeAttribute(width)}" height="${options.height}" frameborder="0" allow="autoplay; encrypted-media" loading="lazy" style="border: 0; border-radius: 12px;"></iframe>`
+}
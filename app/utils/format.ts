@@ -92,3 +92,39 @@ export function parseDuration(input: string | number | undefined): number {
   
   return 0
 }
+
+/**
+ * Format a byte count into a human-readable size
+ * @param bytes - Size in bytes
+ * @returns Formatted size (e.g., "512 B", "4.2 MB", "48 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`
+}
+
+/**
+ * Format the time left until something starts as a short countdown,
+ * showing the two largest units
+ * @param seconds - Seconds remaining
+ * @returns Countdown (e.g., "2d 3h", "3h 20m", "12m 5s", "45s"); "0s" once started
+ */
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const days = Math.floor(total / 86400)
+  const hours = Math.floor((total % 86400) / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = total % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${secs}s`
+  return `${secs}s`
+}
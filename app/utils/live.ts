@@ -0,0 +1,33 @@
+/**
+ * Playing podcast:liveItem streams in the persistent player
+ */
+import type { EpisodeSummary, LiveItem } from '~/types/podcast'
+
+/**
+ * A live item as something the player can play. It keeps the live item's
+ * GUID, which the recording will share once the feed publishes it.
+ */
+export function liveEpisode(item: LiveItem, showId?: string): EpisodeSummary {
+  return {
+    guid: item.guid,
+    title: item.title,
+    slug: '',
+    description: item.description,
+    audioUrl: item.streamUrl,
+    audioType: item.streamType,
+    pubDate: item.start,
+    duration: 0,
+    artwork: item.artwork,
+    episodeType: 'full',
+    showId,
+    live: true,
+  }
+}
+
+/**
+ * Whether a pending stream's scheduled start has passed (the feed hasn't
+ * flipped it to live yet)
+ */
+export function isOverdue(item: LiveItem, now: number = Date.now()): boolean {
+  return item.status === 'pending' && new Date(item.start).getTime() <= now
+}
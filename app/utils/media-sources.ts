@@ -0,0 +1,171 @@
+/**
+ * Choosing which version of an episode's media to play: the enclosure or
+ * one of its Podcasting 2.0 alternate enclosures
+ */
+import type { AlternateEnclosure } from '~/types/podcast'
+
+/**
+ * A version of an episode's media the player can offer
+ */
+export interface EpisodeSource {
+  url: string
+  /** MIME type */
+  type: string
+  /** Name shown in the source picker */
+  label: string
+  /** Average bits per second, when the feed says (estimated for the enclosure) */
+  bitrate?: number
+  /** Howler format, for URLs without a telling extension */
+  format?: string
+  /** The feed's own <enclosure> */
+  original?: boolean
+  /** Played through a <video> element rather than Howler (video files and HLS playlists) */
+  video?: boolean
+}
+
+/**
+ * The parts of the Network Information API (navigator.connection) used here
+ */
+export interface ConnectionInfo {
+  effectiveType?: string
+  saveData?: boolean
+}
+
+/** Display names for common audio MIME types */
+const FORMAT_NAMES: Record<string, string> = {
+  'audio/mpeg': 'MP3',
+  'audio/mp3': 'MP3',
+  'audio/mp4': 'AAC',
+  'audio/x-m4a': 'AAC',
+  'audio/aac': 'AAC',
+  'audio/ogg': 'Ogg',
+  'audio/opus': 'Opus',
+  'audio/webm': 'WebM',
+  'audio/flac': 'FLAC',
+  'audio/wav': 'WAV',
+}
+
+/** MIME types of HLS playlists */
+const HLS_TYPES = ['application/x-mpegurl', 'application/vnd.apple.mpegurl', 'audio/mpegurl', 'audio/x-mpegurl']
+
+/** Howler formats for the same types */
+const HOWLER_FORMATS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+  'audio/wav': 'wav',
+}
+
+/**
+ * Whether a media type is an HLS playlist
+ */
+export function isHlsType(type: string | undefined): boolean {
+  return !!type && HLS_TYPES.includes(type.toLowerCase())
+}
+
+/**
+ * Whether a media type needs a <video> element to play: video files, and
+ * HLS playlists (which Howler can't stream)
+ */
+export function isVideoType(type: string | undefined): boolean {
+  if (!type) return false
+  return type.toLowerCase().startsWith('video/') || isHlsType(type)
+}
+
+/**
+ * Picker label for an alternate enclosure: its title, or its format and
+ * bitrate (e.g. "Opus · 32 kbps"), frame height for video ("Video · 720p")
+ */
+export function alternateLabel(enclosure: AlternateEnclosure): string {
+  if (enclosure.title) return enclosure.title
+  const type = enclosure.type.toLowerCase()
+  if (HLS_TYPES.includes(type)) return 'Stream'
+  if (type.startsWith('video/')) return enclosure.height ? `Video · ${enclosure.height}p` : 'Video'
+  const format = FORMAT_NAMES[type] ?? type.split('/')[1]?.toUpperCase() ?? type
+  return enclosure.bitrate ? `${format} · ${Math.round(enclosure.bitrate / 1000)} kbps` : format
+}
+
+/**
+ * Average bits per second of a file from its size in bytes and its
+ * duration in seconds, when both are known
+ */
+export function estimateBitrate(length: number | undefined, duration: number | undefined): number | undefined {
+  if (!length || !duration || length <= 0 || duration <= 0) return undefined
+  return Math.round((length * 8) / duration)
+}
+
+/**
+ * Versions of an episode's media, the enclosure first. Alternates `canPlay`
+ * rejects are left out, so the picker only offers what this browser can play.
+ * The enclosure's bitrate is estimated from its length and the duration.
+ */
+export function episodeSources(
+  episode: {
+    audioUrl: string
+    audioType?: string
+    audioLength?: number
+    duration?: number
+    alternateEnclosures?: AlternateEnclosure[]
+  },
+  canPlay: (type: string, codecs?: string) => boolean = () => true,
+): EpisodeSource[] {
+  const sources: EpisodeSource[] = [{
+    url: episode.audioUrl,
+    type: episode.audioType ?? 'audio/mpeg',
+    label: 'Standard',
+    bitrate: estimateBitrate(episode.audioLength, episode.duration),
+    original: true,
+    video: isVideoType(episode.audioType),
+  }]
+
+  for (const enclosure of episode.alternateEnclosures ?? []) {
+    const type = enclosure.type.toLowerCase()
+    const video = isVideoType(type)
+    if ((!video && !type.startsWith('audio/')) || enclosure.url === episode.audioUrl) continue
+    if (sources.some(source => source.url === enclosure.url)) continue
+    if (!canPlay(type, enclosure.codecs)) continue
+
+    sources.push({
+      url: enclosure.url,
+      type,
+      label: alternateLabel(enclosure),
+      bitrate: enclosure.bitrate,
+      format: HOWLER_FORMATS[type],
+      video,
+    })
+  }
+
+  return sources
+}
+
+/**
+ * Whether a connection is slow or metered enough to prefer the smallest
+ * audio: Data Saver is on, or the effective type is 2G or worse
+ */
+export function isSlowConnection(connection: ConnectionInfo | undefined): boolean {
+  if (!connection) return false
+  return connection.saveData === true
+    || connection.effectiveType === 'slow-2g'
+    || connection.effectiveType === '2g'
+}
+
+/**
+ * Source to play when the listener hasn't picked one: the enclosure, or on
+ * a slow connection the lowest-bitrate audio version (when bitrates are
+ * known). Video is never picked for a slow connection.
+ */
+export function pickSource(sources: EpisodeSource[], slow: boolean): EpisodeSource | undefined {
+  const original = sources[0]
+  if (!slow) return original
+
+  const lowest = sources
+    .filter(source => source.bitrate && !source.video)
+    .sort((a, b) => a.bitrate! - b.bitrate!)[0]
+  return lowest ?? original
+}
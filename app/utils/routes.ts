@@ -0,0 +1,44 @@
+/**
+ * Route helpers for network mode, where each show lives under /shows/<id>.
+ * With no show id, paths are returned unchanged (single-show sites).
+ */
+
+/**
+ * Prefix an app path with a show's route prefix
+ */
+export function showPath(showId: string | undefined, path = '/'): string {
+  if (!showId) return path
+  return path === '/' ? `/shows/${showId}` : `/shows/${showId}${path}`
+}
+
+/**
+ * Path to an episode's detail page, under its show's prefix in network mode
+ */
+export function episodePath(episode: { slug: string; showId?: string }): string {
+  return showPath(episode.showId, `/episodes/${episode.slug}`)
+}
+
+/**
+ * Path to an episode's generated Open Graph image
+ */
+export function episodeOgImagePath(episode: { slug: string; showId?: string }): string {
+  return showPath(episode.showId, `/og/episodes/${encodeURIComponent(episode.slug)}.png`)
+}
+
+/**
+ * Parse an episode page path (/episodes/<slug> or
+ * /shows/<id>/episodes/<slug>, optionally the /embed/ variants).
+ * Returns null for any other path.
+ */
+export function parseEpisodePath(path: string): { slug: string; showId?: string } | null {
+  const match = path.match(/^(?:\/shows\/([^/]+))?\/(?:episodes|embed)\/([^/?#]+)\/?$/)
+  if (!match) return null
+
+  try {
+    const slug = decodeURIComponent(match[2]!)
+    return match[1] ? { slug, showId: decodeURIComponent(match[1]) } : { slug }
+  } catch {
+    // Malformed percent-encoding
+    return null
+  }
+}
@@ -69,13 +69,28 @@ export function generatePodcastOGTags(podcast: Podcast) {
 }
 
 /**
- * Generate Open Graph meta tags for episode pages
+ * Whether the generated episode card can draw a title. The card's font
+ * only covers Latin letters (accents are stripped), so a title mostly in
+ * other scripts, or only emoji, would come out blank or as fragments; those
+ * episodes share their artwork instead.
  */
-export function generateEpisodeOGTags(episode: Episode, podcast: Podcast, episodeUrl?: string) {
+export function ogCardShowsTitle(title: string): boolean {
+  const characters = title.normalize('NFKD').match(/[\p{L}\p{N}]/gu) ?? []
+  const latin = characters.filter(char => /[A-Za-z0-9]/.test(char)).length
+  return latin > 0 && latin * 2 >= characters.length
+}
+
+/**
+ * Generate Open Graph meta tags for episode pages.
+ * `imageUrl` is the generated 1200×630 episode card; without it the
+ * episode (or show) artwork is used.
+ */
+export function generateEpisodeOGTags(episode: Episode, podcast: Podcast, episodeUrl?: string, imageUrl?: string) {
   return {
     'og:title': `${episode.title} - ${podcast.title}`,
     'og:description': episode.description,
-    'og:image': episode.artwork || podcast.artwork,
+    'og:image': imageUrl || episode.artwork || podcast.artwork,
+    ...(imageUrl && { 'og:image:width': '1200', 'og:image:height': '630' }),
     'og:type': 'music.song', // Closest OG type for podcast episodes
     ...(episodeUrl && { 'og:url': episodeUrl }),
     'og:audio': episode.audioUrl,
@@ -98,11 +113,11 @@ export function generatePodcastTwitterTags(podcast: Podcast) {
 /**
  * Generate Twitter Card meta tags for episode pages
  */
-export function generateEpisodeTwitterTags(episode: Episode, podcast: Podcast) {
+export function generateEpisodeTwitterTags(episode: Episode, podcast: Podcast, imageUrl?: string) {
   return {
     'twitter:card': 'summary_large_image',
     'twitter:title': `${episode.title} - ${podcast.title}`,
     'twitter:description': episode.description,
-    'twitter:image': episode.artwork || podcast.artwork,
+    'twitter:image': imageUrl || episode.artwork || podcast.artwork,
   }
 }
@@ -3,6 +3,8 @@
  * Finds HH:MM:SS or MM:SS patterns and wraps them in clickable links
  */
 
+import type { Chapter } from '~/types/podcast'
+
 /**
  * Parse a timestamp string to seconds
  * Supports: HH:MM:SS, MM:SS, or just SS
@@ -96,6 +98,80 @@ export function extractTimestamps(html: string): Array<{ timestamp: string, seco
   return timestamps.sort((a, b) => a.seconds - b.seconds)
 }
 
+/**
+ * Convert show-notes HTML to plain-text lines, one per block element.
+ * Used to find the label text that accompanies each timestamp.
+ */
+function htmlToLines(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|li|div|h[1-6]|tr|dt|dd|blockquote)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&apos;/gi, "'")
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Build pseudo-chapters from timestamps in show notes.
+ * Pairs each timestamp from `extractTimestamps` with the text that follows it
+ * on the same line (e.g. "12:30 - Listener questions" → "Listener questions").
+ * When a line only has text before the timestamp ("Listener questions 12:30"),
+ * that text is used instead.
+ *
+ * Returns an empty array when fewer than two timestamps are found — a single
+ * timestamp mention isn't a chapter list.
+ *
+ * @param html - HTML show notes
+ * @returns Chapters sorted by start time, with end times filled in
+ */
+export function extractChapters(html: string): Chapter[] {
+  const timestamps = extractTimestamps(html)
+  if (timestamps.length < 2) return []
+
+  // Map each timestamp to the label text on its line (first occurrence wins)
+  const labels = new Map<string, string>()
+  const linePattern = /(\d{1,2}:\d{2}(?::\d{2})?)/g
+  const trimSeparators = (text: string) =>
+    text.replace(/^[\s\-–—:|)\].,]+|[\s\-–—:|(\[]+$/g, '').trim()
+
+  for (const line of htmlToLines(html)) {
+    const matches = [...line.matchAll(linePattern)]
+    matches.forEach((match, i) => {
+      const timestamp = match[1]!
+      if (labels.has(timestamp)) return
+
+      const start = match.index! + timestamp.length
+      const end = matches[i + 1]?.index ?? line.length
+      let label = trimSeparators(line.slice(start, end))
+
+      // Fall back to text before the timestamp ("Intro 00:00")
+      if (!label && i === 0) {
+        label = trimSeparators(line.slice(0, match.index))
+      }
+
+      labels.set(timestamp, label)
+    })
+  }
+
+  const chapters: Chapter[] = timestamps.map(({ timestamp, seconds }) => ({
+    startTime: seconds,
+    title: labels.get(timestamp) || timestamp,
+  }))
+
+  for (let i = 0; i < chapters.length - 1; i++) {
+    chapters[i]!.endTime = chapters[i + 1]!.startTime
+  }
+
+  return chapters
+}
+
 /**
  * Format seconds back to timestamp string
  * @param seconds - Total seconds
@@ -115,3 +191,19 @@ export function formatTimestamp(seconds: number, includeHours = false): string {
     return `${minutes}:${pad(secs)}`
   }
 }
+
+/**
+ * Add a clip range to an episode link as ?t=<start>&end=<end> (whole
+ * seconds), which the player plays as a clip that stops at the end.
+ * Returns null when the range is empty or invalid.
+ */
+export function buildClipUrl(url: string, start: number, end: number): string | null {
+  const from = Math.floor(start)
+  const to = Math.floor(end)
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from < 0 || to <= from) return null
+
+  const clipUrl = new URL(url)
+  clipUrl.searchParams.set('t', String(from))
+  clipUrl.searchParams.set('end', String(to))
+  return clipUrl.toString()
+}
@@ -0,0 +1,172 @@
+/**
+ * Value for value (podcast:value): how a listener's payment is split
+ * between recipients, and the wallet payments a boost turns into
+ */
+import type { BoostPayment, Episode, Podcast, ValueBlock, ValueRecipient, ValueTimeSplit } from '~/types/podcast'
+
+/** keysend TLV record type for boostagrams (bLIP-10) */
+export const BOOSTAGRAM_RECORD = '7629169'
+
+/**
+ * A recipient with its percentage of each payment
+ */
+export interface ValueShare {
+  recipient: ValueRecipient
+  /** 0-100 */
+  percent: number
+}
+
+/**
+ * A recipient's cut of a payment
+ */
+export interface ValueAmount {
+  recipient: ValueRecipient
+  sats: number
+}
+
+/**
+ * A boost as the listener entered it
+ */
+export interface Boost {
+  sats: number
+  senderName?: string
+  message?: string
+  /** Playback position when boosting, in seconds */
+  timestamp?: number
+  /** Name of the app sending it, for the boostagram */
+  appName: string
+}
+
+/**
+ * The value block that applies to an episode: its own, or else the show's
+ */
+export function episodeValue(
+  episode: Pick<Episode, 'podcast2'> | null | undefined,
+  podcast: Pick<Podcast, 'podcast2'> | null | undefined,
+): ValueBlock | undefined {
+  return episode?.podcast2?.value ?? podcast?.podcast2?.value
+}
+
+/**
+ * Whether a block can be paid from a Lightning wallet: it's a lightning
+ * block with at least one node or Lightning address recipient
+ */
+export function canBoost(value: ValueBlock | undefined): boolean {
+  return value?.type === 'lightning' && value.recipients.some(isPayable)
+}
+
+/**
+ * Each recipient's percentage of a payment. Fee recipients take their split
+ * as a percentage off the top; the rest is divided in proportion to the
+ * other recipients' splits.
+ */
+export function valueShares(recipients: ValueRecipient[]): ValueShare[] {
+  const feePercent = Math.min(100, recipients.reduce((sum, r) => sum + (r.fee ? r.split : 0), 0))
+  const totalSplit = recipients.reduce((sum, r) => sum + (r.fee ? 0 : r.split), 0)
+
+  return recipients.map(recipient => ({
+    recipient,
+    percent: recipient.fee
+      ? Math.min(100, recipient.split)
+      : totalSplit > 0 ? ((100 - feePercent) * recipient.split) / totalSplit : 0,
+  }))
+}
+
+/**
+ * The time split covering a playback position, if any
+ */
+export function activeTimeSplit(value: ValueBlock, seconds: number): ValueTimeSplit | undefined {
+  return value.timeSplits?.find((split: ValueTimeSplit) => seconds >= split.startTime && seconds < split.startTime + split.duration)
+}
+
+/**
+ * Split a payment between a block's recipients, in whole sats; recipients
+ * whose cut rounds down to nothing are left out. At `seconds`, a time split
+ * with inline recipients takes its remotePercentage. Remote items'
+ * recipients aren't known here, so their cut stays with the block's own.
+ */
+export function splitPayment(value: ValueBlock, sats: number, seconds?: number): ValueAmount[] {
+  const split = seconds !== undefined ? activeTimeSplit(value, seconds) : undefined
+  const remoteSats = split?.recipients ? Math.floor((sats * split.remotePercentage) / 100) : 0
+
+  return [
+    ...divide(value.recipients, sats - remoteSats),
+    ...(split?.recipients ? divide(split.recipients, remoteSats) : []),
+  ]
+}
+
+/**
+ * Divide sats between recipients by their shares
+ */
+function divide(recipients: ValueRecipient[], sats: number): ValueAmount[] {
+  return valueShares(recipients.filter(isPayable))
+    // Tolerate float error (e.g. 0.99 * 90) before flooring
+    .map(({ recipient, percent }) => ({ recipient, sats: Math.floor((sats * percent) / 100 + 1e-9) }))
+    .filter(amount => amount.sats > 0)
+}
+
+/**
+ * Recipients a Lightning wallet can pay
+ */
+function isPayable(recipient: ValueRecipient): boolean {
+  return recipient.type === 'node' || (recipient.type === 'lnaddress' && !!lnurlpUrl(recipient.address))
+}
+
+/**
+ * The LNURL-pay endpoint behind a Lightning address (user@domain)
+ */
+export function lnurlpUrl(address: string): string | undefined {
+  const match = /^([\w.+-]+)@([\w-]+(?:\.[\w-]+)+)$/.exec(address.trim())
+  if (!match) return undefined
+  return `https://${match[2]!.toLowerCase()}/.well-known/lnurlp/${match[1]!.toLowerCase()}`
+}
+
+/**
+ * The wallet payments for a boost: one per recipient, each carrying a
+ * boostagram (the listener's message and what they were listening to)
+ */
+export function boostPayments(
+  value: ValueBlock,
+  boost: Boost,
+  podcast: Pick<Podcast, 'title' | 'feedUrl' | 'podcast2'>,
+  episode?: Pick<Episode, 'title' | 'guid'>,
+): BoostPayment[] {
+  return splitPayment(value, boost.sats, boost.timestamp).map(({ recipient, sats }): BoostPayment => {
+    const name = recipient.name || recipient.address
+
+    if (recipient.type === 'lnaddress') {
+      return {
+        name,
+        method: 'lnaddress',
+        destination: recipient.address,
+        amount: sats,
+        lnurlp: lnurlpUrl(recipient.address),
+        comment: boost.message || undefined,
+      }
+    }
+
+    // undefined fields drop out of the JSON
+    const boostagram = {
+      action: 'boost',
+      app_name: boost.appName,
+      podcast: podcast.title,
+      guid: podcast.podcast2?.guid,
+      url: podcast.feedUrl,
+      episode: episode?.title,
+      episode_guid: episode?.guid,
+      ts: boost.timestamp !== undefined ? Math.floor(boost.timestamp) : undefined,
+      sender_name: boost.senderName || undefined,
+      message: boost.message || undefined,
+      name: recipient.name,
+      value_msat: sats * 1000,
+      value_msat_total: boost.sats * 1000,
+    }
+
+    const customRecords: Record<string, string> = { [BOOSTAGRAM_RECORD]: JSON.stringify(boostagram) }
+    if (recipient.customKey && recipient.customValue) {
+      customRecords[recipient.customKey] = recipient.customValue
+    }
+
+    return { name, method: 'keysend', destination: recipient.address, amount: sats, customRecords }
+  })
+}
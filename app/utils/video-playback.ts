@@ -0,0 +1,174 @@
+/**
+ * Playing video enclosures through a <video> element behind the same
+ * interface the audio player uses for Howler
+ */
+
+/**
+ * The part of the Howl API the audio player relies on. Howl implements it
+ * for audio; VideoPlayback for video and HLS.
+ */
+export interface MediaPlayback {
+  play(): unknown
+  pause(): unknown
+  stop(): unknown
+  unload(): unknown
+  seek(): number
+  seek(position: number): unknown
+  duration(): number
+  volume(level: number): unknown
+  rate(rate: number): unknown
+}
+
+/**
+ * Options for creating a playback, shared by Howl and VideoPlayback
+ */
+export interface PlaybackOptions {
+  src: string[]
+  /** Howler format per source; ignored for video */
+  format?: string[]
+  /** The source is an HLS playlist; ignored by Howl */
+  hls?: boolean
+  /** false: load nothing until played; 'metadata': fetch metadata now */
+  preload: boolean | 'metadata'
+  volume: number
+  rate: number
+  /** Duration is known and seeking works */
+  onload?: () => void
+  onplay?: () => void
+  onpause?: () => void
+  onend?: () => void
+  onerror?: (id: number, error: unknown) => void
+}
+
+/**
+ * Plays one source through a <video> element. The element is passed in
+ * rather than created so it can outlive the playback: the player reuses a
+ * single element, which the page and mini player move between them.
+ */
+export class VideoPlayback implements MediaPlayback {
+  private readonly element: HTMLVideoElement
+  private readonly options: PlaybackOptions
+  private readonly listeners: Array<[keyof HTMLMediaElementEventMap, () => void]>
+  private loaded = false
+  private unloaded = false
+  /** Set while an HLS playlist is attached through hls.js */
+  private hls: { destroy(): void } | null = null
+  /** Settles once the source is attached: false when it can't play here */
+  private attached: Promise<boolean> | null = null
+
+  constructor(element: HTMLVideoElement, options: PlaybackOptions) {
+    this.element = element
+    this.options = options
+    this.listeners = [
+      ['loadedmetadata', () => options.onload?.()],
+      ['play', () => options.onplay?.()],
+      // The element pauses itself at the end; report that as the end only
+      ['pause', () => { if (!element.ended) options.onpause?.() }],
+      ['ended', () => options.onend?.()],
+      ['error', () => options.onerror?.(0, element.error?.message || 'Video failed to load')],
+    ]
+    for (const [event, listener] of this.listeners) element.addEventListener(event, listener)
+
+    element.volume = options.volume
+    element.playbackRate = options.rate
+    element.defaultPlaybackRate = options.rate
+    if (options.preload) this.load('metadata')
+  }
+
+  /**
+   * Point the element at the source, once
+   */
+  private load(preload: 'metadata' | 'auto') {
+    if (this.loaded) return
+    this.loaded = true
+    this.element.preload = preload
+    const src = this.options.src[0] ?? ''
+    // Safari plays HLS itself; desktop Chrome and Firefox need hls.js
+    if (this.options.hls && !this.element.canPlayType('application/vnd.apple.mpegurl')) {
+      this.attached = this.attachHls(src)
+    } else {
+      this.element.src = src
+    }
+  }
+
+  /**
+   * Stream an HLS playlist into the element through hls.js (Media Source
+   * Extensions), loaded only when a playlist needs it. Resolves false when
+   * the browser can't play HLS at all, after reporting that as the error.
+   */
+  private async attachHls(src: string): Promise<boolean> {
+    const { default: Hls } = await import('hls.js')
+    if (this.unloaded) return false
+    if (!Hls.isSupported()) {
+      this.options.onerror?.(0, 'This browser can\'t play HLS streams')
+      return false
+    }
+
+    const hls = new Hls()
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) this.options.onerror?.(0, data.error)
+    })
+    hls.loadSource(src)
+    hls.attachMedia(this.element)
+    this.hls = hls
+    return true
+  }
+
+  play() {
+    this.load('auto')
+    const started = this.attached
+      ? this.attached.then(attached => (attached && !this.unloaded ? this.element.play() : undefined))
+      : this.element.play()
+    started?.catch((error: unknown) => {
+      // Interrupted by pause() or a new source — not a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      this.options.onerror?.(0, error)
+    })
+  }
+
+  pause() {
+    this.element.pause()
+  }
+
+  stop() {
+    this.element.pause()
+    if (this.loaded) this.element.currentTime = 0
+  }
+
+  /**
+   * Detach from the element and empty it, ready for the next playback
+   */
+  unload() {
+    this.unloaded = true
+    for (const [event, listener] of this.listeners) this.element.removeEventListener(event, listener)
+    this.hls?.destroy()
+    this.hls = null
+    if (this.loaded) {
+      this.element.removeAttribute('src')
+      this.element.load()
+    }
+  }
+
+  seek(): number
+  seek(position: number): this
+  seek(position?: number): number | this {
+    if (position === undefined) return this.element.currentTime
+    this.element.currentTime = position
+    return this
+  }
+
+  duration(): number {
+    const duration = this.element.duration
+    return Number.isFinite(duration) ? duration : 0
+  }
+
+  volume(level: number) {
+    this.element.volume = level
+    return this
+  }
+
+  rate(rate: number) {
+    this.element.playbackRate = rate
+    return this
+  }
+}
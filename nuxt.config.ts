@@ -33,6 +33,17 @@ export default defineNuxtConfig({
     },
   },
 
+  runtimeConfig: {
+    podcast: {
+      // Shared secret for POST /api/podcast/refresh (NUXT_PODCAST_REFRESH_SECRET).
+      // Refreshing is disabled while it's empty.
+      refreshSecret: '',
+      // Public URL of the deployed site (NUXT_PODCAST_SITE_URL). When set, the
+      // server subscribes to the feed's WebSub hub with a callback on this URL.
+      siteUrl: '',
+    },
+  },
+
   imports: {
     dirs: [
       // Auto-import utils from the layer's app/utils directory
@@ -40,5 +51,20 @@ export default defineNuxtConfig({
     ],
   },
 
+  hooks: {
+    // Network mode: serve every page under /shows/<id> as well.
+    // Pages read the show id from the route via useShow().
+    'pages:extend'(pages) {
+      const showPages = pages
+        .filter(page => !page.path.startsWith('/shows'))
+        .map(page => ({
+          ...page,
+          name: page.name ? `show-${page.name}` : undefined,
+          path: page.path === '/' ? '/shows/:show' : `/shows/:show${page.path}`,
+        }))
+      pages.push(...showPages)
+    },
+  },
+
   devtools: { enabled: true },
 })
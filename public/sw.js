@@ -0,0 +1,118 @@
+/**
+ * Offline service worker.
+ *
+ * - App shell: pages are network-first, falling back to the cached copy (or
+ *   the cached home page for pages never visited), so the site still opens offline.
+ * - Build assets under /_nuxt/ are content-hashed, so they're cache-first.
+ * - /api/podcast/* JSON and page payloads are network-first with a cache fallback,
+ *   except responses that are only useful live (search, validation, live status).
+ * - Caches are named after the build (the ?v= the worker is registered with),
+ *   so each deploy starts fresh and drops the previous build's chunks. Pages
+ *   and data are capped at a number of entries, oldest dropped first.
+ *
+ * Episode audio is not cached here — downloads are stored in IndexedDB by
+ * useDownloads() and played from object URLs.
+ */
+
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev'
+const SHELL_CACHE = `shell-${VERSION}`
+const ASSET_CACHE = `assets-${VERSION}`
+const DATA_CACHE = `data-${VERSION}`
+const CACHES = [SHELL_CACHE, ASSET_CACHE, DATA_CACHE]
+
+/** Most responses kept per network-first cache */
+const MAX_ENTRIES = {
+  [SHELL_CACHE]: 50,
+  [DATA_CACHE]: 100,
+}
+
+/** API responses never served from the cache */
+const UNCACHED_API = ['/api/podcast/search', '/api/podcast/validate', '/api/podcast/live']
+
+const scope = new URL(self.registration.scope)
+const shellUrl = scope.pathname
+const PRECACHE = [shellUrl, `${shellUrl}downloads`]
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      // Cache what we can; a failed page shouldn't block installation
+      .then(cache => Promise.allSettled(PRECACHE.map(url => cache.add(url))))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== scope.origin || !url.pathname.startsWith(shellUrl)) return
+
+  const path = url.pathname.slice(shellUrl.length - 1)
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, shellUrl))
+  } else if (path.startsWith('/_nuxt/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE))
+  } else if (UNCACHED_API.some(api => path.startsWith(api))) {
+    // Let the browser fetch it as usual
+  } else if (path.startsWith('/api/podcast/') || path.endsWith('/_payload.json')) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+  }
+})
+
+/**
+ * Serve from the cache, fetching (and caching) on a miss
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+/**
+ * Fetch from the network, caching successful responses; when offline,
+ * serve the cached response (or the fallback URL's)
+ */
+async function networkFirst(request, cacheName, fallbackUrl) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(cacheName)
+      await cache.put(request, response.clone())
+      await trimCache(cache, MAX_ENTRIES[cacheName])
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request) ?? (fallbackUrl && await caches.match(fallbackUrl))
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Drop the oldest entries beyond `max`, keeping the precached pages
+ */
+async function trimCache(cache, max) {
+  if (!max) return
+  const keys = (await cache.keys()).filter(key => !PRECACHE.includes(new URL(key.url).pathname))
+  const excess = keys.length - max
+  if (excess > 0) {
+    await Promise.all(keys.slice(0, excess).map(key => cache.delete(key)))
+  }
+}
@@ -0,0 +1,68 @@
+import type { Chapter } from '../../types/podcast'
+import { parseJsonChapters } from '../utils/chapters'
+
+/**
+ * GET /api/chapters?url=<chapters_url>
+ *
+ * Fetches a podcast:chapters JSON file, validates it, and returns a
+ * normalized, sorted list of chapters. Fetching server-side avoids CORS
+ * issues with chapter hosts and lets the result enter the SSG payload.
+ * Cached for 24 hours since chapters rarely change.
+ */
+export default defineCachedEventHandler(
+  async (event): Promise<Chapter[]> => {
+    const query = getQuery(event)
+    const url = query.url as string
+
+    if (!url) {
+      throw createError({
+        statusCode: 400,
+        message: 'Missing required query parameter: url',
+      })
+    }
+
+    // Validate URL format
+    try {
+      new URL(url)
+    } catch {
+      throw createError({
+        statusCode: 400,
+        message: 'Invalid chapters URL',
+      })
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'nuxt-podcast-theme/0.1.0',
+          'Accept': 'application/json+chapters, application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw createError({
+          statusCode: 502,
+          message: `Failed to fetch chapters: ${response.status} ${response.statusText}`,
+        })
+      }
+
+      return parseJsonChapters(await response.text())
+    } catch (error: any) {
+      // Re-throw H3 errors
+      if (error.statusCode) throw error
+
+      throw createError({
+        statusCode: 502,
+        message: `Failed to fetch chapters: ${error.message || 'Unknown error'}`,
+      })
+    }
+  },
+  {
+    maxAge: 60 * 60 * 24, // Cache for 24 hours
+    swr: true,
+    getKey: (event) => {
+      const query = getQuery(event)
+      return `chapters:${query.url}`
+    },
+  },
+)
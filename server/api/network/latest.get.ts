@@ -0,0 +1,26 @@
+import type { EpisodeSummary } from '../../../types/podcast'
+import { handleFeedError } from '../../utils/feed-url'
+import { getNetworkFeeds, toNetworkSummary } from '../../utils/network'
+
+/**
+ * GET /api/network/latest?limit=12
+ *
+ * Returns the most recent episodes across every show in the network,
+ * newest first, as lightweight summaries tagged with their showId.
+ */
+export default defineEventHandler(async (event): Promise<EpisodeSummary[]> => {
+  try {
+    const query = getQuery(event)
+    const limit = Math.max(1, Math.min(50, Number(query.limit) || 12))
+
+    const feeds = await getNetworkFeeds(event)
+
+    return feeds
+      .flatMap(({ show, feed }) => feed.episodes.map(episode => ({ episode, showId: show.id })))
+      .sort((a, b) => new Date(b.episode.pubDate).getTime() - new Date(a.episode.pubDate).getTime())
+      .slice(0, limit)
+      .map(({ episode, showId }) => toNetworkSummary(episode, showId))
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
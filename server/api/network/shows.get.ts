@@ -0,0 +1,26 @@
+import type { NetworkShow } from '../../../types/podcast'
+import { handleFeedError } from '../../utils/feed-url'
+import { getNetworkFeeds, toNetworkSummary } from '../../utils/network'
+
+/**
+ * GET /api/network/shows
+ *
+ * Returns every show configured in app.config.ts `podcast.shows` with its
+ * show metadata, episode count, and latest episode (as a summary).
+ * Powers the network landing page. Shows whose feeds fail to load
+ * are omitted.
+ */
+export default defineEventHandler(async (event): Promise<NetworkShow[]> => {
+  try {
+    const feeds = await getNetworkFeeds(event)
+
+    return feeds.map(({ show, feed }) => ({
+      id: show.id,
+      podcast: feed.podcast,
+      episodeCount: feed.episodes.length,
+      latestEpisode: feed.episodes[0] ? toNetworkSummary(feed.episodes[0], show.id) : null,
+    }))
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
@@ -0,0 +1,119 @@
+import { getCachedPodcastFeed } from '../utils/feed-cache'
+import { resolveFeedUrl, handleFeedError } from '../utils/feed-url'
+import { findEpisode } from '../utils/slug'
+import { parseEpisodePath, showPath } from '../../app/utils/routes'
+import { buildEmbedCode, buildEmbedUrl, fitEmbedSize } from '../../app/utils/embed'
+
+/**
+ * oEmbed "rich" response
+ * @see https://oembed.com/#section2.3
+ */
+interface OEmbedResponse {
+  version: '1.0'
+  type: 'rich'
+  title: string
+  author_name: string
+  provider_name: string
+  provider_url: string
+  thumbnail_url?: string
+  html: string
+  width: number
+  height: number
+}
+
+/**
+ * GET /api/oembed?url=<episode_url>&maxwidth=600&maxheight=200
+ *
+ * oEmbed provider for episode pages, so CMSes that support oEmbed
+ * discovery (WordPress, Ghost, Notion, ...) turn a pasted episode link
+ * into the embeddable player at /embed/<slug>. Accepts links to
+ * /episodes/<slug> and, in network mode, /shows/<id>/episodes/<slug>
+ * on this site. A ?t= start time on the link carries over to the embed.
+ * A maxwidth/maxheight smaller than the player can be gets a 501, as the
+ * spec asks, rather than a larger embed.
+ */
+export default defineEventHandler(async (event): Promise<OEmbedResponse> => {
+  try {
+    const query = getQuery(event)
+    const url = query.url as string
+
+    if (!url) {
+      throw createError({
+        statusCode: 400,
+        message: 'Missing required query parameter: url',
+      })
+    }
+
+    if (query.format && query.format !== 'json') {
+      throw createError({
+        statusCode: 501,
+        message: 'Only the json format is supported',
+      })
+    }
+
+    // Sizes are integers, per the spec
+    const size = fitEmbedSize(Number(query.maxwidth) || undefined, Number(query.maxheight) || undefined)
+    if (!size) {
+      throw createError({
+        statusCode: 501,
+        message: 'The player cannot fit within maxwidth/maxheight',
+      })
+    }
+
+    let target: URL
+    try {
+      target = new URL(url)
+    } catch {
+      throw createError({
+        statusCode: 400,
+        message: 'Invalid url',
+      })
+    }
+
+    // Only episodes on this site can be embedded
+    const origin = getRequestURL(event).origin
+    const episodeRef = target.host === new URL(origin).host ? parseEpisodePath(target.pathname) : null
+
+    if (!episodeRef) {
+      throw createError({
+        statusCode: 404,
+        message: 'URL is not an episode on this site',
+      })
+    }
+
+    const feedUrl = resolveFeedUrl(event, episodeRef.showId)
+    const feed = await getCachedPodcastFeed(feedUrl)
+    const episode = (await findEpisode(feedUrl, feed.episodes, episodeRef.slug))?.episode
+
+    if (!episode) {
+      throw createError({
+        statusCode: 404,
+        message: `No episode found with slug: ${episodeRef.slug}`,
+      })
+    }
+
+    const { width, height } = size
+
+    const src = buildEmbedUrl(origin, showPath(episodeRef.showId, `/embed/${episode.slug}`), {
+      start: Number(target.searchParams.get('t')) || undefined,
+    })
+
+    const appConfig = useAppConfig(event)
+    const siteTitle = (appConfig.podcast as { siteTitle?: string } | undefined)?.siteTitle
+
+    return {
+      version: '1.0',
+      type: 'rich',
+      title: episode.title,
+      author_name: feed.podcast.author || feed.podcast.title,
+      provider_name: siteTitle || feed.podcast.title,
+      provider_url: origin,
+      thumbnail_url: episode.artwork || feed.podcast.artwork || undefined,
+      html: buildEmbedCode(src, `${episode.title} - ${feed.podcast.title}`, { width, height }),
+      width,
+      height,
+    }
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
@@ -1,35 +1,18 @@
 import type { PodcastFeed } from '../../types/podcast'
 import { getCachedPodcastFeed } from '../utils/feed-cache'
+import { resolveFeedUrl } from '../utils/feed-url'
 
 /**
  * GET /api/podcast
  * 
  * Returns the parsed podcast feed from the configured RSS URL.
+ * In network mode, pass ?show=<id> to select a show.
  * Results are cached for 1 hour by default.
  */
 export default defineEventHandler(async (event): Promise<PodcastFeed> => {
   try {
-    // Get the feed URL from app config
-    const appConfig = useAppConfig(event)
-    const feedUrl = appConfig.podcast?.feedUrl
-    
-    // Validate feed URL is configured
-    if (!feedUrl) {
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Feed URL not configured',
-        message: 'podcast.feedUrl must be set in app.config.ts',
-      })
-    }
-    
-    // Validate feed URL format
-    if (!feedUrl.startsWith('http://') && !feedUrl.startsWith('https://')) {
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Invalid feed URL',
-        message: 'podcast.feedUrl must be a valid HTTP(S) URL',
-      })
-    }
+    // Resolve the feed URL (?show=<id> in network mode)
+    const feedUrl = resolveFeedUrl(event)
     
     // Fetch and parse the feed (with caching)
     try {
@@ -46,7 +29,7 @@ export default defineEventHandler(async (event): Promise<PodcastFeed> => {
           statusMessage: 'Feed unavailable',
           message: `Unable to fetch RSS feed: ${message}`,
         })
-      } else if (message.includes('Failed to parse RSS XML')) {
+      } else if (message.includes('Failed to parse')) {
         throw createError({
           statusCode: 502,
           statusMessage: 'Invalid feed format',
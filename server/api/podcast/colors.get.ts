@@ -1,26 +1,20 @@
 import type { ThemeColorsResponse } from '../../../types/theme'
 import { extractArtworkColors } from '../../utils/color-extractor'
 import { generateThemePalette } from '../../utils/palette-generator'
+import { resolveFeedUrl, resolveShowId } from '../../utils/feed-url'
 
 /**
  * GET /api/podcast/colors
  *
  * Extracts colors from the podcast artwork and returns an accessible
- * theme palette for both light and dark modes. Results are cached
- * alongside the feed data (same TTL).
+ * theme palette for both light and dark modes. In network mode, pass
+ * ?show=<id> for a show's palette. Results are cached alongside the
+ * feed data (same TTL).
  */
 export default defineCachedEventHandler(
   async (event): Promise<ThemeColorsResponse> => {
     // Get the feed URL and artwork from the podcast data
-    const appConfig = useAppConfig(event)
-    const feedUrl = appConfig.podcast?.feedUrl
-
-    if (!feedUrl) {
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Feed URL not configured',
-      })
-    }
+    const feedUrl = resolveFeedUrl(event)
 
     // Fetch the podcast feed to get artwork URL
     const { getCachedPodcastFeed } = await import('../../utils/feed-cache')
@@ -60,6 +54,8 @@ export default defineCachedEventHandler(
     maxAge: 60 * 60, // Cache for 1 hour (same as feed)
     name: 'podcast-colors',
     getKey: (event) => {
+      const showId = resolveShowId(event)
+      if (showId) return `colors:show:${showId}`
       const appConfig = useAppConfig(event)
       return `colors:${appConfig.podcast?.feedUrl || 'default'}`
     },
@@ -1,37 +1,53 @@
 import type { PaginatedEpisodes, EpisodeSummary } from '../../../types/podcast'
 import { getCachedPodcastFeed } from '../../utils/feed-cache'
-import { resolveFeedUrl, handleFeedError } from '../../utils/feed-url'
+import { resolveFeedUrl, resolveShowId, handleFeedError } from '../../utils/feed-url'
+import { getSeasonEpisodes } from '../../utils/seasons'
 
 /**
- * GET /api/podcast/episodes?page=1&limit=12
+ * GET /api/podcast/episodes?page=1&limit=12&season=2
  *
  * Returns a paginated slice of episodes WITHOUT htmlContent.
  * This keeps SSG payloads small — only the current page's data
  * gets serialized into the HTML file.
+ *
+ * Pass ?season=<n> to list a single season. Seasons of serial shows
+ * are returned oldest-first so they read in listening order.
+ *
+ * In network mode, pass ?show=<id>; episodes are tagged with their showId.
  */
 export default defineEventHandler(async (event): Promise<PaginatedEpisodes> => {
   try {
     const feedUrl = resolveFeedUrl(event)
+    const showId = resolveShowId(event)
     const query = getQuery(event)
 
     const page = Math.max(1, Number(query.page) || 1)
     const limit = Math.max(1, Math.min(100, Number(query.limit) || 12))
 
+    const season = query.season !== undefined && query.season !== '' ? Number(query.season) : undefined
+    if (season !== undefined && !Number.isInteger(season)) {
+      throw createError({ statusCode: 400, statusMessage: 'Invalid season' })
+    }
+
     const feed = await getCachedPodcastFeed(feedUrl)
-    const total = feed.episodes.length
+    const source = season === undefined
+      ? feed.episodes
+      : getSeasonEpisodes(feed.episodes, season, feed.podcast.type)
+    const total = source.length
     const totalPages = Math.ceil(total / limit)
     const start = (page - 1) * limit
 
     // Strip heavy fields to create lightweight summaries
-    const episodes: EpisodeSummary[] = feed.episodes
+    const episodes: EpisodeSummary[] = source
       .slice(start, start + limit)
-      .map(({ htmlContent, podcast2, keywords, link, audioLength, audioType, explicit: _explicit, ...summary }) => summary)
+      .map(({ htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary }) => ({ ...summary, showId }))
 
     return {
       episodes,
       total,
       page,
       totalPages,
+      ...(season !== undefined && { season }),
     }
   } catch (error) {
     handleFeedError(error)
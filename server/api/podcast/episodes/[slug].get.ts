@@ -1,6 +1,7 @@
 import type { Episode } from '../../../../types/podcast'
 import { getCachedPodcastFeed } from '../../../utils/feed-cache'
-import { resolveFeedUrl, handleFeedError } from '../../../utils/feed-url'
+import { resolveFeedUrl, resolveShowId, handleFeedError } from '../../../utils/feed-url'
+import { findEpisode } from '../../../utils/slug'
 
 /**
  * GET /api/podcast/episodes/:slug
@@ -8,11 +9,17 @@ import { resolveFeedUrl, handleFeedError } from '../../../utils/feed-url'
  * Returns a single full episode by slug, including htmlContent
  * and all metadata. Used by the episode detail page so only
  * one episode's data enters the SSG payload.
+ *
+ * Also finds episodes by a slug they used to have (before a title edit)
+ * or by GUID (URL-encoded), as /episodes/by-guid/<guid> does. The episode
+ * always carries its current slug, so the page can redirect to it.
+ *
+ * In network mode, pass ?show=<id>; the episode is tagged with its showId.
  */
 export default defineEventHandler(async (event): Promise<Episode> => {
   try {
     const feedUrl = resolveFeedUrl(event)
-    const slug = getRouterParam(event, 'slug')
+    const slug = getRouterParam(event, 'slug', { decode: true })
 
     if (!slug) {
       throw createError({
@@ -23,9 +30,9 @@ export default defineEventHandler(async (event): Promise<Episode> => {
     }
 
     const feed = await getCachedPodcastFeed(feedUrl)
-    const episode = feed.episodes.find(ep => ep.slug === slug)
+    const found = await findEpisode(feedUrl, feed.episodes, slug)
 
-    if (!episode) {
+    if (!found) {
       throw createError({
         statusCode: 404,
         statusMessage: 'Episode not found',
@@ -33,7 +40,7 @@ export default defineEventHandler(async (event): Promise<Episode> => {
       })
     }
 
-    return episode
+    return { ...found.episode, showId: resolveShowId(event) }
   } catch (error) {
     handleFeedError(error)
   }
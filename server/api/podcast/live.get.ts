@@ -0,0 +1,23 @@
+import type { LiveItem } from '../../../types/podcast'
+import { getCachedPodcastFeed } from '../../utils/feed-cache'
+import { resolveFeedUrl, resolveShowId, handleFeedError } from '../../utils/feed-url'
+import { currentLiveItems } from '../../utils/live'
+
+/**
+ * GET /api/podcast/live
+ *
+ * Returns the feed's live streams (podcast:liveItem): streaming now,
+ * then upcoming, soonest first. Ended streams are included only once
+ * their recording has been published, with the episode attached.
+ *
+ * In network mode, pass ?show=<id>.
+ */
+export default defineEventHandler(async (event): Promise<LiveItem[]> => {
+  try {
+    const feedUrl = resolveFeedUrl(event)
+    const feed = await getCachedPodcastFeed(feedUrl)
+    return currentLiveItems(feed, resolveShowId(event))
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
@@ -1,5 +1,5 @@
 import type { Podcast } from '../../../types/podcast'
-import { getCachedPodcastFeed } from '../../utils/feed-cache'
+import { getCachedPodcastFeed, getFeedCacheStatus } from '../../utils/feed-cache'
 import { resolveFeedUrl, handleFeedError } from '../../utils/feed-url'
 
 /**
@@ -7,11 +7,17 @@ import { resolveFeedUrl, handleFeedError } from '../../utils/feed-url'
  *
  * Returns only the show-level podcast metadata (no episodes).
  * Lightweight endpoint for pages that only need show info.
+ * Includes `stale` when the upstream feed is failing and the last good
+ * copy is being served, so the UI can say so.
  */
 export default defineEventHandler(async (event): Promise<Podcast> => {
   try {
     const feedUrl = resolveFeedUrl(event)
     const feed = await getCachedPodcastFeed(feedUrl)
+    const status = getFeedCacheStatus(feedUrl)
+    if (status?.stale) {
+      return { ...feed.podcast, stale: { since: new Date(status.checkedAt).toISOString() } }
+    }
     return feed.podcast
   } catch (error) {
     handleFeedError(error)
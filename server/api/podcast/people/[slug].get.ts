@@ -1,6 +1,6 @@
 import type { Person, EpisodeSummary, PersonDetail, Episode } from '../../../../types/podcast'
 import { getCachedPodcastFeed } from '../../../utils/feed-cache'
-import { resolveFeedUrl, handleFeedError } from '../../../utils/feed-url'
+import { resolveFeedUrl, resolveShowId, handleFeedError } from '../../../utils/feed-url'
 
 /**
  * Generate a URL-safe slug from a person's name
@@ -18,7 +18,7 @@ function personSlug(name: string): string {
  * Strip heavy fields from an episode to produce an EpisodeSummary.
  */
 function toSummary(ep: Episode): EpisodeSummary {
-  const { htmlContent, podcast2, keywords, link, audioLength, audioType, explicit: _explicit, ...summary } = ep
+  const { htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary } = ep
   return summary as EpisodeSummary
 }
 
@@ -93,7 +93,7 @@ export default defineEventHandler(async (event): Promise<PersonDetail> => {
     // Collect episode summaries for this person
     const episodes = feed.episodes
       .filter(ep => episodeSlugsSet.has(ep.slug))
-      .map(toSummary)
+      .map(ep => ({ ...toSummary(ep), showId: resolveShowId(event) }))
 
     return { person, episodes }
   } catch (error) {
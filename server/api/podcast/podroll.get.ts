@@ -0,0 +1,32 @@
+import type { PodrollShow } from '../../../types/podcast'
+import { getCachedPodcastFeed } from '../../utils/feed-cache'
+import { getShows, resolveFeedUrl, resolveShowId, handleFeedError } from '../../utils/feed-url'
+import { resolvePodroll } from '../../utils/podroll'
+
+/**
+ * GET /api/podcast/podroll
+ *
+ * Returns the shows the feed recommends (podcast:podroll), with each
+ * show's title and artwork from its own feed. Feeds that fail to load or
+ * time out come back as a link to the feed with `unavailable: true`.
+ * Recommended shows from the same network link to their pages here.
+ *
+ * Cached for an hour (the feed's TTL), since resolving it loads every
+ * recommended feed. In network mode, pass ?show=<id>.
+ */
+export default defineCachedEventHandler(
+  async (event): Promise<PodrollShow[]> => {
+    try {
+      const feedUrl = resolveFeedUrl(event)
+      const feed = await getCachedPodcastFeed(feedUrl)
+      return await resolvePodroll(feed.podcast.podcast2?.podroll ?? [], getShows(event))
+    } catch (error) {
+      handleFeedError(error)
+    }
+  },
+  {
+    maxAge: 60 * 60,
+    name: 'podcast-podroll',
+    getKey: (event) => `podroll:${resolveShowId(event) ?? 'default'}`,
+  },
+)
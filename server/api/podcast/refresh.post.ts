@@ -1,45 +1,37 @@
-import type { PodcastFeed } from '../../../types/podcast'
-import { clearFeedCache, getCachedPodcastFeed } from '../../utils/feed-cache'
+import type { RefreshResult } from '../../../types/podcast'
+import { assertRefreshAuthorized, refreshFeed } from '../../utils/feed-refresh'
+import { resolveFeedUrl } from '../../utils/feed-url'
 
 /**
  * POST /api/podcast/refresh
  * 
- * Clears the cached podcast feed and fetches fresh data.
+ * Revalidates the cached podcast feed now instead of waiting for its TTL.
  * Useful for webhooks/cron jobs when the RSS feed is updated.
+ * The fetch is conditional (ETag/Last-Modified), so refreshing an
+ * unchanged feed doesn't download or re-parse it.
+ * In network mode, pass ?show=<id> to refresh a single show.
  * 
- * Returns the fresh podcast feed data.
+ * Requires the runtime config refresh secret (NUXT_PODCAST_REFRESH_SECRET),
+ * sent as `Authorization: Bearer <secret>` or as an HMAC-SHA256 of the body
+ * in `X-Hub-Signature-256: sha256=<hex>`.
+ * 
+ * Also updates the search index's transcripts: only episodes with a new
+ * or changed transcript URL are fetched and re-indexed.
+ * 
+ * Returns episode counts and the GUIDs the refresh added, changed, or removed.
  */
-export default defineEventHandler(async (event): Promise<PodcastFeed> => {
+export default defineEventHandler(async (event): Promise<RefreshResult> => {
   try {
-    // Get the feed URL from app config
-    const appConfig = useAppConfig(event)
-    const feedUrl = appConfig.podcast?.feedUrl
-    
-    // Validate feed URL is configured
-    if (!feedUrl) {
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Feed URL not configured',
-        message: 'podcast.feedUrl must be set in app.config.ts',
-      })
-    }
+    // Check the secret before touching the feed
+    const body = await readRawBody(event)
+    assertRefreshAuthorized(event, body)
     
-    // Clear the cache for this feed
-    try {
-      await clearFeedCache(feedUrl)
-    } catch (error) {
-      console.warn('Failed to clear feed cache:', error)
-      // Continue anyway - we'll still fetch fresh data
-    }
+    // Resolve the feed URL (?show=<id> refreshes one show in network mode)
+    const feedUrl = resolveFeedUrl(event)
     
-    // Fetch fresh data
+    // Revalidate the feed
     try {
-      const feed = await getCachedPodcastFeed(feedUrl)
-      
-      // Log successful refresh
-      console.log(`Podcast feed refreshed successfully: ${feed.podcast.title} (${feed.episodes.length} episodes)`)
-      
-      return feed
+      return await refreshFeed(feedUrl)
     } catch (error) {
       // Handle feed fetch/parse errors
       const message = error instanceof Error ? error.message : 'Unknown error'
@@ -51,7 +43,7 @@ export default defineEventHandler(async (event): Promise<PodcastFeed> => {
           statusMessage: 'Feed unavailable',
           message: `Unable to fetch RSS feed: ${message}`,
         })
-      } else if (message.includes('Failed to parse RSS XML')) {
+      } else if (message.includes('Failed to parse')) {
         throw createError({
           statusCode: 502,
           statusMessage: 'Invalid feed format',
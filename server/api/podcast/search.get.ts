@@ -0,0 +1,39 @@
+import type { SearchResponse } from '../../../types/podcast'
+import { getCachedPodcastFeed } from '../../utils/feed-cache'
+import { resolveFeedUrl, handleFeedError } from '../../utils/feed-url'
+import { getSearchIndex, searchEpisodes } from '../../utils/search-index'
+import { getTranscriptCues } from '../../utils/transcript-index'
+
+/**
+ * GET /api/podcast/search?q=css+grid&page=1&limit=20
+ *
+ * Ranked full-text search over titles, descriptions, keywords, person
+ * names, show notes, and transcripts. Supports prefix matching ("java" finds
+ * "javascript") and typo tolerance, boosts title matches, and returns
+ * HTML-escaped snippets with matched terms wrapped in <mark>. Results that
+ * match inside a transcript include the best cue's start time.
+ *
+ * The inverted index is built once per cached feed (and rebuilt when a
+ * transcript is indexed), so only the current page of results is sent to
+ * the browser.
+ */
+export default defineEventHandler(async (event): Promise<SearchResponse> => {
+  try {
+    const feedUrl = resolveFeedUrl(event)
+    const query = getQuery(event)
+
+    const q = String(query.q || '').trim().slice(0, 200)
+    const page = Math.max(1, Number(query.page) || 1)
+    const limit = Math.max(1, Math.min(50, Number(query.limit) || 20))
+
+    if (!q) {
+      return { query: q, results: [], total: 0, page, totalPages: 0 }
+    }
+
+    const feed = await getCachedPodcastFeed(feedUrl)
+    const transcripts = await getTranscriptCues(feedUrl, feed)
+    return searchEpisodes(getSearchIndex(feed, transcripts), q, { page, limit })
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
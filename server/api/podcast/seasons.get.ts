@@ -0,0 +1,35 @@
+import type { SeasonsResponse } from '../../../types/podcast'
+import { getCachedPodcastFeed } from '../../utils/feed-cache'
+import { resolveFeedUrl, resolveShowId, handleFeedError } from '../../utils/feed-url'
+import { findStartEpisode, summarizeSeasons } from '../../utils/seasons'
+
+/**
+ * GET /api/podcast/seasons
+ *
+ * Returns every numbered season with its episode count and date range,
+ * lowest season first. For serial shows, also returns the episode a
+ * new listener should start with (first full episode of season 1).
+ *
+ * In network mode, pass ?show=<id>.
+ */
+export default defineEventHandler(async (event): Promise<SeasonsResponse> => {
+  try {
+    const feedUrl = resolveFeedUrl(event)
+    const showId = resolveShowId(event)
+    const feed = await getCachedPodcastFeed(feedUrl)
+
+    const start = findStartEpisode(feed.episodes, feed.podcast.type)
+    let startEpisode: SeasonsResponse['startEpisode']
+    if (start) {
+      const { htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary } = start
+      startEpisode = { ...summary, showId }
+    }
+
+    return {
+      seasons: summarizeSeasons(feed.episodes),
+      startEpisode,
+    }
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
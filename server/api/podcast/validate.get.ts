@@ -0,0 +1,41 @@
+import type { FeedValidationReport } from '../../../types/podcast'
+import { assertRefreshAuthorized } from '../../utils/feed-refresh'
+import { resolveFeedUrl, handleFeedError } from '../../utils/feed-url'
+import { validateFeed } from '../../utils/feed-validation'
+
+/**
+ * Reports per feed, cached for a minute, since each run re-downloads the
+ * feed and requests every artwork URL
+ */
+const cachedValidateFeed = defineCachedFunction(
+  (feedUrl: string) => validateFeed(feedUrl),
+  {
+    name: 'feed-validation',
+    maxAge: 60,
+    getKey: (feedUrl: string) => feedUrl,
+  },
+)
+
+/**
+ * GET /api/podcast/validate
+ *
+ * Fetches the feed fresh and checks it for data that renders badly or
+ * breaks pages: items skipped for missing enclosures, duplicate GUIDs and
+ * slugs, zero durations, unreachable artwork, a missing podcast:guid,
+ * invalid transcript/chapter URLs, and show-note links the parser rewrote.
+ * Each finding has a severity and, when it applies to one, the episode.
+ *
+ * Requires the refresh secret as `Authorization: Bearer <secret>`, like
+ * POST /api/podcast/refresh: a run is expensive, so it isn't open to anyone.
+ * In network mode, pass ?show=<id>. Used by the hidden /_feed-health page.
+ */
+export default defineEventHandler(async (event): Promise<FeedValidationReport> => {
+  // Check the secret before touching the feed
+  assertRefreshAuthorized(event, undefined)
+
+  try {
+    return await cachedValidateFeed(resolveFeedUrl(event))
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
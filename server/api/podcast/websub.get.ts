@@ -0,0 +1,33 @@
+import { resolveFeedUrl } from '../../utils/feed-url'
+import { handleDenial, verifyIntent } from '../../utils/websub'
+
+/**
+ * GET /api/podcast/websub
+ * 
+ * WebSub callback: the hub verifies a subscription request here by sending
+ * hub.mode, hub.topic, and hub.challenge. The challenge is echoed back for
+ * subscriptions this server asked for; anything else gets a 404.
+ * The callback carries a ?token= only the hub knows, which verification
+ * requests and denials must include. In network mode it also carries ?show=<id>.
+ */
+export default defineEventHandler(async (event) => {
+  const feedUrl = resolveFeedUrl(event)
+  const query = getQuery(event)
+  
+  if (query['hub.mode'] === 'denied') {
+    await handleDenial(feedUrl, query)
+    return ''
+  }
+  
+  const challenge = await verifyIntent(feedUrl, query)
+  if (challenge === null) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Unknown subscription',
+      message: 'No pending subscription matches this verification request',
+    })
+  }
+  
+  setHeader(event, 'Content-Type', 'text/plain')
+  return challenge
+})
@@ -0,0 +1,29 @@
+import { refreshFeed } from '../../utils/feed-refresh'
+import { resolveFeedUrl } from '../../utils/feed-url'
+import { verifyContent } from '../../utils/websub'
+
+/**
+ * POST /api/podcast/websub
+ * 
+ * WebSub callback: the hub pushes the updated feed here. Pushes signed with
+ * the subscription's secret (X-Hub-Signature) trigger a refresh, which
+ * revalidates the feed and indexes new transcripts in the background.
+ * 
+ * Always answers 202: per the spec, pushes with a bad signature are
+ * acknowledged but ignored, so the hub can't tell them apart.
+ */
+export default defineEventHandler(async (event) => {
+  const feedUrl = resolveFeedUrl(event)
+  const body = await readRawBody(event, false)
+  
+  if (await verifyContent(feedUrl, body ?? '', getHeader(event, 'x-hub-signature'))) {
+    event.waitUntil(refreshFeed(feedUrl).catch((error) => {
+      console.warn(`Refresh after WebSub push failed for ${feedUrl}:`, error)
+    }))
+  } else {
+    console.warn(`Ignoring WebSub push with an invalid signature for ${feedUrl}`)
+  }
+  
+  setResponseStatus(event, 202)
+  return ''
+})
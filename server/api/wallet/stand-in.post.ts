@@ -0,0 +1,33 @@
+import type { BoostResult } from '../../../types/podcast'
+import { settleStandInPayments } from '../../utils/stand-in-wallet'
+
+/**
+ * POST /api/wallet/stand-in
+ *
+ * A pretend wallet service for trying boosts offline: set app.config
+ * `podcast.boost.walletEndpoint` to '/api/wallet/stand-in' and boosts are
+ * checked and "paid" here, with each payment logged. Takes
+ * `{ payments: BoostPayment[] }` like a real wallet endpoint would.
+ *
+ * Only available in development (nuxi dev).
+ */
+export default defineEventHandler(async (event): Promise<{ payments: BoostResult[] }> => {
+  if (!import.meta.dev) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const body = await readBody(event)
+  if (!Array.isArray(body?.payments)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: 'Bad Request',
+      message: 'Expected { payments: [...] }',
+    })
+  }
+
+  const payments = settleStandInPayments(body.payments)
+  for (const result of payments) {
+    console.info(`[stand-in wallet] ${result.ok ? 'paid' : 'rejected'} ${result.amount} sats to ${result.destination}${result.error ? `: ${result.error}` : ''}`)
+  }
+  return { payments }
+})
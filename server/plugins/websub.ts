@@ -0,0 +1,13 @@
+import { startWebSub } from '../utils/websub'
+
+/**
+ * Subscribe to the feed's WebSub hub at startup, so episodes appear as soon
+ * as the host publishes them instead of after the cache TTL.
+ * Needs a public callback URL (NUXT_PODCAST_SITE_URL); skipped when prerendering.
+ */
+export default defineNitroPlugin(() => {
+  if (import.meta.prerender) return
+
+  const { siteUrl } = useRuntimeConfig().podcast
+  startWebSub(siteUrl)
+})
@@ -0,0 +1,25 @@
+import { getCachedPodcastFeed } from '../utils/feed-cache'
+import { resolveFeedUrl, handleFeedError } from '../utils/feed-url'
+import { serializePodcastFeed } from '../utils/feed-serializer'
+
+/**
+ * GET /feed.xml
+ *
+ * Re-publishes the podcast feed as RSS 2.0 with the itunes and podcast
+ * namespaces, including any episode overrides configured in app.config.ts.
+ * Point podcast apps here to get the corrected, enriched feed. In network
+ * mode each show's feed is at /shows/<id>/feed.xml (or /feed.xml?show=<id>).
+ */
+export default defineEventHandler(async (event) => {
+  try {
+    const feedUrl = resolveFeedUrl(event)
+    const feed = await getCachedPodcastFeed(feedUrl)
+    const selfUrl = getRequestURL(event).href
+
+    setResponseHeader(event, 'Content-Type', 'application/rss+xml; charset=utf-8')
+    setResponseHeader(event, 'Cache-Control', 'public, max-age=900')
+    return serializePodcastFeed(feed, selfUrl)
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
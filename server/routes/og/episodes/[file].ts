@@ -0,0 +1,51 @@
+import { ogCardShowsTitle } from '../../../../app/utils/structured-data'
+import { getCachedPodcastFeed } from '../../../utils/feed-cache'
+import { resolveFeedUrl, handleFeedError } from '../../../utils/feed-url'
+import { getEpisodeOgImage } from '../../../utils/og-image'
+import { findEpisode } from '../../../utils/slug'
+
+/**
+ * GET /og/episodes/<slug>.png
+ *
+ * 1200×630 Open Graph image for an episode: artwork, title, episode
+ * number, show name, and duration, tinted with the artwork palette.
+ * Rendered in pure JS and cached by episode GUID. Redirects to the artwork
+ * when the title is in a script the card's font can't draw. In network
+ * mode, use /shows/<id>/og/episodes/<slug>.png (or ?show=<id>).
+ */
+export default defineEventHandler(async (event) => {
+  try {
+    const file = getRouterParam(event, 'file') || ''
+    const slug = file.endsWith('.png') ? decodeURIComponent(file.slice(0, -4)) : ''
+
+    if (!slug) {
+      throw createError({
+        statusCode: 404,
+        message: 'Not found',
+      })
+    }
+
+    const feedUrl = resolveFeedUrl(event)
+    const feed = await getCachedPodcastFeed(feedUrl)
+    const episode = (await findEpisode(feedUrl, feed.episodes, slug))?.episode
+
+    if (!episode) {
+      throw createError({
+        statusCode: 404,
+        message: `No episode found with slug: ${slug}`,
+      })
+    }
+
+    if (!ogCardShowsTitle(episode.title)) {
+      return sendRedirect(event, episode.artwork || feed.podcast.artwork, 302)
+    }
+
+    const png = await getEpisodeOgImage(episode, feed.podcast)
+
+    setResponseHeader(event, 'Content-Type', 'image/png')
+    setResponseHeader(event, 'Cache-Control', 'public, max-age=86400')
+    return png
+  } catch (error) {
+    handleFeedError(error)
+  }
+})
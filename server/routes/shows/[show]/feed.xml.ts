@@ -0,0 +1,7 @@
+/**
+ * GET /shows/<id>/feed.xml
+ *
+ * Network mode: one show's re-published feed. The :show route parameter
+ * selects the show, as with ?show=<id> on /feed.xml.
+ */
+export { default } from '../../feed.xml'
@@ -0,0 +1,7 @@
+/**
+ * GET /shows/<id>/og/episodes/<slug>.png
+ *
+ * Network mode: an episode's Open Graph image. The :show route parameter
+ * selects the show, as with ?show=<id> on /og/episodes/<slug>.png.
+ */
+export { default } from '../../../../og/episodes/[file]'
@@ -0,0 +1,64 @@
+import type { Chapter } from '../../types/podcast'
+
+/**
+ * Parse and validate a Podcasting 2.0 JSON Chapters document.
+ *
+ * - Requires a top-level `chapters` array
+ * - Drops entries without a numeric `startTime` or with `toc: false`
+ *   (those are meant to be silent, e.g. artwork-only changes)
+ * - Sorts by start time and fills in missing `endTime` values from the
+ *   next chapter's start
+ *
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonchapters.md
+ */
+export function parseJsonChapters(data: unknown): Chapter[] {
+  let doc = data
+  if (typeof doc === 'string') {
+    try {
+      doc = JSON.parse(doc)
+    } catch {
+      throw new Error('Invalid chapters file: not valid JSON')
+    }
+  }
+
+  const raw = (doc as any)?.chapters
+  if (!Array.isArray(raw)) {
+    throw new Error('Invalid chapters file: missing chapters array')
+  }
+
+  const chapters: Chapter[] = []
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue
+    if (entry.toc === false) continue
+
+    const startTime = Number(entry.startTime)
+    if (!Number.isFinite(startTime) || startTime < 0) continue
+
+    const chapter: Chapter = {
+      startTime,
+      title: typeof entry.title === 'string' ? entry.title.trim() : '',
+    }
+
+    const endTime = Number(entry.endTime)
+    if (entry.endTime !== undefined && Number.isFinite(endTime) && endTime > startTime) {
+      chapter.endTime = endTime
+    }
+    if (typeof entry.img === 'string' && entry.img) chapter.img = entry.img
+    if (typeof entry.url === 'string' && entry.url) chapter.url = entry.url
+
+    chapters.push(chapter)
+  }
+
+  chapters.sort((a, b) => a.startTime - b.startTime)
+
+  // Fill in missing end times from the next chapter's start
+  for (let i = 0; i < chapters.length - 1; i++) {
+    const chapter = chapters[i]!
+    if (chapter.endTime === undefined) {
+      chapter.endTime = chapters[i + 1]!.startTime
+    }
+  }
+
+  return chapters
+}
@@ -3,15 +3,26 @@ import { getPixels } from '@unpic/pixels'
 import type { ExtractedColor } from '../../types/theme'
 
 /**
- * Fetch artwork image and extract dominant colors server-side.
+ * Decoded RGBA pixels of an artwork image
+ */
+export interface ArtworkPixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+/**
+ * Fetch an artwork image and decode it to raw RGBA pixels.
  *
  * @unpic/pixels decodes JPEG/PNG to raw RGBA pixels using pure JS
  * (jpeg-js + pngjs), so it works on Node.js, Cloudflare Workers,
  * and any edge runtime without native binaries.
+ *
+ * Returns null if the image can't be fetched or decoded.
  */
-export async function extractArtworkColors(artworkUrl: string): Promise<ExtractedColor[]> {
+export async function fetchArtworkPixels(artworkUrl: string): Promise<ArtworkPixels | null> {
   if (!artworkUrl) {
-    return []
+    return null
   }
 
   try {
@@ -21,8 +32,8 @@ export async function extractArtworkColors(artworkUrl: string): Promise<Extracte
     })
 
     if (!response.ok) {
-      console.warn(`Failed to fetch artwork for color extraction: ${response.status}`)
-      return []
+      console.warn(`Failed to fetch artwork: ${response.status}`)
+      return null
     }
 
     const arrayBuffer = await response.arrayBuffer()
@@ -30,12 +41,26 @@ export async function extractArtworkColors(artworkUrl: string): Promise<Extracte
     // Decode JPEG/PNG to raw RGBA pixels — pure JS, no native deps
     const imageData = await getPixels(new Uint8Array(arrayBuffer))
 
-    const pixels = new Uint8ClampedArray(imageData.data)
-    const width = imageData.width
-    const height = imageData.height
+    return {
+      data: new Uint8ClampedArray(imageData.data),
+      width: imageData.width,
+      height: imageData.height,
+    }
+  } catch (error) {
+    console.error('Artwork decoding failed:', error)
+    return null
+  }
+}
+
+/**
+ * Extract dominant colors from decoded artwork pixels
+ */
+export async function extractPixelColors(pixels: ArtworkPixels): Promise<ExtractedColor[]> {
+  try {
+    const { data, width, height } = pixels
 
     // Extract colors from raw pixel data
-    const colors = await extractColors({ data: pixels, width, height }, {
+    const colors = await extractColors({ data, width, height }, {
       pixels: width * height,
       distance: 0.15,
       saturationDistance: 0.2,
@@ -57,3 +82,11 @@ export async function extractArtworkColors(artworkUrl: string): Promise<Extracte
     return []
   }
 }
+
+/**
+ * Fetch artwork image and extract dominant colors server-side.
+ */
+export async function extractArtworkColors(artworkUrl: string): Promise<ExtractedColor[]> {
+  const pixels = await fetchArtworkPixels(artworkUrl)
+  return pixels ? extractPixelColors(pixels) : []
+}
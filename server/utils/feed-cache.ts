@@ -1,5 +1,10 @@
 import type { PodcastFeed } from '../../types/podcast'
-import { parsePodcastFeed } from './feed-parser'
+import { fetchFeedXml, followFeedPages, parseFeedPage } from './feed-parser'
+import type { FeedPage, FeedValidators } from './feed-parser'
+import { diffEpisodes, hasChanges } from './feed-diff'
+import type { FeedChanges } from './feed-diff'
+import { applyFeedOverrides, getFeedOverrides } from './feed-overrides'
+import { assignUniqueSlugs, recordSlugs } from './slug'
 
 /**
  * Cache TTL in seconds (default: 1 hour)
@@ -7,9 +12,64 @@ import { parsePodcastFeed } from './feed-parser'
 const CACHE_TTL = 60 * 60 // 3600 seconds
 
 /**
- * Storage key for the podcast feed cache
+ * Retry delays after a failed revalidation, in milliseconds.
+ * The first retry waits RETRY_BASE_DELAY, doubling up to RETRY_MAX_DELAY.
+ */
+const RETRY_BASE_DELAY = 30 * 1000
+const RETRY_MAX_DELAY = 15 * 60 * 1000
+
+/**
+ * Pages after the first of a paged feed are re-downloaded at most this
+ * often, in seconds (default: 1 day). Older pages rarely change, so
+ * revalidating a feed normally only downloads its first page.
+ */
+const PAGE_TTL = 24 * 60 * 60
+
+/**
+ * Storage key prefixes for parsed feeds, their cache metadata, and the
+ * further pages of paged feeds
  */
 const CACHE_KEY_PREFIX = 'podcast:feed:'
+const META_KEY_PREFIX = 'podcast:feed:meta:'
+const PAGE_KEY_PREFIX = 'podcast:feed:page:'
+
+/**
+ * Validators and bookkeeping stored next to a cached feed. Kept apart from
+ * the (large) parsed feed so a 304 only rewrites this small record.
+ */
+interface FeedCacheMeta extends FeedValidators {
+  /** When the feed was last downloaded and parsed (ms) */
+  fetchedAt: number
+  /** When the feed was last confirmed current, by a 200 or a 304 (ms) */
+  checkedAt: number
+  /** Episode GUIDs added, changed, or removed by the last revalidation (none after a 304) */
+  changes: FeedChanges
+}
+
+interface CachedFeed {
+  feed: PodcastFeed
+  meta: FeedCacheMeta
+}
+
+/**
+ * A further page of a paged feed, cached on its own
+ */
+interface CachedPage extends FeedValidators {
+  page: FeedPage
+  /** When the page was last downloaded or confirmed current (ms) */
+  fetchedAt: number
+}
+
+/**
+ * Cache status of a feed, as reported by getFeedCacheStatus
+ */
+export interface FeedCacheStatus extends Pick<FeedCacheMeta, 'fetchedAt' | 'checkedAt' | 'changes'> {
+  /** The latest revalidation failed; the last good copy is being served */
+  stale: boolean
+  /** Consecutive failed revalidations */
+  failures?: number
+  lastError?: string
+}
 
 /**
  * Generate cache key from feed URL
@@ -20,41 +80,329 @@ function getCacheKey(feedUrl: string): string {
   return `${CACHE_KEY_PREFIX}${encoded}`
 }
 
+function getMetaKey(feedUrl: string): string {
+  return `${META_KEY_PREFIX}${Buffer.from(feedUrl).toString('base64')}`
+}
+
+/**
+ * Key prefix for all further pages of a feed
+ */
+function getPagePrefix(feedUrl: string): string {
+  return `${PAGE_KEY_PREFIX}${Buffer.from(feedUrl).toString('base64')}:`
+}
+
+function getPageKey(feedUrl: string, pageUrl: string): string {
+  return `${getPagePrefix(feedUrl)}${Buffer.from(pageUrl).toString('base64')}`
+}
+
+/**
+ * Parsed feeds loaded in this process, so revalidating doesn't re-read
+ * (and re-deserialize) the whole feed from storage
+ */
+const feeds = new Map<string, CachedFeed>()
+
 /**
- * In-memory cache for the feed during prerendering.
+ * In-memory cache of feeds with overrides applied.
  * During `nuxi generate`, all routes run in the same Node process, so this
  * module-level Map is shared across every route and prevents redundant
  * fetch+parse cycles (the Nitro storage cache uses async I/O that can
- * still cause duplicate in-flight requests).
+ * still cause duplicate in-flight requests). Entries expire with the feed's
+ * TTL so a long-running server revalidates.
+ */
+const memoryCache = new Map<string, { promise: Promise<PodcastFeed>; expiresAt: number }>()
+
+/**
+ * Feeds whose latest revalidation failed, with their retry schedule
  */
-const memoryCache = new Map<string, Promise<PodcastFeed>>()
+const retries = new Map<string, { failures: number; lastError: string; timer: ReturnType<typeof setTimeout> | null }>()
+
+/**
+ * Background revalidations in flight
+ */
+const revalidations = new Map<string, Promise<void>>()
+
+/**
+ * Read a cached feed, from memory or Nitro storage
+ */
+async function readCachedFeed(feedUrl: string): Promise<CachedFeed | null> {
+  const loaded = feeds.get(feedUrl)
+  if (loaded) return loaded
+
+  const storage = useStorage('cache')
+  try {
+    const [feed, meta] = await Promise.all([
+      storage.getItem<PodcastFeed>(getCacheKey(feedUrl)),
+      storage.getItem<FeedCacheMeta>(getMetaKey(feedUrl)),
+    ])
+    if (!feed || !meta) return null
+    const cached = { feed, meta }
+    feeds.set(feedUrl, cached)
+    return cached
+  } catch (error) {
+    console.warn('Failed to read feed cache:', error)
+    return null
+  }
+}
 
 /**
- * Nitro storage-backed cache (persists across server restarts in dev/production)
+ * Save a cached feed. With `metaOnly`, the stored feed is left as is.
  */
-const _cachedFetch = defineCachedFunction(
-  async (feedUrl: string): Promise<PodcastFeed> => {
-    return await parsePodcastFeed(feedUrl)
-  },
-  {
-    maxAge: CACHE_TTL,
-    name: 'podcast-feed',
-    getKey: (feedUrl: string) => getCacheKey(feedUrl),
+async function writeCachedFeed(feedUrl: string, cached: CachedFeed, { metaOnly = false } = {}): Promise<void> {
+  feeds.set(feedUrl, cached)
+  const storage = useStorage('cache')
+  try {
+    if (!metaOnly) {
+      await storage.setItem(getCacheKey(feedUrl), cached.feed)
+    }
+    await storage.setItem(getMetaKey(feedUrl), cached.meta)
+  } catch (error) {
+    console.warn('Failed to store feed cache:', error)
   }
-)
+}
+
+/**
+ * Load a further page of a paged feed: from storage when it was fetched
+ * within PAGE_TTL, otherwise with a conditional GET. Falls back to the
+ * stored copy when the page can't be fetched.
+ */
+async function loadFeedPage(feedUrl: string, pageUrl: string): Promise<FeedPage> {
+  const storage = useStorage('cache')
+  const key = getPageKey(feedUrl, pageUrl)
+  const cached = await storage.getItem<CachedPage>(key).catch(() => null)
+  if (cached && Date.now() - cached.fetchedAt < PAGE_TTL * 1000) {
+    return cached.page
+  }
+
+  let fetched: CachedPage
+  try {
+    const result = await fetchFeedXml(pageUrl, cached ?? {})
+    if (result.notModified && !cached) {
+      throw new Error(`Failed to fetch RSS feed from ${pageUrl}: unexpected 304 response`)
+    }
+    fetched = result.notModified
+      ? { ...cached!, fetchedAt: Date.now() }
+      : { page: parseFeedPage(result.xml, pageUrl), ...result.validators, fetchedAt: Date.now() }
+  } catch (error) {
+    if (!cached) throw error
+    console.warn(`Failed to refresh feed page ${pageUrl}, using the cached copy:`, error)
+    return cached.page
+  }
+
+  try {
+    await storage.setItem(key, fetched)
+  } catch (error) {
+    console.warn('Failed to store feed page:', error)
+  }
+  return fetched.page
+}
+
+/**
+ * A feed without its episodes, which are compared separately by diffEpisodes
+ */
+function withoutEpisodes(feed: PodcastFeed): Omit<PodcastFeed, 'episodes'> {
+  const { episodes: _episodes, ...rest } = feed
+  return rest
+}
+
+/**
+ * Fetch a feed from upstream.
+ *
+ * Revalidation is a conditional GET using the stored ETag/Last-Modified.
+ * A 304 keeps the cached parse, restarts its TTL, and records no changes;
+ * a 200 is parsed and diffed against the previous parse by episode GUID.
+ *
+ * Paged feeds are merged with their further pages, which are cached
+ * separately (see loadFeedPage).
+ */
+async function revalidateFeed(feedUrl: string, cached: CachedFeed | null): Promise<CachedFeed> {
+  const result = await fetchFeedXml(feedUrl, cached ? cached.meta : {})
+  const now = Date.now()
+
+  if (result.notModified) {
+    if (!cached) {
+      throw new Error(`Failed to fetch RSS feed from ${feedUrl}: unexpected 304 response`)
+    }
+    const revalidated = {
+      feed: cached.feed,
+      meta: { ...cached.meta, checkedAt: now, changes: { added: [], changed: [], removed: [] } },
+    }
+    await writeCachedFeed(feedUrl, revalidated, { metaOnly: true })
+    return revalidated
+  }
+
+  const feed = await followFeedPages(
+    feedUrl,
+    parseFeedPage(result.xml, feedUrl),
+    pageUrl => loadFeedPage(feedUrl, pageUrl),
+  )
+  const changes = cached
+    ? diffEpisodes(cached.feed.episodes, feed.episodes)
+    : { added: feed.episodes.map(episode => episode.guid), changed: [], removed: [] }
+
+  // A server without validators re-sends unchanged feeds: keep the cached
+  // parse so only the metadata is rewritten. Everything besides the
+  // episodes (show details, live item status) is compared as a whole.
+  const unchanged = cached !== null && !hasChanges(changes)
+    && JSON.stringify(withoutEpisodes(cached.feed)) === JSON.stringify(withoutEpisodes(feed))
+  const fetched: CachedFeed = {
+    feed: unchanged ? cached.feed : feed,
+    meta: { ...result.validators, fetchedAt: now, checkedAt: now, changes },
+  }
+  await writeCachedFeed(feedUrl, fetched, { metaOnly: unchanged })
+  return fetched
+}
+
+/**
+ * Load a feed that isn't in memory yet: the stored copy when there is one
+ * (revalidated in the background if it has expired), otherwise from upstream
+ */
+async function loadFeed(feedUrl: string): Promise<CachedFeed> {
+  const cached = await readCachedFeed(feedUrl)
+  if (!cached) return revalidateFeed(feedUrl, null)
+
+  if (Date.now() - cached.meta.checkedAt >= CACHE_TTL * 1000) {
+    revalidateInBackground(feedUrl)
+  }
+  return cached
+}
+
+/**
+ * Put a loading feed in the in-memory cache, applying configured episode
+ * overrides and making slugs unique. Each feed's slugs are recorded so old
+ * ones keep resolving after a title change.
+ * Failed loads are dropped rather than cached, so the next request tries again.
+ */
+function remember(feedUrl: string, load: Promise<CachedFeed>): Promise<PodcastFeed> {
+  const promise: Promise<PodcastFeed> = load.then(
+    ({ feed, meta }) => {
+      // Expire with the feed's TTL (it may have been checked before this process started)
+      const entry = memoryCache.get(feedUrl)
+      if (entry?.promise === promise) {
+        entry.expiresAt = meta.checkedAt + CACHE_TTL * 1000
+      }
+      const overridden = applyFeedOverrides(feed, getFeedOverrides(feedUrl))
+      const episodes = assignUniqueSlugs(overridden.episodes)
+      recordSlugs(feedUrl, episodes).catch((error) => {
+        console.warn('Failed to record episode slugs:', error)
+      })
+      return episodes === overridden.episodes ? overridden : { ...overridden, episodes }
+    },
+    (error) => {
+      if (memoryCache.get(feedUrl)?.promise === promise) {
+        memoryCache.delete(feedUrl)
+      }
+      throw error
+    },
+  )
+  // Never expires while loading, so concurrent callers share this promise
+  memoryCache.set(feedUrl, { promise, expiresAt: Infinity })
+  return promise
+}
+
+/**
+ * Revalidate an expired feed without making anyone wait for it. Skipped
+ * while one is already running or a retry is scheduled.
+ */
+function revalidateInBackground(feedUrl: string): void {
+  if (revalidations.has(feedUrl) || retries.get(feedUrl)?.timer) return
+
+  const run = readCachedFeed(feedUrl)
+    .then(cached => revalidateFeed(feedUrl, cached))
+    .then((fetched) => {
+      clearRetry(feedUrl)
+      remember(feedUrl, Promise.resolve(fetched))
+    })
+    .catch(error => scheduleRetry(feedUrl, error))
+    .finally(() => revalidations.delete(feedUrl))
+  revalidations.set(feedUrl, run)
+}
+
+/**
+ * Record a failed revalidation and retry with exponential backoff.
+ * Until a retry succeeds the feed is served from cache, flagged as stale.
+ */
+function scheduleRetry(feedUrl: string, error: unknown): void {
+  const state = retries.get(feedUrl) ?? { failures: 0, lastError: '', timer: null }
+  if (state.timer) clearTimeout(state.timer)
+
+  state.failures++
+  state.lastError = error instanceof Error ? error.message : String(error)
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** (state.failures - 1), RETRY_MAX_DELAY)
+  state.timer = setTimeout(() => {
+    state.timer = null
+    revalidateInBackground(feedUrl)
+  }, delay)
+  // Don't keep the process alive (e.g. after prerendering) just to retry
+  state.timer.unref?.()
+  retries.set(feedUrl, state)
+
+  console.warn(`Failed to refresh feed, serving the last good copy (retry ${state.failures} in ${delay / 1000}s):`, state.lastError)
+}
+
+/**
+ * Forget a feed's failed revalidations
+ */
+function clearRetry(feedUrl: string): void {
+  const state = retries.get(feedUrl)
+  if (state?.timer) clearTimeout(state.timer)
+  retries.delete(feedUrl)
+}
 
 /**
  * Fetch and parse podcast feed with caching.
  * Uses an in-memory dedup layer on top of Nitro's storage cache so that
  * concurrent prerender routes share a single fetch+parse promise.
+ * Configured episode overrides are applied on top of the stored feed,
+ * so changing them never requires clearing the storage cache.
+ *
+ * Expired feeds are served as-is while they revalidate in the background
+ * (stale-while-revalidate), so an unreachable upstream feed never takes
+ * the site down once it has been fetched successfully.
  */
 export function getCachedPodcastFeed(feedUrl: string): Promise<PodcastFeed> {
   const existing = memoryCache.get(feedUrl)
-  if (existing) return existing
+  if (existing) {
+    if (existing.expiresAt <= Date.now()) revalidateInBackground(feedUrl)
+    return existing.promise
+  }
 
-  const promise = _cachedFetch(feedUrl)
-  memoryCache.set(feedUrl, promise)
-  return promise
+  return remember(feedUrl, loadFeed(feedUrl))
+}
+
+/**
+ * Revalidate a feed now, regardless of its TTL.
+ * Still a conditional GET, so an unchanged feed isn't downloaded again.
+ * Rejects if upstream fails; the cached copy keeps being served meanwhile.
+ */
+export async function refreshPodcastFeed(feedUrl: string): Promise<PodcastFeed> {
+  const cached = await readCachedFeed(feedUrl)
+  try {
+    const fetched = await revalidateFeed(feedUrl, cached)
+    clearRetry(feedUrl)
+    return remember(feedUrl, Promise.resolve(fetched))
+  } catch (error) {
+    if (cached) scheduleRetry(feedUrl, error)
+    throw error
+  }
+}
+
+/**
+ * Cache status of a loaded feed: when it was last downloaded and last
+ * confirmed current, which episodes its last revalidation added, changed,
+ * or removed, and whether it's stale (its latest revalidation failed)
+ */
+export function getFeedCacheStatus(feedUrl: string): FeedCacheStatus | null {
+  const cached = feeds.get(feedUrl)
+  if (!cached) return null
+  const { fetchedAt, checkedAt, changes } = cached.meta
+  const retry = retries.get(feedUrl)
+  return {
+    fetchedAt,
+    checkedAt,
+    changes,
+    stale: retry !== undefined,
+    ...(retry && { failures: retry.failures, lastError: retry.lastError }),
+  }
 }
 
 /**
@@ -62,11 +410,17 @@ export function getCachedPodcastFeed(feedUrl: string): Promise<PodcastFeed> {
  */
 export async function clearFeedCache(feedUrl: string): Promise<void> {
   memoryCache.delete(feedUrl)
+  feeds.delete(feedUrl)
+  clearRetry(feedUrl)
   const storage = useStorage('cache')
-  const cacheKey = `nitro:functions:podcast-feed:${getCacheKey(feedUrl)}.json`
-  
+
   try {
-    await storage.removeItem(cacheKey)
+    const pageKeys = await storage.getKeys(getPagePrefix(feedUrl))
+    await Promise.all([
+      storage.removeItem(getCacheKey(feedUrl)),
+      storage.removeItem(getMetaKey(feedUrl)),
+      ...pageKeys.map(key => storage.removeItem(key)),
+    ])
   } catch (error) {
     console.warn('Failed to clear feed cache:', error)
   }
@@ -77,10 +431,13 @@ export async function clearFeedCache(feedUrl: string): Promise<void> {
  */
 export async function clearAllFeedCaches(): Promise<void> {
   memoryCache.clear()
+  feeds.clear()
+  for (const feedUrl of retries.keys()) clearRetry(feedUrl)
   const storage = useStorage('cache')
-  
+
   try {
-    const keys = await storage.getKeys('nitro:functions:podcast-feed:')
+    // Covers feeds, their metadata, and their pages (the other prefixes share this one)
+    const keys = await storage.getKeys(CACHE_KEY_PREFIX)
     await Promise.all(keys.map(key => storage.removeItem(key)))
   } catch (error) {
     console.warn('Failed to clear all feed caches:', error)
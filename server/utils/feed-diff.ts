@@ -0,0 +1,40 @@
+import type { Episode } from '../../types/podcast'
+
+/**
+ * Episode GUIDs that changed between two parses of a feed
+ */
+export interface FeedChanges {
+  added: string[]
+  changed: string[]
+  removed: string[]
+}
+
+/**
+ * Compare two parses of a feed by episode GUID.
+ * An episode counts as changed when any parsed field differs
+ * (title, show notes, enclosure, Podcasting 2.0 tags, ...).
+ */
+export function diffEpisodes(previous: Episode[], next: Episode[]): FeedChanges {
+  const before = new Map(previous.map(episode => [episode.guid, episode]))
+  const changes: FeedChanges = { added: [], changed: [], removed: [] }
+
+  for (const episode of next) {
+    const old = before.get(episode.guid)
+    if (!old) {
+      changes.added.push(episode.guid)
+    } else if (JSON.stringify(old) !== JSON.stringify(episode)) {
+      changes.changed.push(episode.guid)
+    }
+    before.delete(episode.guid)
+  }
+
+  changes.removed = Array.from(before.keys())
+  return changes
+}
+
+/**
+ * Whether a diff found any change
+ */
+export function hasChanges(changes: FeedChanges): boolean {
+  return changes.added.length > 0 || changes.changed.length > 0 || changes.removed.length > 0
+}
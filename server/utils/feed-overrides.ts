@@ -0,0 +1,73 @@
+import type { Episode, EpisodeOverride, FeedOverrides, PodcastFeed, ShowConfig } from '../../types/podcast'
+import { generateSlug } from './slug'
+
+/**
+ * Overrides configured for a feed URL: the matching network show's
+ * `overrides`, or app.config.ts `podcast.overrides` for the main feed.
+ */
+export function getFeedOverrides(feedUrl: string): FeedOverrides {
+  const podcastConfig = useAppConfig().podcast as {
+    shows?: ShowConfig[]
+    overrides?: FeedOverrides
+  } | undefined
+
+  const show = podcastConfig?.shows?.find(s => s?.feedUrl === feedUrl)
+  return (show ? show.overrides : podcastConfig?.overrides) ?? {}
+}
+
+/**
+ * Append `extra` items not already present (by `key`) to `items`
+ */
+function mergeUnique<T>(items: T[] | undefined, extra: T[] | undefined, key: (item: T) => string): T[] | undefined {
+  if (!extra?.length) return items
+  const seen = new Set((items ?? []).map(key))
+  return [...(items ?? []), ...extra.filter(item => !seen.has(key(item)))]
+}
+
+/**
+ * Apply one override to an episode, returning a new episode
+ */
+function applyEpisodeOverride(episode: Episode, override: EpisodeOverride): Episode {
+  const result: Episode = { ...episode }
+
+  if (override.episodeNumber !== undefined) {
+    result.episodeNumber = override.episodeNumber
+    // Slugs embed the episode number, so a corrected number gets a corrected slug
+    result.slug = generateSlug(episode.title, override.episodeNumber)
+  }
+  if (override.seasonNumber !== undefined) {
+    result.seasonNumber = override.seasonNumber
+  }
+
+  const { transcript, chapters, persons, funding } = override
+  if (transcript || chapters || persons?.length || funding?.length) {
+    const podcast2 = { ...episode.podcast2 }
+    if (transcript) podcast2.transcript = transcript
+    if (chapters) podcast2.chapters = chapters
+    podcast2.persons = mergeUnique(podcast2.persons, persons, p => `${p.name.toLowerCase()}|${p.role ?? ''}`)
+    podcast2.funding = mergeUnique(podcast2.funding, funding, f => f.url)
+    if (!podcast2.persons) delete podcast2.persons
+    if (!podcast2.funding) delete podcast2.funding
+    result.podcast2 = podcast2
+  }
+
+  return result
+}
+
+/**
+ * Merge locally configured overrides into a parsed feed.
+ * Returns a new feed; episodes without an override are passed through
+ * unchanged. Overrides for GUIDs not in the feed are ignored.
+ */
+export function applyFeedOverrides(feed: PodcastFeed, overrides: FeedOverrides): PodcastFeed {
+  if (Object.keys(overrides).length === 0) return feed
+
+  return {
+    ...feed,
+    episodes: feed.episodes.map((episode) => {
+      return Object.hasOwn(overrides, episode.guid)
+        ? applyEpisodeOverride(episode, overrides[episode.guid]!)
+        : episode
+    }),
+  }
+}
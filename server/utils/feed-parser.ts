@@ -1,5 +1,17 @@
 import { XMLParser } from 'fast-xml-parser'
-import type { Podcast, Episode, PodcastFeed, Podcast2Tags } from '../../types/podcast'
+import type {
+  AlternateEnclosure,
+  LiveItem,
+  Podcast,
+  Episode,
+  PodcastFeed,
+  Podcast2Tags,
+  RemoteItem,
+  Soundbite,
+  ValueBlock,
+  ValueRecipient,
+  ValueTimeSplit,
+} from '../../types/podcast'
 import { generateSlug } from './slug'
 
 /**
@@ -64,6 +76,54 @@ function parseCategories(categories: any): string[] {
   return cats
 }
 
+/**
+ * Parse itunes:episodeType, defaulting to a full episode
+ */
+function parseEpisodeType(value: string | undefined): Episode['episodeType'] {
+  const type = value?.toString().toLowerCase()
+  return type === 'trailer' || type === 'bonus' ? type : 'full'
+}
+
+/**
+ * Split comma-separated itunes:keywords
+ */
+function parseKeywords(value: string | undefined): string[] | undefined {
+  if (!value) return undefined
+  return value
+    .toString()
+    .split(',')
+    .map(k => k.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Wrap a parsed element that may occur once or many times in an array
+ */
+function asArray<T = any>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Find the Atom <link> element with the given rel among parsed links.
+ * Links without a rel are "alternate", per RFC 4287.
+ */
+function findAtomLink(links: any, rel: string): any {
+  return asArray(links).find((l: any) => (l?.['@_rel'] || 'alternate') === rel && l['@_href'])
+}
+
+/**
+ * Find the href of a channel-level <atom:link> with the given rel.
+ * FeedBurner-style feeds use the `atom10:` prefix for the same namespace.
+ */
+function parseAtomLink(channel: any, rel: string): string | undefined {
+  for (const key of ['atom:link', 'atom10:link']) {
+    const link = findAtomLink(channel[key], rel)
+    if (link) return String(link['@_href'])
+  }
+  return undefined
+}
+
 /**
  * Parse Podcasting 2.0 namespace tags
  */
@@ -139,9 +199,215 @@ function parsePodcast2Tags(item: any): Podcast2Tags | undefined {
     hasAnyTag = true
   }
   
+  // Parse recommended shows
+  const podroll = asArray(item['podcast:podroll']?.['podcast:remoteItem'])
+    .map(parseRemoteItem)
+    .filter((remoteItem): remoteItem is RemoteItem => !!remoteItem)
+  if (podroll.length > 0) {
+    tags.podroll = podroll
+    hasAnyTag = true
+  }
+  
+  // Parse value-for-value splits
+  const value = parseValueBlock(item['podcast:value'])
+  if (value) {
+    tags.value = value
+    hasAnyTag = true
+  }
+  
   return hasAnyTag ? tags : undefined
 }
 
+/**
+ * Parse an optional string attribute
+ */
+function optionalString(value: unknown): string | undefined {
+  return value !== undefined && value !== '' ? String(value) : undefined
+}
+
+/**
+ * Parse a <podcast:remoteItem> reference; it needs at least a feedGuid
+ */
+function parseRemoteItem(el: any): RemoteItem | undefined {
+  if (!el?.['@_feedGuid']) return undefined
+  return {
+    feedGuid: String(el['@_feedGuid']),
+    itemGuid: optionalString(el['@_itemGuid']),
+    feedUrl: optionalString(el['@_feedUrl']),
+    medium: optionalString(el['@_medium']),
+  }
+}
+
+/**
+ * Parse <podcast:valueRecipient> elements, skipping ones without a type or address
+ */
+function parseValueRecipients(value: any): ValueRecipient[] {
+  return asArray(value).flatMap((r: any): ValueRecipient[] => {
+    if (!r?.['@_type'] || !r['@_address']) return []
+    return [{
+      name: optionalString(r['@_name']),
+      type: String(r['@_type']).toLowerCase(),
+      address: String(r['@_address']),
+      split: Math.max(0, Number(r['@_split']) || 0),
+      customKey: optionalString(r['@_customKey']),
+      customValue: optionalString(r['@_customValue']),
+      fee: parseBoolean(r['@_fee']) || undefined,
+    }]
+  })
+}
+
+/**
+ * Parse a <podcast:valueTimeSplit>. It pays either inline recipients or a
+ * remote item's; ones with neither, or without a valid time range, are skipped.
+ */
+function parseValueTimeSplit(el: any): ValueTimeSplit[] {
+  const startTime = Number(el?.['@_startTime'])
+  const duration = Number(el?.['@_duration'])
+  if (!(startTime >= 0) || !(duration > 0)) return []
+  
+  const recipients = parseValueRecipients(el['podcast:valueRecipient'])
+  const remoteItem = parseRemoteItem(el['podcast:remoteItem'])
+  if (recipients.length === 0 && !remoteItem) return []
+  
+  const remotePercentage = Number(el['@_remotePercentage'] ?? 100)
+  return [{
+    startTime,
+    duration,
+    remotePercentage: Number.isFinite(remotePercentage) ? Math.min(100, Math.max(0, remotePercentage)) : 100,
+    remoteStartTime: Number(el['@_remoteStartTime']) || undefined,
+    recipients: recipients.length > 0 ? recipients : undefined,
+    remoteItem,
+  }]
+}
+
+/**
+ * Parse <podcast:value> blocks. A feed may offer several payment networks;
+ * the first lightning block is used, otherwise the first one.
+ * Blocks without recipients are skipped.
+ */
+function parseValueBlock(value: any): ValueBlock | undefined {
+  const blocks = asArray(value).flatMap((el: any): ValueBlock[] => {
+    const recipients = parseValueRecipients(el?.['podcast:valueRecipient'])
+    if (!el?.['@_type'] || recipients.length === 0) return []
+    
+    const timeSplits = asArray(el['podcast:valueTimeSplit'])
+      .flatMap(parseValueTimeSplit)
+      .sort((a, b) => a.startTime - b.startTime)
+    
+    return [{
+      type: String(el['@_type']).toLowerCase(),
+      method: String(el['@_method'] ?? '').toLowerCase(),
+      suggested: Number(el['@_suggested']) || undefined,
+      recipients,
+      timeSplits: timeSplits.length > 0 ? timeSplits : undefined,
+    }]
+  })
+  return blocks.find(block => block.type === 'lightning') ?? blocks[0]
+}
+
+/**
+ * Parse <podcast:alternateEnclosure> elements. Each one is played from its
+ * first http(s) <podcast:source>; ones without such a source are skipped.
+ */
+function parseAlternateEnclosures(value: any): AlternateEnclosure[] | undefined {
+  const enclosures = asArray(value).flatMap((el: any): AlternateEnclosure[] => {
+    const source = asArray(el?.['podcast:source'])
+      .find((s: any) => /^https?:\/\//i.test(String(s?.['@_uri'] ?? '')))
+    if (!el?.['@_type'] || !source) return []
+    
+    const integrity = el['podcast:integrity']
+    const integrityType = String(integrity?.['@_type'] ?? '').toLowerCase()
+    
+    return [{
+      type: String(source['@_contentType'] || el['@_type']),
+      url: String(source['@_uri']),
+      length: Number(el['@_length']) || undefined,
+      bitrate: Number(el['@_bitrate']) || undefined,
+      height: Number(el['@_height']) || undefined,
+      codecs: el['@_codecs'] ? String(el['@_codecs']) : undefined,
+      title: el['@_title'] ? String(el['@_title']) : undefined,
+      lang: el['@_lang'] ? String(el['@_lang']) : undefined,
+      default: parseBoolean(el['@_default']) || undefined,
+      integrity: (integrityType === 'sri' || integrityType === 'pgp-signature') && integrity['@_value']
+        ? { type: integrityType, value: String(integrity['@_value']) }
+        : undefined,
+    }]
+  })
+  return enclosures.length > 0 ? enclosures : undefined
+}
+
+/**
+ * Parse <podcast:soundbite> elements, skipping ones without a usable
+ * start time and duration
+ */
+function parseSoundbites(value: any): Soundbite[] | undefined {
+  const soundbites = asArray(value).flatMap((el: any): Soundbite[] => {
+    const startTime = Number(el?.['@_startTime'])
+    const duration = Number(el?.['@_duration'])
+    if (!Number.isFinite(startTime) || startTime < 0 || !Number.isFinite(duration) || duration <= 0) return []
+    
+    const title = typeof el === 'object' ? el['#text'] : undefined
+    return [{
+      startTime,
+      duration,
+      title: title !== undefined && String(title).trim() ? String(title).trim() : undefined,
+    }]
+  })
+  return soundbites.length > 0 ? soundbites : undefined
+}
+
+/**
+ * Parse a date attribute into an ISO 8601 string, or undefined when invalid
+ */
+function parseIsoDate(value: unknown): string | undefined {
+  if (!value) return undefined
+  const date = new Date(String(value))
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Parse <podcast:liveItem> elements. Items without a stream enclosure, a
+ * known status, or a valid start time are skipped.
+ */
+function parseLiveItems(value: any, podcast: Podcast, baseUrl: string): LiveItem[] | undefined {
+  const liveItems = asArray(value).flatMap((item: any): LiveItem[] => {
+    const status = String(item?.['@_status'] ?? '').toLowerCase()
+    const start = parseIsoDate(item?.['@_start'])
+    const streamUrl = item?.enclosure?.['@_url'] || item?.enclosure?.url
+    if ((status !== 'pending' && status !== 'live' && status !== 'ended') || !start || !streamUrl) return []
+    
+    const contentLinks = asArray(item['podcast:contentLink'])
+      .filter((link: any) => link?.['@_href'])
+      .map((link: any) => ({ href: String(link['@_href']), text: String(link['#text'] ?? link['@_href']) }))
+    
+    const chat = item['podcast:chat']
+    
+    return [{
+      guid: String(item.guid?.['#text'] || item.guid || streamUrl),
+      title: String(item.title || 'Untitled Live Stream'),
+      description: sanitizeLinks(String(item.description || ''), baseUrl),
+      status,
+      start,
+      end: parseIsoDate(item['@_end']),
+      streamUrl: String(streamUrl),
+      streamType: String(item.enclosure['@_type'] || item.enclosure.type || 'audio/mpeg'),
+      artwork: item['itunes:image']?.['@_href'] || podcast.artwork,
+      link: item.link,
+      contentLinks: contentLinks.length > 0 ? contentLinks : undefined,
+      chat: chat?.['@_server'] && chat['@_protocol']
+        ? {
+            server: String(chat['@_server']),
+            protocol: String(chat['@_protocol']),
+            accountId: chat['@_accountId'] !== undefined ? String(chat['@_accountId']) : undefined,
+            space: chat['@_space'] !== undefined ? String(chat['@_space']) : undefined,
+            embedUrl: chat['@_embedUrl'] ? String(chat['@_embedUrl']) : undefined,
+          }
+        : undefined,
+    }]
+  })
+  return liveItems.length > 0 ? liveItems : undefined
+}
+
 /**
  * Sanitize href values in HTML content.
  *
@@ -153,8 +419,14 @@ function parsePodcast2Tags(item: any): Podcast2Tags | undefined {
  * 3. Encoded brackets:  href="%5Dhttps://..."       → href="https://..."
  * 4. Paren-wrapped:     href="(https://...)"        → href="https://..."
  * 5. Bare paths:        href="user/repo"            → absolute with origin
+ *
+ * `onRewrite` is called for every link that was changed, for feed validation.
  */
-function sanitizeLinks(html: string | undefined, baseUrl: string | undefined): string {
+function sanitizeLinks(
+  html: string | undefined,
+  baseUrl: string | undefined,
+  onRewrite?: (from: string, to: string) => void,
+): string {
   if (!html) return ''
 
   let origin = ''
@@ -167,94 +439,338 @@ function sanitizeLinks(html: string | undefined, baseUrl: string | undefined): s
   }
 
   return html.replace(/href=(["'])(.*?)\1/g, (_match, quote: string, rawUrl: string) => {
-    let url = rawUrl.trim()
-
-    // Skip anchors (#...), mailto:, tel:, javascript:, data:, and protocol-relative (//)
-    if (
-      !url ||
-      url.startsWith('#') ||
-      url.startsWith('mailto:') ||
-      url.startsWith('tel:') ||
-      url.startsWith('javascript:') ||
-      url.startsWith('data:') ||
-      url.startsWith('//')
-    ) {
-      return `href=${quote}${url}${quote}`
+    const url = sanitizeHref(rawUrl, origin)
+    if (onRewrite && url !== rawUrl.trim()) {
+      onRewrite(rawUrl, url)
     }
+    return `href=${quote}${url}${quote}`
+  })
+}
 
-    // Fix URL-encoded bracket prefix: %5D or %5B (broken markdown)
-    url = url.replace(/^(%5[BD])+/gi, '')
+/**
+ * Fix a single href value (see sanitizeLinks)
+ */
+function sanitizeHref(rawUrl: string, origin: string): string {
+  let url = rawUrl.trim()
 
-    // Fix paren-wrapped URLs: (https://...) → https://...
-    if (url.startsWith('(') && url.endsWith(')')) {
-      url = url.slice(1, -1)
-    }
+  // Skip anchors (#...), mailto:, tel:, javascript:, data:, and protocol-relative (//)
+  if (
+    !url ||
+    url.startsWith('#') ||
+    url.startsWith('mailto:') ||
+    url.startsWith('tel:') ||
+    url.startsWith('javascript:') ||
+    url.startsWith('data:') ||
+    url.startsWith('//')
+  ) {
+    return url
+  }
 
-    // Already absolute — done
-    if (url.startsWith('http://') || url.startsWith('https://')) {
-      return `href=${quote}${url}${quote}`
-    }
+  // Fix URL-encoded bracket prefix: %5D or %5B (broken markdown)
+  url = url.replace(/^(%5[BD])+/gi, '')
 
-    // Slash-relative: /path → origin + /path
-    if (url.startsWith('/') && origin) {
-      return `href=${quote}${origin}${url}${quote}`
-    }
+  // Fix paren-wrapped URLs: (https://...) → https://...
+  if (url.startsWith('(') && url.endsWith(')')) {
+    url = url.slice(1, -1)
+  }
 
-    // Looks like a bare domain (contains a dot before any slash): example.com/page
-    if (/^[a-z0-9-]+\.[a-z]{2,}/i.test(url)) {
-      return `href=${quote}https://${url}${quote}`
-    }
+  // Already absolute — done
+  if (url.startsWith('http://') || url.startsWith('https://')) {
+    return url
+  }
 
-    // Bare relative path (e.g. "user/repo") — resolve against origin
-    if (origin) {
-      return `href=${quote}${origin}/${url}${quote}`
-    }
+  // Slash-relative: /path → origin + /path
+  if (url.startsWith('/') && origin) {
+    return `${origin}${url}`
+  }
 
-    // Nothing we can do — return as-is
-    return `href=${quote}${url}${quote}`
-  })
+  // Looks like a bare domain (contains a dot before any slash): example.com/page
+  if (/^[a-z0-9-]+\.[a-z]{2,}/i.test(url)) {
+    return `https://${url}`
+  }
+
+  // Bare relative path (e.g. "user/repo") — resolve against origin
+  if (origin) {
+    return `${origin}/${url}`
+  }
+
+  // Nothing we can do — return as-is
+  return url
 }
 
 /**
- * Parse podcast RSS feed from XML string
+ * HTTP validators saved with a cached feed, sent back on the next fetch
+ * as If-None-Match / If-Modified-Since
  */
-export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
-  // Fetch the RSS feed
-  let xmlContent: string
+export interface FeedValidators {
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * Result of a (conditional) feed fetch: the document and its validators,
+ * or `notModified` when the server answered 304
+ */
+export type FeedFetchResult =
+  | { notModified: true }
+  | { notModified: false; xml: string; validators: FeedValidators }
+
+/**
+ * Fetch a feed's XML. When validators from an earlier fetch are given the
+ * request is conditional, and an unchanged feed comes back as `notModified`
+ * without a body.
+ */
+export async function fetchFeedXml(feedUrl: string, validators: FeedValidators = {}): Promise<FeedFetchResult> {
   try {
     const response = await fetch(feedUrl, {
       headers: {
         'User-Agent': 'nuxt-podcast-theme/0.1.0',
+        ...(validators.etag && { 'If-None-Match': validators.etag }),
+        ...(validators.lastModified && { 'If-Modified-Since': validators.lastModified }),
       },
     })
-    
+
+    if (response.status === 304) {
+      return { notModified: true }
+    }
+
     if (!response.ok) {
       throw new Error(`Failed to fetch feed: ${response.status} ${response.statusText}`)
     }
-    
-    xmlContent = await response.text()
+
+    return {
+      notModified: false,
+      xml: await response.text(),
+      validators: {
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+      },
+    }
   } catch (error) {
     throw new Error(`Failed to fetch RSS feed from ${feedUrl}: ${error}`)
   }
+}
+
+/**
+ * Fetch and parse a podcast feed (RSS, Atom, or JSON Feed), following
+ * its pages when the archive is split across several documents
+ */
+export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
+  const result = await fetchFeedXml(feedUrl)
+  if (result.notModified) {
+    // Only conditional requests (with validators) should be answered with a 304
+    throw new Error(`Failed to fetch RSS feed from ${feedUrl}: unexpected 304 response`)
+  }
+  return followFeedPages(feedUrl, parseFeedPage(result.xml, feedUrl))
+}
+
+/**
+ * What the parser dropped or fixed while parsing a feed, for validation.
+ * Pass an empty one to parseFeedContent or parseFeedPage to collect them.
+ */
+export interface FeedParseNotices {
+  /** Items skipped because they have no enclosure URL */
+  skippedItems: Array<{ title: string; guid?: string }>
+  /** Show-note links rewritten by sanitizeLinks */
+  rewrittenLinks: Array<{ guid: string; title: string; from: string; to: string }>
+}
+
+/**
+ * Most documents read from one paged feed, including its first page
+ */
+const MAX_FEED_PAGES = 50
+
+/**
+ * Links from one page of a paged feed (RFC 5005) to the pages after it
+ */
+export interface FeedPageLinks {
+  /** Paged feeds: the next (older) page */
+  next?: string
+  /** Archived feeds: the previous archive document */
+  prevArchive?: string
+}
+
+/**
+ * One parsed document of a feed, with its links to further pages
+ */
+export interface FeedPage {
+  feed: PodcastFeed
+  links: FeedPageLinks
+}
+
+/**
+ * Collects links sanitizeLinks rewrites in an episode's show notes, when
+ * notices are being collected
+ */
+function recordRewrites(notices: FeedParseNotices | undefined, guid: string, title: string) {
+  return notices && ((from: string, to: string) => {
+    notices.rewrittenLinks.push({ guid, title, from, to })
+  })
+}
+
+/**
+ * Feed document formats the parser understands
+ */
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+/**
+ * Tell a feed document's format from its content: JSON Feed is a JSON
+ * object, Atom has a <feed> root element, anything else is treated as RSS.
+ */
+export function detectFeedFormat(content: string): FeedFormat {
+  const start = content.replace(/^\uFEFF/, '').trimStart()
+  if (start.startsWith('{')) return 'json'
+
+  // First element, skipping the XML declaration, comments, and doctype
+  const root = start.match(/<([A-Za-z_][\w.-]*:)?([A-Za-z_][\w.-]*)[\s>/]/)
+  return root?.[2] === 'feed' ? 'atom' : 'rss'
+}
+
+/**
+ * Parse a podcast feed in any supported format into the same PodcastFeed shape
+ */
+export function parseFeedContent(content: string, feedUrl: string, notices?: FeedParseNotices): PodcastFeed {
+  return parseFeedPage(content, feedUrl, notices).feed
+}
+
+/**
+ * Parse one document of a (possibly paged) feed, in any supported format,
+ * along with its links to further pages
+ */
+export function parseFeedPage(content: string, pageUrl: string, notices?: FeedParseNotices): FeedPage {
+  return detectFeedFormat(content) === 'json'
+    ? parseJsonPage(content, pageUrl, notices)
+    : parseXmlPage(content, pageUrl, notices)
+}
+
+/**
+ * Resolve a page's next/prev-archive hrefs against its URL, dropping ones
+ * that aren't valid URLs
+ */
+function resolvePageLinks(pageUrl: string, next: string | undefined, prevArchive: string | undefined): FeedPageLinks {
+  const resolve = (href: string | undefined) => {
+    if (!href) return undefined
+    try {
+      return new URL(href, pageUrl).href
+    } catch {
+      return undefined
+    }
+  }
+  return { next: resolve(next), prevArchive: resolve(prevArchive) }
+}
+
+/**
+ * Fetch and parse a single page of a paged feed
+ */
+export async function fetchFeedPage(pageUrl: string, notices?: FeedParseNotices): Promise<FeedPage> {
+  const result = await fetchFeedXml(pageUrl)
+  if (result.notModified) {
+    throw new Error(`Failed to fetch RSS feed from ${pageUrl}: unexpected 304 response`)
+  }
+  return parseFeedPage(result.xml, pageUrl, notices)
+}
+
+/**
+ * Follow a paged feed's links (RFC 5005 `next` and `prev-archive`, or JSON
+ * Feed's `next_url`) from its first page, and merge the episodes of every
+ * page by GUID. Earlier pages win, and the show metadata comes from the first.
+ *
+ * At most MAX_FEED_PAGES pages are read, and a page linked twice (a cycle)
+ * only once. A page that fails to load is skipped along with the pages only
+ * it links to. `loadPage` lets the caller serve pages from a cache.
+ */
+export async function followFeedPages(
+  feedUrl: string,
+  first: FeedPage,
+  loadPage: (pageUrl: string) => Promise<FeedPage> = fetchFeedPage,
+): Promise<PodcastFeed> {
+  const pending = [first.links.next, first.links.prevArchive].filter((url): url is string => !!url)
+  if (pending.length === 0) return first.feed
+  
+  const visited = new Set([first.feed.podcast.feedUrl, feedUrl])
+  const episodes = [...first.feed.episodes]
+  const guids = new Set(episodes.map(episode => episode.guid))
+  let pages = 1
   
+  while (pending.length > 0) {
+    const pageUrl = pending.shift()!
+    if (visited.has(pageUrl)) continue
+    if (pages >= MAX_FEED_PAGES) {
+      console.warn(`Stopped following ${feedUrl} after ${MAX_FEED_PAGES} pages`)
+      break
+    }
+    visited.add(pageUrl)
+    pages++
+    
+    let page: FeedPage
+    try {
+      page = await loadPage(pageUrl)
+    } catch (error) {
+      console.warn(`Skipping feed page ${pageUrl}:`, error)
+      continue
+    }
+    
+    for (const episode of page.feed.episodes) {
+      if (guids.has(episode.guid)) continue
+      guids.add(episode.guid)
+      episodes.push(episode)
+    }
+    pending.push(...[page.links.next, page.links.prevArchive].filter((url): url is string => !!url))
+  }
+  
+  return { ...first.feed, episodes }
+}
+
+/**
+ * Parse a podcast RSS 2.0 or Atom feed from an XML string
+ */
+export function parseFeedXml(xmlContent: string, feedUrl: string, notices?: FeedParseNotices): PodcastFeed {
+  return parseXmlPage(xmlContent, feedUrl, notices).feed
+}
+
+/**
+ * <podcast:valueRecipient> attributes kept exactly as written. They're
+ * passed on with payments, so parsing them as numbers would drop leading
+ * zeros or round long digit strings and pay the wrong wallet.
+ */
+const VERBATIM_RECIPIENT_ATTRIBUTES = new Set(['address', 'customKey', 'customValue'])
+
+/**
+ * Parse one RSS 2.0 or Atom document and its page links
+ */
+function parseXmlPage(xmlContent: string, feedUrl: string, notices?: FeedParseNotices): FeedPage {
   // Parse XML
   const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
     textNodeName: '#text',
     parseAttributeValue: true,
+    // null leaves the value as the string from the feed
+    attributeValueProcessor: (name, value, jPath) =>
+      jPath.endsWith('podcast:valueRecipient') && VERBATIM_RECIPIENT_ATTRIBUTES.has(name) ? null : value,
     trimValues: true,
   })
   
-  let rss: any
+  let document: any
   try {
-    rss = parser.parse(xmlContent)
+    document = parser.parse(xmlContent)
   } catch (error) {
     throw new Error(`Failed to parse RSS XML: ${error}`)
   }
   
+  // Atom: <feed> root, with or without a namespace prefix
+  const atomKey = Object.keys(document ?? {}).find(key => /^(\w+:)?feed$/.test(key))
+  if (atomKey && !document.rss) {
+    const prefix = atomKey.slice(0, -'feed'.length)
+    return parseAtomPage(prefix ? stripPrefix(document[atomKey], prefix) : document[atomKey], feedUrl, notices)
+  }
+  
+  if (!document?.rss) {
+    throw new Error('Invalid feed: expected an RSS, Atom, or JSON Feed document')
+  }
+  
   // Navigate to channel
-  const channel = rss?.rss?.channel
+  const channel = document.rss.channel
   if (!channel) {
     throw new Error('Invalid RSS feed: missing channel element')
   }
@@ -274,6 +790,12 @@ export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
     copyright: channel.copyright,
   }
   
+  // WebSub: the hub that pushes updates, and the topic URL to subscribe to
+  const hub = parseAtomLink(channel, 'hub')
+  if (hub) {
+    podcast.websub = { hub, topic: parseAtomLink(channel, 'self') || feedUrl }
+  }
+  
   // Parse show-level Podcasting 2.0 tags
   const showPodcast2 = parsePodcast2Tags(channel)
   if (showPodcast2) {
@@ -290,45 +812,35 @@ export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
   for (const item of items) {
     if (!item) continue
     
-    // Get enclosure (audio file)
+    const title = String(item.title || 'Untitled Episode')
+    
+    // Get enclosure (audio file); skip items without audio
     const enclosure = item.enclosure
-    if (!enclosure) {
-      // Skip items without audio
+    const audioUrl = enclosure?.['@_url'] || enclosure?.url
+    if (!audioUrl) {
+      const guid = item.guid?.['#text'] || item.guid
+      notices?.skippedItems.push({ title, ...(guid && { guid: String(guid) }) })
       continue
     }
     
-    const audioUrl = enclosure['@_url'] || enclosure.url
-    if (!audioUrl) continue
-    
-    const title = String(item.title || 'Untitled Episode')
     const episodeNumber = item['itunes:episode'] 
       ? parseInt(item['itunes:episode'], 10) 
       : undefined
     
-    // Parse episode type
-    let episodeType: 'full' | 'trailer' | 'bonus' = 'full'
-    const itunesType = item['itunes:episodeType']?.toLowerCase()
-    if (itunesType === 'trailer') episodeType = 'trailer'
-    else if (itunesType === 'bonus') episodeType = 'bonus'
-    
-    // Parse keywords
-    let keywords: string[] | undefined
-    if (item['itunes:keywords']) {
-      keywords = item['itunes:keywords']
-        .split(',')
-        .map((k: string) => k.trim())
-        .filter(Boolean)
-    }
+    const guid = item.guid?.['#text'] || item.guid || audioUrl
+    const onRewrite = recordRewrites(notices, guid, title)
     
     const episode: Episode = {
-      guid: item.guid?.['#text'] || item.guid || audioUrl,
+      guid,
       title,
       slug: generateSlug(title, episodeNumber),
-      description: sanitizeLinks(String(item['itunes:summary'] || item.description || ''), baseUrl),
-      htmlContent: sanitizeLinks(item['content:encoded'], baseUrl),
+      description: sanitizeLinks(String(item['itunes:summary'] || item.description || ''), baseUrl, onRewrite),
+      htmlContent: sanitizeLinks(item['content:encoded'], baseUrl, onRewrite),
       audioUrl,
       audioType: enclosure['@_type'] || enclosure.type || 'audio/mpeg',
       audioLength: parseInt(enclosure['@_length'] || enclosure.length || '0', 10),
+      alternateEnclosures: parseAlternateEnclosures(item['podcast:alternateEnclosure']),
+      soundbites: parseSoundbites(item['podcast:soundbite']),
       pubDate: item.pubDate || new Date().toISOString(),
       duration: parseDuration(item['itunes:duration']),
       artwork: item['itunes:image']?.['@_href'] || podcast.artwork,
@@ -336,9 +848,9 @@ export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
       seasonNumber: item['itunes:season'] 
         ? parseInt(item['itunes:season'], 10) 
         : undefined,
-      episodeType,
+      episodeType: parseEpisodeType(item['itunes:episodeType']),
       explicit: parseBoolean(item['itunes:explicit'] ?? channel['itunes:explicit']),
-      keywords,
+      keywords: parseKeywords(item['itunes:keywords']),
       link: item.link,
     }
     
@@ -351,8 +863,234 @@ export async function parsePodcastFeed(feedUrl: string): Promise<PodcastFeed> {
     episodes.push(episode)
   }
   
+  // Live streams, announced alongside the regular items
+  const liveItems = parseLiveItems(channel['podcast:liveItem'], podcast, baseUrl)
+  
+  return {
+    feed: liveItems ? { podcast, episodes, liveItems } : { podcast, episodes },
+    links: resolvePageLinks(feedUrl, parseAtomLink(channel, 'next'), parseAtomLink(channel, 'prev-archive')),
+  }
+}
+
+/**
+ * Text of an Atom text construct (<title>, <subtitle>, <summary>, <content>, ...).
+ * Only type="text" and type="html" are read; type="xhtml" content is an
+ * element tree, which the RSS-shaped episode data has no place for.
+ */
+function atomText(value: any): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value !== 'object') return String(value)
+  return value['#text'] !== undefined ? String(value['#text']) : ''
+}
+
+/**
+ * Drop a namespace prefix from element names throughout a parsed tree, so a
+ * prefixed Atom document (<atom:feed>) reads like an unprefixed one
+ */
+function stripPrefix(node: any, prefix: string): any {
+  if (Array.isArray(node)) return node.map(child => stripPrefix(child, prefix))
+  if (!node || typeof node !== 'object') return node
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [
+    key.startsWith(prefix) ? key.slice(prefix.length) : key,
+    stripPrefix(value, prefix),
+  ]))
+}
+
+/**
+ * Parse an Atom (RFC 4287) feed. Episodes are entries with a
+ * <link rel="enclosure">; iTunes and Podcasting 2.0 tags are read when present.
+ */
+function parseAtomPage(feed: any, feedUrl: string, notices?: FeedParseNotices): FeedPage {
+  const categories = feed['itunes:category']
+    ? parseCategories(feed['itunes:category'])
+    : asArray(feed.category).map((c: any) => String(c['@_label'] || c['@_term'] || '')).filter(Boolean)
+  
+  const podcast: Podcast = {
+    title: atomText(feed.title) || 'Untitled Podcast',
+    author: String(feed['itunes:author'] || asArray(feed.author)[0]?.name || 'Unknown'),
+    description: atomText(feed.subtitle) || atomText(feed['itunes:summary']),
+    artwork: feed['itunes:image']?.['@_href'] || atomText(feed.logo) || atomText(feed.icon),
+    categories,
+    feedUrl,
+    type: feed['itunes:type'] === 'serial' ? 'serial' : 'episodic',
+    explicit: parseBoolean(feed['itunes:explicit']),
+    link: findAtomLink(feed.link, 'alternate')?.['@_href'],
+    language: feed['@_xml:lang'],
+    copyright: atomText(feed.rights) || undefined,
+  }
+  
+  // WebSub links are plain <link> elements in Atom
+  const hub = findAtomLink(feed.link, 'hub')
+  if (hub) {
+    podcast.websub = { hub: String(hub['@_href']), topic: findAtomLink(feed.link, 'self')?.['@_href'] || feedUrl }
+  }
+  
+  const showPodcast2 = parsePodcast2Tags(feed)
+  if (showPodcast2) {
+    podcast.podcast2 = showPodcast2
+  }
+  
+  const episodes: Episode[] = []
+  const baseUrl = podcast.link || feedUrl
+  
+  for (const entry of asArray(feed.entry)) {
+    if (!entry) continue
+    
+    const title = atomText(entry.title) || 'Untitled Episode'
+    const id = atomText(entry.id)
+    
+    // The audio is the entry's enclosure link; skip entries without one
+    const enclosure = findAtomLink(entry.link, 'enclosure')
+    if (!enclosure) {
+      notices?.skippedItems.push({ title, ...(id && { guid: id }) })
+      continue
+    }
+    
+    const audioUrl = String(enclosure['@_href'])
+    const guid = id || audioUrl
+    const episodeNumber = entry['itunes:episode'] ? parseInt(entry['itunes:episode'], 10) : undefined
+    const content = atomText(entry.content)
+    const onRewrite = recordRewrites(notices, guid, title)
+    
+    const episode: Episode = {
+      guid,
+      title,
+      slug: generateSlug(title, episodeNumber),
+      description: sanitizeLinks(atomText(entry.summary) || atomText(entry['itunes:summary']) || content, baseUrl, onRewrite),
+      htmlContent: sanitizeLinks(content, baseUrl, onRewrite),
+      audioUrl,
+      audioType: enclosure['@_type'] || 'audio/mpeg',
+      audioLength: parseInt(enclosure['@_length'] || '0', 10),
+      alternateEnclosures: parseAlternateEnclosures(entry['podcast:alternateEnclosure']),
+      soundbites: parseSoundbites(entry['podcast:soundbite']),
+      pubDate: atomText(entry.published) || atomText(entry.updated) || new Date().toISOString(),
+      duration: parseDuration(entry['itunes:duration']),
+      artwork: entry['itunes:image']?.['@_href'] || podcast.artwork,
+      episodeNumber,
+      seasonNumber: entry['itunes:season'] ? parseInt(entry['itunes:season'], 10) : undefined,
+      episodeType: parseEpisodeType(entry['itunes:episodeType']),
+      explicit: parseBoolean(entry['itunes:explicit'] ?? feed['itunes:explicit']),
+      keywords: parseKeywords(entry['itunes:keywords']),
+      link: findAtomLink(entry.link, 'alternate')?.['@_href'],
+    }
+    
+    const episodePodcast2 = parsePodcast2Tags(entry)
+    if (episodePodcast2) {
+      episode.podcast2 = episodePodcast2
+    }
+    
+    episodes.push(episode)
+  }
+  
+  return {
+    feed: { podcast, episodes },
+    links: resolvePageLinks(
+      feedUrl,
+      findAtomLink(feed.link, 'next')?.['@_href'],
+      findAtomLink(feed.link, 'prev-archive')?.['@_href'],
+    ),
+  }
+}
+
+/**
+ * Parse a JSON Feed (https://jsonfeed.org, 1.0 or 1.1). Episodes are items
+ * with an attachment: the first audio or video one, else the first of any type.
+ */
+export function parseJsonFeed(json: string, feedUrl: string, notices?: FeedParseNotices): PodcastFeed {
+  return parseJsonPage(json, feedUrl, notices).feed
+}
+
+/**
+ * Parse one JSON Feed document and its `next_url`
+ */
+function parseJsonPage(json: string, feedUrl: string, notices?: FeedParseNotices): FeedPage {
+  let feed: any
+  try {
+    feed = JSON.parse(json)
+  } catch (error) {
+    throw new Error(`Failed to parse JSON Feed: ${error}`)
+  }
+  
+  if (!feed || typeof feed !== 'object' || !Array.isArray(feed.items)) {
+    throw new Error('Invalid JSON Feed: missing items array')
+  }
+  
+  // 1.1 has an `authors` array; 1.0 a single `author`
+  const authors = Array.isArray(feed.authors) ? feed.authors : asArray(feed.author)
+  
+  const podcast: Podcast = {
+    title: String(feed.title || 'Untitled Podcast'),
+    author: String(authors[0]?.name || 'Unknown'),
+    description: String(feed.description || ''),
+    artwork: feed.icon || feed.favicon || '',
+    categories: [],
+    feedUrl,
+    type: 'episodic',
+    explicit: false,
+    link: feed.home_page_url,
+    language: feed.language,
+  }
+  
+  const hub = asArray(feed.hubs).find((h: any) => String(h?.type).toLowerCase() === 'websub' && h.url)
+  if (hub) {
+    podcast.websub = { hub: String(hub.url), topic: feed.feed_url || feedUrl }
+  }
+  
+  const episodes: Episode[] = []
+  const baseUrl = podcast.link || feedUrl
+  
+  for (const item of feed.items) {
+    if (!item || typeof item !== 'object') continue
+    
+    const title = String(item.title || 'Untitled Episode')
+    const id = item.id !== undefined && item.id !== null ? String(item.id) : ''
+    
+    const attachments = asArray(item.attachments).filter((a: any) => a?.url)
+    const attachment = attachments.find((a: any) => /^(audio|video)\//.test(a.mime_type)) ?? attachments[0]
+    if (!attachment) {
+      notices?.skippedItems.push({ title, ...(id && { guid: id }) })
+      continue
+    }
+    
+    const audioUrl = String(attachment.url)
+    const guid = id || audioUrl
+    const onRewrite = recordRewrites(notices, guid, title)
+    
+    // Other media attachments are alternate versions (JSON Feed 1.1 suggests
+    // attachments with the same title are the same resource in other formats)
+    const alternates = attachments
+      .filter((a: any) => a !== attachment && /^(audio|video)\//.test(a.mime_type))
+      .map((a: any): AlternateEnclosure => ({
+        type: String(a.mime_type),
+        url: String(a.url),
+        length: Number(a.size_in_bytes) || undefined,
+        title: a.title ? String(a.title) : undefined,
+      }))
+    
+    const episode: Episode = {
+      guid,
+      title,
+      slug: generateSlug(title),
+      description: sanitizeLinks(String(item.summary || item.content_text || item.content_html || ''), baseUrl, onRewrite),
+      htmlContent: sanitizeLinks(item.content_html, baseUrl, onRewrite),
+      audioUrl,
+      audioType: attachment.mime_type || 'audio/mpeg',
+      audioLength: Number(attachment.size_in_bytes) || 0,
+      alternateEnclosures: alternates.length > 0 ? alternates : undefined,
+      pubDate: item.date_published || item.date_modified || new Date().toISOString(),
+      duration: parseDuration(attachment.duration_in_seconds),
+      artwork: item.image || podcast.artwork,
+      episodeType: 'full',
+      explicit: false,
+      keywords: Array.isArray(item.tags) && item.tags.length > 0 ? item.tags.map(String) : undefined,
+      link: item.url,
+    }
+    
+    episodes.push(episode)
+  }
+  
   return {
-    podcast,
-    episodes,
+    feed: { podcast, episodes },
+    links: resolvePageLinks(feedUrl, typeof feed.next_url === 'string' ? feed.next_url : undefined, undefined),
   }
 }
@@ -0,0 +1,79 @@
+import type { H3Event } from 'h3'
+import type { RefreshResult } from '../../types/podcast'
+import { getFeedCacheStatus, refreshPodcastFeed } from './feed-cache'
+import { safeEqual, verifySignature } from './signature'
+import { syncTranscripts } from './transcript-index'
+
+/**
+ * Reject a refresh request that doesn't carry the shared secret from
+ * runtime config, either as `Authorization: Bearer <secret>` or as an
+ * HMAC of the request body in `X-Hub-Signature-256: sha256=<hex>`.
+ *
+ * Throws a 403 H3 error when no secret is configured (refreshing is
+ * disabled) and a 401 when the request isn't authorized.
+ */
+export function assertRefreshAuthorized(event: H3Event, body: string | undefined) {
+  const { refreshSecret } = useRuntimeConfig(event).podcast
+
+  if (!refreshSecret) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Refresh disabled',
+      message: 'Set NUXT_PODCAST_REFRESH_SECRET to enable feed refreshes',
+    })
+  }
+
+  const authorization = getHeader(event, 'authorization')
+  if (authorization?.startsWith('Bearer ') && safeEqual(authorization.slice(7).trim(), refreshSecret)) {
+    return
+  }
+
+  const signature = getHeader(event, 'x-hub-signature-256')
+  if (signature && verifySignature(refreshSecret, body ?? '', signature)) {
+    return
+  }
+
+  throw createError({
+    statusCode: 401,
+    statusMessage: 'Unauthorized',
+    message: 'Send the refresh secret as a bearer token or sign the body with it',
+  })
+}
+
+/**
+ * Revalidate a feed now and update the search index's transcripts.
+ * Shared by the refresh endpoint and WebSub pushes.
+ *
+ * Only episodes with a new or changed transcript URL are fetched and re-indexed.
+ */
+export async function refreshFeed(feedUrl: string): Promise<RefreshResult> {
+  const feed = await refreshPodcastFeed(feedUrl)
+
+  // A 304 updates checkedAt but not fetchedAt, and records no changes
+  const status = getFeedCacheStatus(feedUrl)
+  const modified = !!status && status.fetchedAt === status.checkedAt
+  const changes = status?.changes ?? { added: [], changed: [], removed: [] }
+
+  const summary = modified
+    ? `${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed`
+    : 'not modified'
+  console.log(`Podcast feed refreshed successfully: ${feed.podcast.title} (${feed.episodes.length} episodes, ${summary})`)
+
+  // Index new or changed transcripts for search
+  try {
+    const reindexed = await syncTranscripts(feedUrl, feed, { retryFailed: true })
+    if (reindexed > 0) {
+      console.log(`Indexed ${reindexed} new or changed transcript(s) for search`)
+    }
+  } catch (error) {
+    console.warn('Failed to update transcript index:', error)
+    // Continue anyway - search falls back to the existing index
+  }
+
+  return {
+    title: feed.podcast.title,
+    episodeCount: feed.episodes.length,
+    modified,
+    ...changes,
+  }
+}
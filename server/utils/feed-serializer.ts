@@ -0,0 +1,287 @@
+import type {
+  AlternateEnclosure,
+  Episode,
+  LiveItem,
+  Podcast,
+  Podcast2Tags,
+  PodcastFeed,
+  Soundbite,
+  ValueBlock,
+  ValueRecipient,
+} from '../../types/podcast'
+
+/**
+ * Escape text for XML content and double-quoted attributes.
+ * Also drops characters that are not allowed anywhere in XML 1.0.
+ */
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Build an element, or an empty string when the value is missing
+ */
+function element(name: string, value: unknown, indent: string): string {
+  if (value === undefined || value === null || value === '') return ''
+  return `${indent}<${name}>${escapeXml(value)}</${name}>\n`
+}
+
+/**
+ * Render attributes, skipping missing values
+ */
+function attributes(attrs: Record<string, unknown>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('')
+}
+
+/**
+ * Format seconds as HH:MM:SS for itunes:duration
+ */
+function formatDuration(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  return [hrs, mins, secs].map(n => String(n).padStart(2, '0')).join(':')
+}
+
+/**
+ * Serialize Podcasting 2.0 tags (shared by channel and items)
+ */
+function serializePodcast2Tags(tags: Podcast2Tags | undefined, indent: string): string {
+  if (!tags) return ''
+  let xml = ''
+
+  if (tags.guid) {
+    xml += element('podcast:guid', tags.guid, indent)
+  }
+  if (tags.transcript) {
+    const { url, type, language } = tags.transcript
+    xml += `${indent}<podcast:transcript${attributes({ url, type, language })} />\n`
+  }
+  if (tags.chapters) {
+    const { url, type } = tags.chapters
+    xml += `${indent}<podcast:chapters${attributes({ url, type })} />\n`
+  }
+  for (const person of tags.persons ?? []) {
+    const { role, group, img, href } = person
+    xml += `${indent}<podcast:person${attributes({ role, group, img, href })}>${escapeXml(person.name)}</podcast:person>\n`
+  }
+  for (const funding of tags.funding ?? []) {
+    xml += `${indent}<podcast:funding${attributes({ url: funding.url })}>${escapeXml(funding.text)}</podcast:funding>\n`
+  }
+  if (tags.value) {
+    xml += serializeValueBlock(tags.value, indent)
+  }
+  if (tags.podroll) {
+    xml += `${indent}<podcast:podroll>\n`
+    for (const { feedGuid, feedUrl, itemGuid, medium } of tags.podroll) {
+      xml += `${indent}  <podcast:remoteItem${attributes({ feedGuid, feedUrl, itemGuid, medium })} />\n`
+    }
+    xml += `${indent}</podcast:podroll>\n`
+  }
+
+  return xml
+}
+
+/**
+ * Serialize a podcast:valueRecipient
+ */
+function serializeValueRecipient(recipient: ValueRecipient, indent: string): string {
+  const { name, type, address, split, customKey, customValue } = recipient
+  return `${indent}<podcast:valueRecipient${attributes({
+    name,
+    type,
+    address,
+    split,
+    customKey,
+    customValue,
+    fee: recipient.fee ? 'true' : undefined,
+  })} />\n`
+}
+
+/**
+ * Serialize a podcast:value block with its recipients and time splits
+ */
+function serializeValueBlock(value: ValueBlock, indent: string): string {
+  let xml = `${indent}<podcast:value${attributes({
+    type: value.type,
+    method: value.method,
+    // Decimal BTC, as the namespace shows it (not 5e-8)
+    suggested: value.suggested?.toFixed(11),
+  })}>\n`
+  for (const recipient of value.recipients) {
+    xml += serializeValueRecipient(recipient, `${indent}  `)
+  }
+  for (const split of value.timeSplits ?? []) {
+    const { startTime, duration, remotePercentage, remoteStartTime } = split
+    xml += `${indent}  <podcast:valueTimeSplit${attributes({ startTime, duration, remoteStartTime, remotePercentage })}>\n`
+    for (const recipient of split.recipients ?? []) {
+      xml += serializeValueRecipient(recipient, `${indent}    `)
+    }
+    if (split.remoteItem) {
+      const { feedGuid, itemGuid, feedUrl, medium } = split.remoteItem
+      xml += `${indent}    <podcast:remoteItem${attributes({ feedGuid, itemGuid, feedUrl, medium })} />\n`
+    }
+    xml += `${indent}  </podcast:valueTimeSplit>\n`
+  }
+  xml += `${indent}</podcast:value>\n`
+  return xml
+}
+
+/**
+ * Serialize a podcast:alternateEnclosure with its source and integrity
+ */
+function serializeAlternateEnclosure(enclosure: AlternateEnclosure, indent: string): string {
+  const { type, length, bitrate, height, lang, title, codecs, integrity } = enclosure
+  let xml = `${indent}<podcast:alternateEnclosure${attributes({
+    type,
+    length,
+    bitrate,
+    height,
+    lang,
+    title,
+    codecs,
+    default: enclosure.default ? 'true' : undefined,
+  })}>\n`
+  xml += `${indent}  <podcast:source${attributes({ uri: enclosure.url })} />\n`
+  if (integrity) {
+    xml += `${indent}  <podcast:integrity${attributes({ type: integrity.type, value: integrity.value })} />\n`
+  }
+  xml += `${indent}</podcast:alternateEnclosure>\n`
+  return xml
+}
+
+/**
+ * Serialize a <podcast:soundbite>, with its title as the element text
+ */
+function serializeSoundbite(soundbite: Soundbite, indent: string): string {
+  const attrs = attributes({ startTime: soundbite.startTime, duration: soundbite.duration })
+  return soundbite.title
+    ? `${indent}<podcast:soundbite${attrs}>${escapeXml(soundbite.title)}</podcast:soundbite>\n`
+    : `${indent}<podcast:soundbite${attrs} />\n`
+}
+
+/**
+ * Serialize one episode as an RSS <item>
+ */
+function serializeEpisode(episode: Episode, podcast: Podcast): string {
+  const indent = '      '
+  let xml = '    <item>\n'
+
+  xml += element('title', episode.title, indent)
+  xml += element('description', episode.description, indent)
+  xml += element('content:encoded', episode.htmlContent, indent)
+  xml += element('link', episode.link, indent)
+  xml += `${indent}<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>\n`
+  xml += element('pubDate', episode.pubDate, indent)
+  xml += `${indent}<enclosure${attributes({
+    url: episode.audioUrl,
+    type: episode.audioType,
+    length: episode.audioLength || 0,
+  })} />\n`
+  for (const enclosure of episode.alternateEnclosures ?? []) {
+    xml += serializeAlternateEnclosure(enclosure, indent)
+  }
+  for (const soundbite of episode.soundbites ?? []) {
+    xml += serializeSoundbite(soundbite, indent)
+  }
+  xml += element('itunes:duration', formatDuration(episode.duration), indent)
+  if (episode.artwork && episode.artwork !== podcast.artwork) {
+    xml += `${indent}<itunes:image${attributes({ href: episode.artwork })} />\n`
+  }
+  xml += element('itunes:episode', episode.episodeNumber, indent)
+  xml += element('itunes:season', episode.seasonNumber, indent)
+  xml += element('itunes:episodeType', episode.episodeType, indent)
+  xml += element('itunes:explicit', episode.explicit ? 'true' : 'false', indent)
+  xml += element('itunes:keywords', episode.keywords?.join(', '), indent)
+  xml += serializePodcast2Tags(episode.podcast2, indent)
+
+  xml += '    </item>\n'
+  return xml
+}
+
+/**
+ * Serialize one live stream as a <podcast:liveItem>
+ */
+function serializeLiveItem(liveItem: LiveItem, podcast: Podcast): string {
+  const indent = '      '
+  let xml = `    <podcast:liveItem${attributes({ status: liveItem.status, start: liveItem.start, end: liveItem.end })}>\n`
+
+  xml += element('title', liveItem.title, indent)
+  xml += element('description', liveItem.description, indent)
+  xml += element('link', liveItem.link, indent)
+  xml += `${indent}<guid isPermaLink="false">${escapeXml(liveItem.guid)}</guid>\n`
+  xml += `${indent}<enclosure${attributes({ url: liveItem.streamUrl, type: liveItem.streamType, length: 0 })} />\n`
+  if (liveItem.artwork && liveItem.artwork !== podcast.artwork) {
+    xml += `${indent}<itunes:image${attributes({ href: liveItem.artwork })} />\n`
+  }
+  for (const link of liveItem.contentLinks ?? []) {
+    xml += `${indent}<podcast:contentLink${attributes({ href: link.href })}>${escapeXml(link.text)}</podcast:contentLink>\n`
+  }
+  if (liveItem.chat) {
+    const { server, protocol, accountId, space, embedUrl } = liveItem.chat
+    xml += `${indent}<podcast:chat${attributes({ server, protocol, accountId, space, embedUrl })} />\n`
+  }
+
+  xml += '    </podcast:liveItem>\n'
+  return xml
+}
+
+/**
+ * Serialize a parsed feed back to RSS 2.0 with the itunes, content,
+ * and podcast namespaces. Everything `parsePodcastFeed` reads is written
+ * back, so parsing the output yields the same feed.
+ *
+ * `selfUrl` is the URL the output is served from, advertised with an
+ * atom:link rel="self" as the RSS best practices recommend.
+ */
+export function serializePodcastFeed(feed: PodcastFeed, selfUrl?: string): string {
+  const { podcast, episodes, liveItems } = feed
+  const indent = '    '
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+  xml += '<rss version="2.0"'
+    + ' xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"'
+    + ' xmlns:content="http://purl.org/rss/1.0/modules/content/"'
+    + ' xmlns:podcast="https://podcastindex.org/namespace/1.0"'
+    + ' xmlns:atom="http://www.w3.org/2005/Atom">\n'
+  xml += '  <channel>\n'
+
+  xml += element('title', podcast.title, indent)
+  xml += element('description', podcast.description, indent)
+  xml += element('link', podcast.link, indent)
+  if (selfUrl) {
+    xml += `${indent}<atom:link${attributes({ href: selfUrl, rel: 'self', type: 'application/rss+xml' })} />\n`
+  }
+  xml += element('language', podcast.language, indent)
+  xml += element('copyright', podcast.copyright, indent)
+  xml += element('itunes:author', podcast.author, indent)
+  if (podcast.artwork) {
+    xml += `${indent}<itunes:image${attributes({ href: podcast.artwork })} />\n`
+  }
+  for (const category of podcast.categories) {
+    xml += `${indent}<itunes:category${attributes({ text: category })} />\n`
+  }
+  xml += element('itunes:type', podcast.type, indent)
+  xml += element('itunes:explicit', podcast.explicit ? 'true' : 'false', indent)
+  xml += serializePodcast2Tags(podcast.podcast2, indent)
+
+  for (const liveItem of liveItems ?? []) {
+    xml += serializeLiveItem(liveItem, podcast)
+  }
+  for (const episode of episodes) {
+    xml += serializeEpisode(episode, podcast)
+  }
+
+  xml += '  </channel>\n'
+  xml += '</rss>\n'
+  return xml
+}
@@ -1,16 +1,47 @@
 import type { H3Event } from 'h3'
+import type { ShowConfig } from '../../types/podcast'
 
 /**
- * Resolve and validate the podcast feed URL.
- * Priority: FEED_URL env var > app.config.ts podcast.feedUrl
- * Throws appropriate H3 errors if URL is missing or invalid.
+ * Shows configured for network mode in app.config.ts `podcast.shows`.
+ * Empty for a single-show site.
  */
-export function resolveFeedUrl(event: H3Event): string {
-  // Environment variable takes priority (useful for Cloudflare Pages, Vercel, etc.)
-  const envFeedUrl = process.env.FEED_URL
+export function getShows(event: H3Event): ShowConfig[] {
   const appConfig = useAppConfig(event)
-  const feedUrl = envFeedUrl || appConfig.podcast?.feedUrl
+  const shows = (appConfig.podcast as { shows?: ShowConfig[] } | undefined)?.shows
+  return Array.isArray(shows) ? shows.filter(show => show?.id && show?.feedUrl) : []
+}
+
+/**
+ * Show id requested by the client, from the `?show=` query parameter
+ * or a `:show` route parameter. Undefined for single-show requests.
+ */
+export function resolveShowId(event: H3Event): string | undefined {
+  const id = getQuery(event).show ?? getRouterParam(event, 'show')
+  return typeof id === 'string' && id ? id : undefined
+}
+
+/**
+ * Look up a configured show by id.
+ * Throws a 404 H3 error if no show has that id.
+ */
+export function findShow(event: H3Event, showId: string): ShowConfig {
+  const show = getShows(event).find(s => s.id === showId)
+
+  if (!show) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Show not found',
+      message: `No show configured with id: ${showId}`,
+    })
+  }
 
+  return show
+}
+
+/**
+ * Validate that a configured feed URL is an HTTP(S) URL
+ */
+function validateFeedUrl(feedUrl: string | undefined): string {
   if (!feedUrl) {
     throw createError({
       statusCode: 500,
@@ -30,6 +61,24 @@ export function resolveFeedUrl(event: H3Event): string {
   return feedUrl
 }
 
+/**
+ * Resolve and validate the podcast feed URL.
+ * Priority: requested show (`showId`, defaulting to ?show=<id>) > FEED_URL env var >
+ * app.config.ts podcast.feedUrl > first configured show.
+ * Throws appropriate H3 errors if URL is missing or invalid.
+ */
+export function resolveFeedUrl(event: H3Event, showId = resolveShowId(event)): string {
+  if (showId) {
+    return validateFeedUrl(findShow(event, showId).feedUrl)
+  }
+
+  // Environment variable takes priority (useful for Cloudflare Pages, Vercel, etc.)
+  const envFeedUrl = process.env.FEED_URL
+  const appConfig = useAppConfig(event)
+
+  return validateFeedUrl(envFeedUrl || appConfig.podcast?.feedUrl || getShows(event)[0]?.feedUrl)
+}
+
 /**
  * Wrap feed fetch/parse errors in appropriate H3 error responses.
  */
@@ -47,7 +96,7 @@ export function handleFeedError(error: unknown): never {
       statusMessage: 'Feed unavailable',
       message: `Unable to fetch RSS feed: ${message}`,
     })
-  } else if (message.includes('Failed to parse RSS XML')) {
+  } else if (message.includes('Failed to parse')) {
     throw createError({
       statusCode: 502,
       statusMessage: 'Invalid feed format',
@@ -0,0 +1,258 @@
+import type { Episode, FeedValidationFinding, FeedValidationReport, PodcastFeed } from '../../types/podcast'
+import { fetchFeedPage, fetchFeedXml, followFeedPages, parseFeedPage } from './feed-parser'
+import type { FeedParseNotices } from './feed-parser'
+import { applyFeedOverrides, getFeedOverrides } from './feed-overrides'
+import { assignUniqueSlugs } from './slug'
+import { runWithConcurrency } from './transcript-index'
+
+/**
+ * Artwork URLs checked in parallel
+ */
+const ARTWORK_CONCURRENCY = 6
+
+/**
+ * Per-artwork request timeout in milliseconds
+ */
+const ARTWORK_TIMEOUT = 10_000
+
+/**
+ * Severity order for sorting findings, most severe first
+ */
+const SEVERITY_ORDER: Record<FeedValidationFinding['severity'], number> = { error: 0, warning: 1, info: 2 }
+
+/**
+ * Episode reference attached to a finding
+ */
+function episodeRef(episode: Pick<Episode, 'guid' | 'title' | 'slug'>): FeedValidationFinding['episode'] {
+  return { guid: String(episode.guid), title: episode.title, slug: episode.slug }
+}
+
+/**
+ * Whether a string is an absolute http(s) URL
+ */
+function isHttpUrl(value: string | undefined): boolean {
+  if (!value) return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Report every episode after the first that shares a key with an earlier one
+ */
+function findDuplicates(
+  episodes: Episode[],
+  key: (episode: Episode) => string,
+  check: string,
+  describe: (value: string, first: Episode) => string,
+): FeedValidationFinding[] {
+  const seen = new Map<string, Episode>()
+  const findings: FeedValidationFinding[] = []
+
+  for (const episode of episodes) {
+    const value = key(episode)
+    const first = seen.get(value)
+    if (first) {
+      findings.push({ check, severity: 'error', message: describe(value, first), episode: episodeRef(episode) })
+    } else {
+      seen.set(value, episode)
+    }
+  }
+
+  return findings
+}
+
+/**
+ * Checks that only need the parsed feed and what the parser reported:
+ * skipped items, duplicate GUIDs and slugs, zero durations, a missing
+ * show-level podcast:guid, invalid transcript/chapter URLs, and rewritten links.
+ */
+export function findFeedIssues(feed: PodcastFeed, notices: FeedParseNotices): FeedValidationFinding[] {
+  const findings: FeedValidationFinding[] = []
+  const { podcast, episodes } = feed
+
+  for (const item of notices.skippedItems) {
+    findings.push({
+      check: 'missing-enclosure',
+      severity: 'warning',
+      message: 'Item has no enclosure URL, so it was skipped and doesn\'t appear on the site',
+      episode: item,
+    })
+  }
+
+  findings.push(...findDuplicates(
+    episodes,
+    episode => String(episode.guid),
+    'duplicate-guid',
+    (guid, first) => `GUID "${guid}" is also used by "${first.title}"; players and progress tracking will mix them up`,
+  ))
+
+  // Colliding slugs are served with a numeric suffix, as the site does
+  const unique = assignUniqueSlugs(episodes)
+  unique.forEach((episode, index) => {
+    const generated = episodes[index]!.slug
+    if (episode.slug === generated) return
+    const owner = unique.find(other => other.slug === generated)!
+    findings.push({
+      check: 'duplicate-slug',
+      severity: 'warning',
+      message: `Slug "${generated}" is also generated for "${owner.title}", so this episode is served as "${episode.slug}"`,
+      episode: episodeRef(episode),
+    })
+  })
+
+  for (const episode of episodes) {
+    if (episode.duration === 0) {
+      findings.push({
+        check: 'zero-duration',
+        severity: 'warning',
+        message: 'Duration is 0: itunes:duration is missing or not in seconds, MM:SS, or HH:MM:SS',
+        episode: episodeRef(episode),
+      })
+    }
+
+    const transcript = episode.podcast2?.transcript
+    if (transcript && !isHttpUrl(transcript.url)) {
+      findings.push({
+        check: 'invalid-transcript-url',
+        severity: 'error',
+        message: `podcast:transcript URL "${transcript.url}" is not an absolute http(s) URL`,
+        episode: episodeRef(episode),
+      })
+    }
+
+    const chapters = episode.podcast2?.chapters
+    if (chapters && !isHttpUrl(chapters.url)) {
+      findings.push({
+        check: 'invalid-chapters-url',
+        severity: 'error',
+        message: `podcast:chapters URL "${chapters.url}" is not an absolute http(s) URL`,
+        episode: episodeRef(episode),
+      })
+    }
+  }
+
+  if (!podcast.podcast2?.guid) {
+    findings.push({
+      check: 'missing-podcast-guid',
+      severity: 'warning',
+      message: 'The channel has no podcast:guid, so apps can\'t follow the show if its feed URL changes',
+    })
+  }
+
+  const slugs = new Map(episodes.map(episode => [String(episode.guid), episode.slug]))
+  for (const link of notices.rewrittenLinks) {
+    findings.push({
+      check: 'rewritten-link',
+      severity: 'info',
+      message: `Show-notes link "${link.from}" was rewritten to "${link.to}"`,
+      episode: { guid: String(link.guid), title: link.title, slug: slugs.get(String(link.guid)) },
+    })
+  }
+
+  return findings
+}
+
+/**
+ * Why an artwork URL can't be loaded, or null if it can
+ */
+async function artworkProblem(url: string): Promise<string | null> {
+  if (!isHttpUrl(url)) return 'not an absolute http(s) URL'
+
+  try {
+    const headers = { 'User-Agent': 'nuxt-podcast-theme/0.1.0' }
+    let response = await fetch(url, { method: 'HEAD', headers, signal: AbortSignal.timeout(ARTWORK_TIMEOUT) })
+
+    // Some image hosts don't implement HEAD; ask for the first byte instead
+    if (response.status === 403 || response.status === 405 || response.status === 501) {
+      response = await fetch(url, {
+        headers: { ...headers, Range: 'bytes=0-0' },
+        signal: AbortSignal.timeout(ARTWORK_TIMEOUT),
+      })
+      await response.body?.cancel()
+    }
+
+    return response.ok ? null : `HTTP ${response.status}`
+  } catch (error) {
+    return error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : 'request failed'
+  }
+}
+
+/**
+ * Request the show artwork and every distinct episode artwork.
+ * Unreachable show artwork is an error; episode artwork a warning.
+ */
+export async function findUnreachableArtwork(feed: PodcastFeed): Promise<FeedValidationFinding[]> {
+  const urls = new Map<string, Episode[]>()
+  for (const episode of feed.episodes) {
+    if (!episode.artwork || episode.artwork === feed.podcast.artwork) continue
+    urls.set(episode.artwork, [...(urls.get(episode.artwork) ?? []), episode])
+  }
+
+  const findings: FeedValidationFinding[] = []
+
+  const showProblem = feed.podcast.artwork
+    ? await artworkProblem(feed.podcast.artwork)
+    : 'the channel has no itunes:image or image'
+  if (showProblem) {
+    findings.push({
+      check: 'unreachable-artwork',
+      severity: 'error',
+      message: `Show artwork can't be loaded (${showProblem})`,
+    })
+  }
+
+  await runWithConcurrency([...urls.keys()], ARTWORK_CONCURRENCY, async (url) => {
+    const problem = await artworkProblem(url)
+    if (!problem) return
+    for (const episode of urls.get(url)!) {
+      findings.push({
+        check: 'unreachable-artwork',
+        severity: 'warning',
+        message: `Episode artwork ${url} can't be loaded (${problem})`,
+        episode: episodeRef(episode),
+      })
+    }
+  })
+
+  return findings
+}
+
+/**
+ * Fetch a feed fresh, with all its pages, parse it as the site does
+ * (including overrides), and run every check. Findings are sorted most severe first.
+ */
+export async function validateFeed(feedUrl: string): Promise<FeedValidationReport> {
+  const result = await fetchFeedXml(feedUrl)
+  if (result.notModified) {
+    throw new Error(`Failed to fetch RSS feed from ${feedUrl}: unexpected 304 response`)
+  }
+
+  const notices: FeedParseNotices = { skippedItems: [], rewrittenLinks: [] }
+  const parsed = await followFeedPages(
+    feedUrl,
+    parseFeedPage(result.xml, feedUrl, notices),
+    pageUrl => fetchFeedPage(pageUrl, notices),
+  )
+  const feed = applyFeedOverrides(parsed, getFeedOverrides(feedUrl))
+
+  const findings = [
+    ...findFeedIssues(feed, notices),
+    ...await findUnreachableArtwork(feed),
+  ].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+
+  const counts = { error: 0, warning: 0, info: 0 }
+  for (const finding of findings) counts[finding.severity]++
+
+  return {
+    feedUrl,
+    title: feed.podcast.title,
+    episodeCount: feed.episodes.length,
+    checkedAt: new Date().toISOString(),
+    counts,
+    findings,
+  }
+}
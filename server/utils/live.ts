@@ -0,0 +1,32 @@
+import type { EpisodeSummary, LiveItem, PodcastFeed } from '../../types/podcast'
+
+/** Order of live items by status: streaming now, then upcoming, then over */
+const STATUS_ORDER: Record<LiveItem['status'], number> = { live: 0, pending: 1, ended: 2 }
+
+/**
+ * Live items worth showing: current and upcoming streams, soonest first,
+ * then ended ones whose recording the feed has published as a regular
+ * episode (matched by GUID), with that episode attached so the player can
+ * switch over to it. Ended streams without a recording are left out.
+ *
+ * A stream whose recording is already published counts as ended, even if
+ * the feed hasn't updated its status yet.
+ */
+export function currentLiveItems(feed: PodcastFeed, showId?: string): LiveItem[] {
+  const episodesByGuid = new Map(feed.episodes.map(episode => [episode.guid, episode]))
+
+  return (feed.liveItems ?? [])
+    .flatMap((liveItem): LiveItem[] => {
+      const published = episodesByGuid.get(liveItem.guid)
+      if (published) {
+        const { htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary } = published
+        const episode: EpisodeSummary = { ...summary, showId }
+        return [{ ...liveItem, status: 'ended', episode }]
+      }
+      return liveItem.status === 'ended' ? [] : [liveItem]
+    })
+    .sort((a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+      || new Date(a.start).getTime() - new Date(b.start).getTime(),
+    )
+}
@@ -0,0 +1,50 @@
+import type { H3Event } from 'h3'
+import type { Episode, EpisodeSummary, PodcastFeed, ShowConfig } from '../../types/podcast'
+import { getCachedPodcastFeed } from './feed-cache'
+import { getShows } from './feed-url'
+
+/**
+ * A configured show together with its parsed feed
+ */
+export interface NetworkFeed {
+  show: ShowConfig
+  feed: PodcastFeed
+}
+
+/**
+ * Fetch every show's feed in parallel (each with the usual caching).
+ * A show whose feed fails to load is logged and left out, so one broken
+ * feed doesn't take down the whole network page.
+ */
+export async function getNetworkFeeds(event: H3Event): Promise<NetworkFeed[]> {
+  const shows = getShows(event)
+
+  if (shows.length === 0) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Network not configured',
+      message: 'podcast.shows must be set in app.config.ts',
+    })
+  }
+
+  const results = await Promise.allSettled(shows.map(show => getCachedPodcastFeed(show.feedUrl)))
+
+  const feeds: NetworkFeed[] = []
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      feeds.push({ show: shows[i]!, feed: result.value })
+    } else {
+      console.warn(`Failed to load feed for show "${shows[i]!.id}":`, result.reason)
+    }
+  })
+
+  return feeds
+}
+
+/**
+ * Strip heavy fields from an episode and tag it with its show
+ */
+export function toNetworkSummary(episode: Episode, showId: string): EpisodeSummary {
+  const { htmlContent, podcast2, keywords, link, explicit: _explicit, ...summary } = episode
+  return { ...summary, showId }
+}
@@ -0,0 +1,128 @@
+/**
+ * Glyph outlines for rendering text in Open Graph images without a canvas
+ * or native font rasterizer. Derived from DejaVu Sans Bold (Bitstream Vera
+ * license; DejaVu changes are public domain), scaled to 512 units per em.
+ *
+ * Covers printable ASCII plus common typographic punctuation. Each glyph is
+ * its advance width and an outline path using M/L/Q/Z commands in font
+ * units, y pointing up from the baseline.
+ */
+
+export interface OgFont {
+  unitsPerEm: number
+  ascender: number
+  descender: number
+  glyphs: Record<string, [advance: number, path: string]>
+}
+
+export const OG_FONT: OgFont = {
+  unitsPerEm: 512,
+  ascender: 475,
+  descender: -121,
+  glyphs: {
+    ' ': [178, ''],
+    '!': [234, 'M72 373L162 373L162 230L149 126L84 126L72 230L72 373ZM72 89L162 89L162 0L72 0L72 89Z'],
+    '"': [267, 'M218 373L218 234L159 234L159 373L218 373ZM108 373L108 234L49 234L49 373L108 373Z'],
+    '#': [429, 'M228 368L204 271L270 271L294 368L349 368L325 271L394 271L394 218L312 218L294 150L366 150L366 96L282 96L258 0L202 0L226 96L160 96L136 0L80 0L104 96L35 96L35 150L117 150L134 218L64 218L64 271L148 271L172 368L228 368ZM256 218L190 218L172 150L238 150L256 218Z'],
+    '$': [356, 'M199 -75L158 -75L158 0Q127 1 98 7Q68 13 40 23L40 88Q69 74 99 66Q128 58 158 57L158 135L150 136Q90 147 65 169Q40 192 40 234Q40 279 71 304Q101 329 158 331L158 389L199 389L199 332Q224 330 249 326Q274 322 299 315L299 252Q274 262 249 268Q224 274 199 275L199 203L207 202Q270 192 296 168Q322 145 322 99Q322 53 291 29Q260 4 199 0L199 -75ZM158 209L158 274Q140 273 130 265Q119 256 119 243Q119 228 129 220Q139 211 158 209ZM199 128L199 58Q220 58 231 66Q242 75 242 91Q242 108 232 117Q222 125 199 128Z'],
+    '%': [513, 'M397 154Q379 154 369 139Q360 123 360 95Q360 66 369 51Q379 35 397 35Q415 35 424 51Q434 66 434 95Q434 123 424 139Q414 154 397 154ZM397 196Q443 196 470 169Q497 142 497 95Q497 48 470 20Q443 -7 397 -7Q350 -7 323 20Q296 48 296 95Q296 142 323 169Q350 196 397 196ZM168 -7L112 -7L346 380L401 380L168 -7ZM116 380Q163 380 189 353Q216 326 216 278Q216 231 189 204Q163 177 116 177Q70 177 43 204Q16 231 16 278Q16 326 43 353Q70 380 116 380ZM116 338Q98 338 88 322Q79 307 79 278Q79 250 88 234Q98 218 116 218Q134 218 144 234Q154 250 154 278Q154 307 144 322Q134 338 116 338Z'],
+    '&': [446, 'M200 248L302 135Q315 153 322 174Q329 196 330 224L408 224Q404 178 390 143Q376 107 352 80L425 0L319 0L294 27Q268 10 239 1Q210 -7 178 -7Q112 -7 71 27Q31 62 31 117Q31 153 49 181Q66 210 107 236Q96 249 92 262Q86 276 86 290Q86 331 118 356Q150 380 203 380Q226 380 250 376Q275 373 302 366L302 296Q278 308 257 314Q236 320 216 320Q197 320 186 312Q176 305 176 291Q176 283 182 272Q188 261 200 248ZM150 186Q134 174 126 159Q117 144 117 126Q117 98 138 78Q160 57 190 57Q206 57 221 62Q235 68 248 78L150 186Z'],
+    "'": [157, 'M108 373L108 234L49 234L49 373L108 373Z'],
+    '(': [234, 'M193 -68L119 -68Q80 -6 62 50Q44 106 44 160Q44 215 62 271Q81 327 119 388L193 388Q161 329 145 273Q129 216 129 161Q129 106 145 49Q161 -8 193 -68Z'],
+    ')': [234, 'M41 -68Q73 -8 89 49Q105 106 105 161Q105 216 89 273Q73 329 41 388L115 388Q153 327 172 271Q190 215 190 160Q190 106 172 50Q154 -6 115 -68L41 -68Z'],
+    '*': [268, 'M258 304L175 261L258 218L238 182L155 228L155 142L113 142L113 228L29 182L10 218L94 261L10 304L29 340L113 294L113 380L155 380L155 294L238 340L258 304Z'],
+    '+': [429, 'M244 321L244 190L375 190L375 131L244 131L244 0L185 0L185 131L54 131L54 190L185 190L185 321L244 321Z'],
+    ',': [194, 'M52 97L142 97L142 20L80 -73L27 -73L52 20L52 97Z'],
+    '-': [212, 'M28 184L185 184L185 111L28 111L28 184Z'],
+    '.': [194, 'M52 97L142 97L142 0L52 0L52 97Z'],
+    '/': [187, 'M132 373L187 373L55 -48L0 -48L132 373Z'],
+    '0': [356, 'M236 187Q236 257 222 286Q209 314 178 314Q147 314 134 286Q121 257 121 187Q121 116 134 87Q147 58 178 58Q209 58 222 87Q236 116 236 187ZM332 186Q332 94 292 43Q252 -7 178 -7Q104 -7 64 43Q24 94 24 186Q24 279 64 330Q104 380 178 380Q252 380 292 330Q332 279 332 186Z'],
+    '1': [356, 'M60 66L145 66L145 308L58 290L58 355L144 373L236 373L236 66L321 66L321 0L60 0L60 66Z'],
+    '2': [356, 'M148 71L312 71L312 0L40 0L40 71L177 191Q195 208 204 223Q212 239 212 256Q212 282 195 298Q177 314 148 314Q126 314 99 305Q72 295 42 276L42 358Q74 369 106 374Q138 380 168 380Q235 380 272 350Q309 321 309 268Q309 238 294 211Q278 185 227 141L148 71Z'],
+    '3': [356, 'M238 201Q276 192 296 167Q316 143 316 106Q316 50 273 22Q230 -7 149 -7Q120 -7 91 -3Q62 2 34 11L34 86Q61 72 88 65Q114 58 140 58Q178 58 199 72Q219 85 219 110Q219 135 198 148Q178 161 137 161L98 161L98 223L139 223Q175 223 193 235Q210 246 210 269Q210 291 193 302Q176 314 144 314Q121 314 98 309Q74 304 50 294L50 364Q79 372 107 376Q135 380 162 380Q234 380 271 356Q307 332 307 284Q307 252 290 231Q272 210 238 201Z'],
+    '4': [356, 'M188 294L83 138L188 138L188 294ZM172 373L280 373L280 138L333 138L333 68L280 68L280 0L188 0L188 68L23 68L23 150L172 373Z'],
+    '5': [356, 'M54 373L294 373L294 302L131 302L131 245Q142 248 153 249Q164 251 176 251Q244 251 282 217Q320 183 320 122Q320 61 279 27Q238 -7 164 -7Q132 -7 101 -1Q70 5 40 18L40 93Q70 76 97 67Q125 58 149 58Q184 58 204 75Q224 92 224 122Q224 151 204 168Q184 185 149 185Q128 185 105 180Q81 174 54 163L54 373Z'],
+    '6': [356, 'M185 184Q160 184 147 168Q135 152 135 119Q135 86 147 70Q160 53 185 53Q211 53 223 70Q236 86 236 119Q236 152 223 168Q211 184 185 184ZM304 364L304 294Q280 306 260 311Q238 316 218 316Q176 316 152 293Q128 269 124 222Q140 234 159 240Q178 246 201 246Q258 246 294 213Q329 179 329 125Q329 65 290 29Q250 -7 184 -7Q112 -7 72 42Q32 91 32 181Q32 274 78 327Q125 380 206 380Q232 380 256 376Q280 372 304 364Z'],
+    '7': [356, 'M34 373L316 373L316 319L170 0L76 0L214 302L34 302L34 373Z'],
+    '8': [356, 'M178 167Q151 167 137 152Q122 138 122 110Q122 82 137 68Q151 53 178 53Q205 53 219 68Q234 82 234 110Q234 138 219 152Q205 167 178 167ZM108 199Q74 209 57 230Q40 252 40 283Q40 330 75 355Q110 380 178 380Q246 380 281 355Q316 331 316 283Q316 252 299 230Q282 209 248 199Q286 188 305 165Q324 141 324 105Q324 50 288 21Q251 -7 178 -7Q106 -7 68 21Q31 50 31 105Q31 141 51 165Q70 188 108 199ZM130 274Q130 251 143 239Q155 227 178 227Q201 227 213 239Q225 251 225 274Q225 296 213 308Q201 320 178 320Q155 320 143 308Q130 296 130 274Z'],
+    '9': [356, 'M51 8L51 77Q74 66 95 61Q116 56 137 56Q180 56 204 80Q228 104 232 150Q215 138 196 132Q176 126 154 126Q97 126 62 159Q26 192 26 247Q26 307 66 343Q105 380 170 380Q244 380 284 330Q324 281 324 191Q324 98 277 46Q230 -7 148 -7Q122 -7 98 -3Q74 0 51 8ZM170 188Q195 188 208 204Q221 221 221 254Q221 286 208 302Q195 319 170 319Q145 319 132 302Q119 286 119 254Q119 221 132 204Q145 188 170 188Z'],
+    ':': [205, 'M57 280L148 280L148 183L57 183L57 280ZM57 97L148 97L148 0L57 0L57 97Z'],
+    ';': [205, 'M57 97L148 97L148 20L86 -73L32 -73L57 20L57 97ZM57 280L148 280L148 183L57 183L57 280Z'],
+    '<': [429, 'M375 243L134 160L375 78L375 15L54 131L54 190L375 306L375 243Z'],
+    '=': [429, 'M54 247L375 247L375 188L54 188L54 247ZM54 133L375 133L375 74L54 74L54 133Z'],
+    '>': [429, 'M54 243L54 306L375 190L375 131L54 15L54 78L296 160L54 243Z'],
+    '?': [297, 'M177 126L87 126L87 138Q87 159 95 175Q104 190 130 215L146 230Q160 242 167 254Q174 266 174 277Q174 294 162 304Q150 314 128 314Q108 314 84 306Q61 298 35 281L35 360Q66 370 90 375Q116 380 139 380Q200 380 232 355Q264 330 264 282Q264 258 254 239Q244 219 221 197L205 183Q188 167 182 158Q177 148 177 137L177 126ZM87 89L177 89L177 0L87 0L87 89Z'],
+    '@': [512, 'M208 135Q208 104 221 86Q234 68 256 68Q279 68 292 86Q305 104 305 135Q305 165 292 183Q278 200 256 200Q234 200 221 183Q208 165 208 135ZM310 60Q303 42 286 32Q270 22 247 22Q204 22 177 53Q150 84 150 134Q150 184 178 216Q204 247 247 247Q270 247 286 237Q303 227 310 209L310 242L362 242L362 68Q394 73 411 98Q429 124 429 163Q429 188 422 210Q414 232 400 250Q376 280 340 297Q305 313 263 313Q234 313 208 306Q181 298 159 283Q122 259 101 220Q80 181 80 136Q80 98 94 66Q107 33 132 8Q158 -16 190 -29Q222 -42 259 -42Q290 -42 322 -30Q354 -18 376 2L402 -39Q371 -63 334 -76Q298 -89 260 -89Q213 -89 172 -73Q131 -56 99 -25Q67 6 50 47Q34 88 34 136Q34 181 51 222Q68 264 99 295Q131 326 173 343Q214 360 260 360Q316 360 361 339Q407 317 438 277Q456 252 466 224Q476 195 476 164Q476 96 435 58Q394 21 320 21L310 21L310 60Z'],
+    'A': [396, 'M274 68L123 68L99 0L2 0L141 373L256 373L394 0L297 0L274 68ZM147 137L249 137L198 286L147 137Z'],
+    'B': [390, 'M196 229Q219 229 231 239Q243 249 243 268Q243 288 231 298Q219 308 196 308L143 308L143 229L196 229ZM200 66Q229 66 243 78Q258 90 258 115Q258 139 244 151Q229 163 200 163L143 163L143 66L200 66ZM289 200Q320 191 337 166Q354 142 354 107Q354 53 318 26Q281 0 207 0L47 0L47 373L192 373Q269 373 304 350Q339 326 339 274Q339 247 326 228Q314 209 289 200Z'],
+    'C': [376, 'M343 20Q316 7 288 0Q259 -7 228 -7Q134 -7 80 45Q26 97 26 186Q26 276 80 328Q134 380 228 380Q259 380 288 373Q316 366 343 352L343 275Q316 293 290 302Q264 310 236 310Q184 310 154 277Q125 244 125 186Q125 128 154 96Q184 62 236 62Q264 62 290 71Q316 80 343 98L343 20Z'],
+    'D': [425, 'M143 300L143 73L178 73Q237 73 268 102Q299 131 299 187Q299 242 268 272Q237 300 178 300L143 300ZM47 373L148 373Q234 373 275 361Q317 349 346 320Q373 295 386 262Q398 229 398 187Q398 145 386 112Q373 78 346 53Q316 24 274 12Q232 0 148 0L47 0L47 373Z'],
+    'E': [350, 'M47 373L307 373L307 300L143 300L143 231L297 231L297 158L143 158L143 73L312 73L312 0L47 0L47 373Z'],
+    'F': [350, 'M47 373L307 373L307 300L143 300L143 231L297 231L297 158L143 158L143 0L47 0L47 373Z'],
+    'G': [420, 'M382 28Q346 10 308 2Q269 -7 228 -7Q134 -7 80 45Q26 97 26 186Q26 276 81 328Q136 380 233 380Q270 380 304 373Q338 366 369 352L369 275Q338 293 307 302Q276 310 245 310Q187 310 156 278Q125 246 125 186Q125 127 155 95Q185 62 240 62Q255 62 268 64Q281 66 291 70L291 143L232 143L232 207L382 207L382 28Z'],
+    'H': [428, 'M47 373L143 373L143 231L285 231L285 373L382 373L382 0L285 0L285 158L143 158L143 0L47 0L47 373Z'],
+    'I': [190, 'M47 373L143 373L143 0L47 0L47 373Z'],
+    'J': [190, 'M47 373L143 373L143 36Q143 -34 105 -68Q68 -102 -9 -102L-29 -102L-29 -30L-14 -30Q16 -30 32 -13Q47 4 47 36L47 373Z'],
+    'K': [397, 'M47 373L143 373L143 237L282 373L394 373L214 196L412 0L292 0L143 147L143 0L47 0L47 373Z'],
+    'L': [326, 'M47 373L143 373L143 73L312 73L312 0L47 0L47 373Z'],
+    'M': [510, 'M47 373L170 373L254 174L340 373L462 373L462 0L371 0L371 273L285 72L224 72L138 273L138 0L47 0L47 373Z'],
+    'N': [428, 'M47 373L154 373L290 117L290 373L382 373L382 0L274 0L138 256L138 0L47 0L47 373Z'],
+    'O': [435, 'M218 310Q174 310 149 278Q125 245 125 186Q125 128 149 95Q174 62 218 62Q262 62 286 95Q310 128 310 186Q310 245 286 278Q262 310 218 310ZM218 380Q308 380 358 328Q410 277 410 186Q410 96 358 44Q308 -7 218 -7Q128 -7 77 44Q26 96 26 186Q26 277 77 328Q128 380 218 380Z'],
+    'P': [375, 'M47 373L207 373Q278 373 316 342Q354 310 354 252Q354 193 316 161Q278 130 207 130L143 130L143 0L47 0L47 373ZM143 304L143 199L196 199Q224 199 240 213Q255 226 255 252Q255 276 240 290Q224 304 196 304L143 304Z'],
+    'Q': [435, 'M228 -7L220 -7Q128 -7 77 44Q26 95 26 186Q26 277 77 328Q128 380 218 380Q308 380 359 329Q410 278 410 186Q410 123 383 78Q356 32 305 9L380 -75L289 -75L228 -7ZM218 310Q174 310 149 278Q125 245 125 186Q125 126 149 94Q172 62 218 62Q262 62 286 95Q310 128 310 186Q310 245 286 278Q262 310 218 310Z'],
+    'R': [394, 'M184 208Q214 208 227 219Q240 230 240 256Q240 282 227 292Q214 304 184 304L143 304L143 208L184 208ZM143 141L143 0L47 0L47 373L194 373Q268 373 302 348Q336 324 336 270Q336 233 319 210Q301 186 265 174Q284 170 300 154Q316 138 332 106L384 0L282 0L236 93Q222 121 208 131Q194 141 170 141L143 141Z'],
+    'S': [369, 'M307 362L307 282Q276 296 247 303Q218 310 192 310Q157 310 140 301Q124 291 124 271Q124 256 135 248Q146 240 176 234L216 225Q279 213 305 187Q331 162 331 115Q331 53 295 23Q258 -7 183 -7Q147 -7 112 0Q76 6 40 20L40 101Q76 82 109 72Q142 62 174 62Q205 62 222 73Q238 84 238 103Q238 120 227 130Q216 140 182 147L144 155Q88 167 63 194Q37 220 37 264Q37 320 73 350Q109 380 176 380Q207 380 240 375Q272 371 307 362Z'],
+    'T': [349, 'M2 373L346 373L346 300L223 300L223 0L126 0L126 300L2 300L2 373Z'],
+    'U': [416, 'M47 373L143 373L143 150Q143 103 158 83Q174 64 208 64Q242 64 257 83Q272 103 272 150L272 373L369 373L369 150Q369 70 329 32Q289 -7 208 -7Q126 -7 87 32Q47 70 47 150L47 373Z'],
+    'V': [396, 'M2 373L99 373L198 98L297 373L394 373L256 0L141 0L2 373Z'],
+    'W': [565, 'M15 373L108 373L172 102L236 373L329 373L393 102L457 373L549 373L461 0L350 0L282 284L215 0L104 0L15 373Z'],
+    'X': [395, 'M255 190L384 0L284 0L197 128L110 0L10 0L139 190L15 373L115 373L197 253L278 373L380 373L255 190Z'],
+    'Y': [371, 'M-5 373L100 373L185 240L270 373L376 373L234 157L234 0L137 0L137 157L-5 373Z'],
+    'Z': [371, 'M29 373L342 373L342 315L142 73L348 73L348 0L23 0L23 58L223 300L29 300L29 373Z'],
+    '[': [234, 'M44 389L199 389L199 333L129 333L129 -11L199 -11L199 -68L44 -68L44 389Z'],
+    '\\': [187, 'M132 -48L0 373L55 373L187 -48L132 -48Z'],
+    ']': [234, 'M190 -68L35 -68L35 -11L105 -11L105 333L35 333L35 389L190 389L190 -68Z'],
+    '^': [429, 'M245 373L377 234L317 234L214 309L112 234L52 234L184 373L245 373Z'],
+    '_': [256, 'M256 -73L256 -121L0 -121L0 -73L256 -73Z'],
+    '`': [256, 'M94 410L165 316L116 316L24 410L94 410Z'],
+    'a': [346, 'M168 126Q140 126 126 116Q112 107 112 88Q112 72 124 62Q135 52 155 52Q180 52 198 70Q215 88 215 116L215 126L168 126ZM305 160L305 0L215 0L215 42Q197 16 174 4Q152 -7 120 -7Q76 -7 49 18Q22 44 22 84Q22 133 56 156Q90 179 162 179L215 179L215 186Q215 208 198 217Q182 227 146 227Q117 227 92 222Q68 216 46 204L46 272Q75 280 104 283Q133 287 162 287Q238 287 272 257Q305 227 305 160Z'],
+    'b': [366, 'M192 58Q221 58 236 79Q251 100 251 140Q251 180 236 201Q221 222 192 222Q163 222 148 201Q132 180 132 140Q132 100 148 79Q163 58 192 58ZM132 239Q151 264 174 275Q196 287 225 287Q277 287 310 246Q344 204 344 140Q344 75 310 34Q277 -7 225 -7Q196 -7 174 4Q151 16 132 40L132 0L43 0L43 389L132 389L132 239Z'],
+    'c': [304, 'M269 271L269 198Q251 211 233 217Q214 223 194 223Q157 223 136 201Q115 179 115 140Q115 100 136 79Q157 57 194 57Q216 57 234 63Q253 69 269 82L269 8Q248 0 227 -3Q205 -7 183 -7Q108 -7 65 32Q22 70 22 140Q22 209 65 248Q108 287 183 287Q205 287 227 283Q248 279 269 271Z'],
+    'd': [366, 'M234 239L234 389L324 389L324 0L234 0L234 40Q215 16 193 4Q170 -7 141 -7Q90 -7 56 34Q23 75 23 140Q23 204 56 246Q90 287 141 287Q170 287 193 275Q215 264 234 239ZM174 58Q203 58 218 79Q234 100 234 140Q234 180 218 201Q203 222 174 222Q146 222 131 201Q116 180 116 140Q116 100 131 79Q146 58 174 58Z'],
+    'e': [347, 'M322 141L322 115L113 115Q116 84 136 68Q156 52 190 52Q219 52 248 61Q278 69 309 86L309 17Q278 5 246 -1Q214 -7 182 -7Q106 -7 64 31Q22 70 22 140Q22 208 63 248Q105 287 177 287Q243 287 283 247Q322 207 322 141ZM230 170Q230 196 216 212Q201 227 177 227Q151 227 134 213Q118 198 114 170L230 170Z'],
+    'f': [223, 'M227 389L227 330L178 330Q159 330 151 323Q144 316 144 300L144 280L220 280L220 216L144 216L144 0L54 0L54 216L10 216L10 280L54 280L54 300Q54 345 80 367Q105 389 159 389L227 389Z'],
+    'g': [366, 'M234 48Q215 23 193 12Q170 0 141 0Q90 0 56 40Q23 81 23 143Q23 206 56 246Q90 286 141 286Q170 286 193 275Q215 263 234 238L234 280L324 280L324 28Q324 -39 281 -75Q238 -110 157 -110Q131 -110 106 -106Q82 -102 57 -94L57 -24Q81 -38 103 -45Q126 -51 148 -51Q192 -51 213 -32Q234 -13 234 28L234 48ZM174 222Q147 222 131 201Q116 181 116 143Q116 105 131 85Q146 65 174 65Q202 65 218 86Q234 106 234 143Q234 181 218 201Q202 222 174 222Z'],
+    'h': [364, 'M324 170L324 0L234 0L234 28L234 130Q234 167 233 180Q231 194 227 201Q222 210 213 214Q204 219 192 219Q164 219 148 198Q132 176 132 138L132 0L43 0L43 389L132 389L132 239Q153 264 176 275Q198 287 226 287Q274 287 299 257Q324 227 324 170Z'],
+    'i': [176, 'M43 280L132 280L132 0L43 0L43 280ZM43 389L132 389L132 316L43 316L43 389Z'],
+    'j': [176, 'M43 280L132 280L132 5Q132 -51 106 -81Q78 -110 27 -110L-17 -110L-17 -52L-2 -52Q24 -52 34 -40Q43 -29 43 5L43 280ZM43 389L132 389L132 316L43 316L43 389Z'],
+    'k': [340, 'M43 389L132 389L132 177L236 280L340 280L203 152L350 0L242 0L132 117L132 0L43 0L43 389Z'],
+    'l': [176, 'M43 389L132 389L132 0L43 0L43 389Z'],
+    'm': [534, 'M302 234Q320 260 343 273Q366 287 394 287Q442 287 468 257Q493 227 493 170L493 0L403 0L403 146Q403 149 403 153Q404 156 404 163Q404 192 395 206Q386 219 366 219Q341 219 327 198Q313 177 313 138L313 0L223 0L223 146Q223 192 215 206Q207 219 186 219Q160 219 146 198Q132 177 132 138L132 0L42 0L42 280L132 280L132 239Q149 263 170 275Q192 287 218 287Q246 287 269 273Q291 259 302 234Z'],
+    'n': [364, 'M324 170L324 0L234 0L234 28L234 130Q234 167 233 180Q231 194 227 201Q222 210 213 214Q204 219 192 219Q164 219 148 198Q132 176 132 138L132 0L43 0L43 280L132 280L132 239Q153 264 176 275Q198 287 226 287Q274 287 299 257Q324 227 324 170Z'],
+    'o': [352, 'M176 223Q146 223 131 201Q115 180 115 140Q115 100 131 78Q146 57 176 57Q206 57 221 78Q236 100 236 140Q236 180 221 201Q206 223 176 223ZM176 287Q248 287 289 248Q330 209 330 140Q330 71 289 32Q248 -7 176 -7Q104 -7 63 32Q22 71 22 140Q22 209 63 248Q104 287 176 287Z'],
+    'p': [366, 'M132 40L132 -106L43 -106L43 280L132 280L132 239Q151 264 174 275Q196 287 225 287Q277 287 310 246Q344 204 344 140Q344 75 310 34Q277 -7 225 -7Q196 -7 174 4Q151 16 132 40ZM192 222Q163 222 148 201Q132 180 132 140Q132 100 148 79Q163 58 192 58Q221 58 236 79Q251 100 251 140Q251 180 236 201Q221 222 192 222Z'],
+    'q': [366, 'M174 222Q146 222 131 201Q116 180 116 140Q116 100 131 79Q146 58 174 58Q203 58 218 79Q234 100 234 140Q234 180 218 201Q203 222 174 222ZM234 40Q215 16 193 4Q170 -7 141 -7Q90 -7 56 34Q23 75 23 140Q23 204 56 245Q90 286 141 286Q170 286 193 275Q215 263 234 238L234 280L324 280L324 -106L234 -106L234 40Z'],
+    'r': [252, 'M251 204Q239 209 228 212Q216 214 204 214Q170 214 151 192Q132 170 132 129L132 0L43 0L43 280L132 280L132 234Q150 262 172 274Q194 287 226 287Q230 287 236 286Q241 286 251 285L251 204Z'],
+    's': [305, 'M262 271L262 203Q233 215 206 221Q180 227 156 227Q130 227 118 221Q106 214 106 201Q106 190 115 185Q124 179 148 176L164 174Q233 165 257 145Q280 125 280 82Q280 38 248 15Q214 -7 149 -7Q121 -7 92 -3Q62 2 31 10L31 78Q58 65 86 59Q114 52 143 52Q169 52 182 60Q196 67 196 81Q196 93 186 99Q177 105 150 108L134 110Q74 118 50 138Q26 158 26 199Q26 244 57 265Q88 287 150 287Q175 287 202 283Q230 279 262 271Z'],
+    't': [245, 'M141 360L141 280L233 280L233 216L141 216L141 97Q141 78 148 71Q156 64 179 64L225 64L225 0L148 0Q96 0 73 22Q51 44 51 97L51 216L7 216L7 280L51 280L51 360L141 360Z'],
+    'u': [364, 'M40 109L40 280L130 280L130 252Q130 229 130 195Q130 160 130 149Q130 115 131 100Q133 86 137 79Q143 70 152 65Q160 60 172 60Q200 60 216 82Q232 104 232 142L232 280L322 280L322 0L232 0L232 40Q212 16 189 4Q166 -7 139 -7Q91 -7 65 22Q40 52 40 109Z'],
+    'v': [334, 'M8 280L97 280L167 86L236 280L326 280L216 0L118 0L8 280Z'],
+    'w': [473, 'M18 280L105 280L152 87L199 280L274 280L321 89L368 280L455 280L382 0L284 0L236 192L190 0L92 0L18 280Z'],
+    'x': [330, 'M114 143L13 280L108 280L165 197L223 280L318 280L216 144L322 0L228 0L165 88L102 0L8 0L114 143Z'],
+    'y': [334, 'M6 280L96 280L171 90L235 280L324 280L207 -26Q189 -73 165 -92Q142 -110 103 -110L51 -110L51 -52L79 -52Q102 -52 112 -44Q123 -37 128 -18L131 -11L6 280Z'],
+    'z': [298, 'M29 280L274 280L274 218L126 64L274 64L274 0L23 0L23 62L170 216L29 216L29 280Z'],
+    '{': [364, 'M300 -27L300 -84L246 -84Q192 -84 167 -62Q142 -40 142 9L142 57Q142 94 128 109Q115 124 79 124L64 124L64 179L79 179Q115 179 128 194Q142 208 142 246L142 297Q142 345 167 367Q192 389 246 389L300 389L300 333L283 333Q248 333 237 322Q227 311 227 276L227 234Q227 195 216 177Q204 159 177 153Q204 146 216 128Q227 111 227 72L227 30Q227 -6 237 -16Q248 -27 283 -27L300 -27Z'],
+    '|': [187, 'M122 391L122 -121L65 -121L65 391L122 391Z'],
+    '}': [364, 'M64 -27L82 -27Q116 -27 127 -16Q138 -6 138 30L138 72Q138 111 149 128Q160 146 188 153Q160 159 149 177Q138 195 138 234L138 276Q138 311 127 322Q116 333 82 333L64 333L64 389L118 389Q173 389 198 367Q223 345 223 297L223 246Q223 208 236 194Q250 179 285 179L300 179L300 124L285 124Q250 124 236 109Q223 94 223 57L223 9Q223 -40 198 -62Q173 -84 118 -84L64 -84L64 -27Z'],
+    '~': [429, 'M375 212L375 152Q348 132 326 123Q304 114 280 114Q253 114 217 129Q214 130 212 131Q210 132 206 133Q167 148 144 148Q122 148 100 139Q79 129 54 108L54 170Q81 190 103 198Q126 207 150 207Q176 207 212 192Q216 191 218 190Q219 189 223 188Q262 172 285 172Q307 172 328 182Q349 191 375 212Z'],
+    '\u2018': [194, 'M138 214L53 214L53 285L110 373L163 373L138 285L138 214Z'],
+    '\u2019': [194, 'M57 373L142 373L142 302L86 214L32 214L57 302L57 373Z'],
+    '\u201C': [336, 'M264 214L179 214L179 285L236 373L289 373L264 285L264 214ZM138 214L53 214L53 285L110 373L163 373L138 285L138 214Z'],
+    '\u201D': [336, 'M72 373L157 373L157 302L100 214L47 214L72 302L72 373ZM199 373L284 373L284 302L227 214L174 214L199 302L199 373Z'],
+    '\u2013': [256, 'M28 172L228 172L228 108L28 108L28 172Z'],
+    '\u2014': [512, 'M28 172L484 172L484 108L28 108L28 172Z'],
+    '\u2026': [512, 'M382 97L472 97L472 0L382 0L382 97ZM40 97L130 97L130 0L40 0L40 97ZM211 97L301 97L301 0L211 0L211 97Z'],
+    '\u2022': [327, 'M74 190Q74 209 80 225Q87 242 100 254Q113 267 129 273Q146 280 164 280Q182 280 198 273Q215 266 227 254Q240 241 247 225Q254 209 254 190Q254 172 247 156Q240 139 227 126Q214 114 198 107Q182 100 163 100Q145 100 129 107Q112 114 100 126Q87 139 80 156Q74 172 74 190Z'],
+    '\u00B7': [194, 'M52 226L142 226L142 130L52 130L52 226Z'],
+  },
+}
@@ -0,0 +1,256 @@
+import type { Episode, Podcast } from '../../types/podcast'
+import type { ThemeColors } from '../../types/theme'
+import { formatDurationFriendly } from '../../app/utils/format'
+import { fetchArtworkPixels, extractPixelColors, type ArtworkPixels } from './color-extractor'
+import { generateThemePalette } from './palette-generator'
+import {
+  createRaster,
+  drawImage,
+  drawText,
+  encodePng,
+  fillDiagonalGradient,
+  fillRoundedRect,
+  measureText,
+  mixColors,
+  normalizeText,
+  parseHexColor,
+  wrapText,
+} from './raster'
+
+/**
+ * Open Graph image size recommended by Facebook, X, LinkedIn, and Slack
+ */
+export const OG_IMAGE_WIDTH = 1200
+export const OG_IMAGE_HEIGHT = 630
+
+/**
+ * Storage key prefix for rendered images
+ */
+const STORAGE_KEY_PREFIX = 'podcast:og:'
+
+/**
+ * Bump when the card layout changes so stored images are re-rendered
+ */
+const LAYOUT_VERSION = 1
+
+const PADDING = 72
+const ARTWORK_SIZE = OG_IMAGE_HEIGHT - PADDING * 2
+const TEXT_X = PADDING + ARTWORK_SIZE + 64
+const TEXT_WIDTH = OG_IMAGE_WIDTH - TEXT_X - PADDING
+
+/** Title sizes tried from largest to smallest until the title fits */
+const TITLE_SIZES = [60, 52, 46, 40]
+const TITLE_MAX_LINES = 4
+
+/**
+ * Everything drawn on an episode card
+ */
+export interface EpisodeCard {
+  title: string
+  showTitle: string
+  episodeNumber?: number
+  seasonNumber?: number
+  episodeType: Episode['episodeType']
+  duration: number
+  /** Decoded artwork, or null to draw a placeholder tile */
+  artwork: ArtworkPixels | null
+  /** Dark-mode theme colors from generateThemePalette */
+  colors: ThemeColors
+}
+
+/**
+ * Label for the episode badge, e.g. "S2 · EP 14" or "BONUS"
+ */
+function badgeLabel(card: EpisodeCard): string {
+  if (card.episodeType !== 'full') return card.episodeType.toUpperCase()
+  const parts: string[] = []
+  if (card.seasonNumber) parts.push(`S${card.seasonNumber}`)
+  if (card.episodeNumber) parts.push(`EP ${card.episodeNumber}`)
+  return parts.join(' · ')
+}
+
+/**
+ * Center-crop artwork to a square (podcast artwork should already be
+ * square, but not every feed follows the spec)
+ */
+function cropToSquare(artwork: ArtworkPixels): ArtworkPixels {
+  const size = Math.min(artwork.width, artwork.height)
+  if (artwork.width === artwork.height) return artwork
+
+  const left = Math.floor((artwork.width - size) / 2)
+  const top = Math.floor((artwork.height - size) / 2)
+  const data = new Uint8ClampedArray(size * size * 4)
+  for (let row = 0; row < size; row++) {
+    const start = ((top + row) * artwork.width + left) * 4
+    data.set(artwork.data.subarray(start, start + size * 4), row * size * 4)
+  }
+  return { data, width: size, height: size }
+}
+
+/**
+ * Render an episode card as a 1200×630 PNG: artwork on the left; show
+ * name, episode badge, title, and duration on the right; background
+ * tinted with the artwork palette.
+ */
+export async function renderEpisodeCard(card: EpisodeCard): Promise<Uint8Array> {
+  const primary = parseHexColor(card.colors.primary, [250, 250, 250])
+  const primaryForeground = parseHexColor(card.colors['primary-foreground'], [9, 9, 11])
+  const background = parseHexColor(card.colors.secondary, [24, 24, 27])
+  const mutedForeground = parseHexColor(card.colors['muted-foreground'], [161, 161, 170])
+  const foreground: [number, number, number] = [250, 250, 250]
+
+  const raster = createRaster(OG_IMAGE_WIDTH, OG_IMAGE_HEIGHT)
+  fillDiagonalGradient(
+    raster,
+    mixColors(background, primary, 0.28),
+    mixColors(background, [9, 9, 11], 0.5),
+  )
+
+  // Artwork, or a primary-colored tile when there is none
+  if (card.artwork) {
+    drawImage(raster, cropToSquare(card.artwork), PADDING, PADDING, ARTWORK_SIZE, ARTWORK_SIZE, 28)
+  } else {
+    fillRoundedRect(raster, PADDING, PADDING, ARTWORK_SIZE, ARTWORK_SIZE, 28, primary, 0.85)
+  }
+
+  let y = PADDING + 34
+
+  // Show name
+  const showSize = 30
+  const show = wrapText(normalizeText(card.showTitle), showSize, TEXT_WIDTH, 1).lines[0] ?? ''
+  drawText(raster, show, TEXT_X, y, showSize, primary)
+  y += 30
+
+  // Episode badge
+  const label = badgeLabel(card)
+  if (label) {
+    const badgeSize = 24
+    const badgeHeight = 44
+    const badgeWidth = measureText(label, badgeSize) + 36
+    y += 14
+    fillRoundedRect(raster, TEXT_X, y, badgeWidth, badgeHeight, badgeHeight / 2, primary)
+    drawText(raster, label, TEXT_X + 18, y + 31, badgeSize, primaryForeground)
+    y += badgeHeight
+  }
+
+  // Title: largest size that fits without truncation
+  const title = normalizeText(card.title)
+  let titleSize = TITLE_SIZES[TITLE_SIZES.length - 1]!
+  let titleLines = wrapText(title, titleSize, TEXT_WIDTH, TITLE_MAX_LINES).lines
+  for (const size of TITLE_SIZES) {
+    const wrapped = wrapText(title, size, TEXT_WIDTH, TITLE_MAX_LINES)
+    if (!wrapped.truncated) {
+      titleSize = size
+      titleLines = wrapped.lines
+      break
+    }
+  }
+
+  const lineHeight = Math.round(titleSize * 1.18)
+  y += 24
+  for (const line of titleLines) {
+    y += lineHeight
+    drawText(raster, line, TEXT_X, y, titleSize, foreground)
+  }
+
+  // Duration, pinned to the bottom of the text column
+  if (card.duration > 0) {
+    drawText(raster, formatDurationFriendly(card.duration), TEXT_X, OG_IMAGE_HEIGHT - PADDING - 6, 28, mutedForeground)
+  }
+
+  // Accent bar along the bottom edge
+  fillRoundedRect(raster, 0, OG_IMAGE_HEIGHT - 12, OG_IMAGE_WIDTH, 12, 0, primary)
+
+  return encodePng(raster)
+}
+
+/**
+ * A rendered image as persisted in Nitro storage
+ */
+interface StoredImage {
+  /** Inputs the image was rendered from; a mismatch means re-render */
+  fingerprint: string
+  /** Base64-encoded PNG */
+  png: string
+}
+
+/** In-flight renders keyed by storage key, so concurrent requests share one */
+const rendering = new Map<string, Promise<Uint8Array>>()
+
+/**
+ * Generate storage key from episode GUID
+ */
+function getStorageKey(guid: string): string {
+  // Use base64 encoding to handle special characters in GUIDs
+  return `${STORAGE_KEY_PREFIX}${Buffer.from(guid).toString('base64')}`
+}
+
+/**
+ * Get the Open Graph image for an episode, rendering it on first request.
+ *
+ * Images are cached in Nitro storage by episode GUID. The cached copy is
+ * reused until something drawn on the card changes (title, numbers,
+ * duration, artwork, show name), so overrides and feed edits show up
+ * without clearing the cache.
+ */
+export async function getEpisodeOgImage(episode: Episode, podcast: Podcast): Promise<Uint8Array> {
+  const storage = useStorage('cache')
+  const key = getStorageKey(episode.guid)
+  const artworkUrl = episode.artwork || podcast.artwork
+
+  const fingerprint = JSON.stringify([
+    LAYOUT_VERSION,
+    episode.title,
+    podcast.title,
+    episode.episodeNumber,
+    episode.seasonNumber,
+    episode.episodeType,
+    episode.duration,
+    artworkUrl,
+  ])
+
+  const stored = await storage.getItem<StoredImage>(key).catch(() => null)
+  if (stored?.fingerprint === fingerprint) {
+    return new Uint8Array(Buffer.from(stored.png, 'base64'))
+  }
+
+  const existing = rendering.get(key)
+  if (existing) return existing
+
+  const promise = renderAndStore(key, fingerprint, episode, podcast, artworkUrl)
+    .finally(() => rendering.delete(key))
+  rendering.set(key, promise)
+  return promise
+}
+
+/**
+ * Render an episode card and persist it under `key`
+ */
+async function renderAndStore(
+  key: string,
+  fingerprint: string,
+  episode: Episode,
+  podcast: Podcast,
+  artworkUrl: string,
+): Promise<Uint8Array> {
+  const artwork = await fetchArtworkPixels(artworkUrl)
+  const palette = generateThemePalette(artwork ? await extractPixelColors(artwork) : [])
+
+  const png = await renderEpisodeCard({
+    title: episode.title,
+    showTitle: podcast.title,
+    episodeNumber: episode.episodeNumber,
+    seasonNumber: episode.seasonNumber,
+    episodeType: episode.episodeType,
+    duration: episode.duration,
+    artwork,
+    colors: palette.dark,
+  })
+
+  await useStorage('cache').setItem(key, { fingerprint, png: Buffer.from(png).toString('base64') } satisfies StoredImage)
+    .catch((error) => {
+      console.warn('Failed to store Open Graph image:', error)
+    })
+
+  return png
+}
@@ -0,0 +1,127 @@
+import type { PodcastFeed, PodrollShow, RemoteItem, ShowConfig } from '../../types/podcast'
+import { getCachedPodcastFeed } from './feed-cache'
+
+/**
+ * How long to wait for one recommended show's feed, in milliseconds
+ */
+const FEED_TIMEOUT = 5000
+
+/**
+ * After a recommended show's feed fails, skip it for this long (ms), so
+ * a dead feed doesn't cost every request the full timeout
+ */
+const UNAVAILABLE_TTL = 15 * 60 * 1000
+
+/**
+ * When each failed feed last failed, by feed URL
+ */
+const failures = new Map<string, number>()
+
+/**
+ * Wait for a feed, giving up after `ms`. The load itself carries on in
+ * the feed cache, so a slow feed is there for the next request.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Feed timeout after ${ms}ms`)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * A feed's host name, as the title of a feed that couldn't be loaded
+ */
+function hostName(feedUrl: string): string {
+  try {
+    return new URL(feedUrl).hostname.replace(/^www\./, '')
+  } catch {
+    return feedUrl
+  }
+}
+
+/**
+ * Find the network show for a remote item: by feed URL, or by the
+ * podcast:guid of the shows' (cached) feeds
+ */
+async function findNetworkShow(item: RemoteItem, shows: ShowConfig[], timeout: number): Promise<ShowConfig | undefined> {
+  const byUrl = item.feedUrl ? shows.find(show => show.feedUrl === item.feedUrl) : undefined
+  if (byUrl || item.feedUrl) return byUrl
+
+  const feeds = await Promise.allSettled(shows.map(show => withTimeout(getCachedPodcastFeed(show.feedUrl), timeout)))
+  return shows.find((_, i) => {
+    const result = feeds[i]!
+    return result.status === 'fulfilled' && result.value.podcast.podcast2?.guid === item.feedGuid
+  })
+}
+
+/**
+ * Describe a recommended show from its loaded feed
+ */
+function toPodrollShow(item: RemoteItem, feedUrl: string, feed: PodcastFeed, showId?: string): PodrollShow {
+  const { podcast } = feed
+  const episode = item.itemGuid ? feed.episodes.find(e => e.guid === item.itemGuid) : undefined
+
+  return {
+    feedGuid: item.feedGuid,
+    feedUrl,
+    title: podcast.title,
+    author: podcast.author || undefined,
+    artwork: podcast.artwork || undefined,
+    link: podcast.link || feedUrl,
+    showId,
+    episode: episode ? { title: episode.title, link: episode.link } : undefined,
+  }
+}
+
+/**
+ * Resolve the feed's podroll into shows to display, in podroll order.
+ *
+ * Each remote item's feed comes from its feedUrl, or from a network show
+ * (`shows`) with the same feed URL or podcast:guid. Feeds load in parallel
+ * through the feed cache, each with a timeout; one that fails falls back
+ * to a link to its feed, so a dead feed doesn't hide the others, and isn't
+ * tried again for UNAVAILABLE_TTL. Items without a known feed URL (a bare
+ * feedGuid) are left out.
+ */
+export async function resolvePodroll(
+  items: RemoteItem[],
+  shows: ShowConfig[] = [],
+  timeout = FEED_TIMEOUT,
+): Promise<PodrollShow[]> {
+  const resolved = await Promise.all(items.map(async (item): Promise<PodrollShow | undefined> => {
+    const show = shows.length > 0 ? await findNetworkShow(item, shows, timeout) : undefined
+    const feedUrl = show?.feedUrl ?? item.feedUrl
+    if (!feedUrl) return undefined
+
+    const unavailable: PodrollShow = {
+      feedGuid: item.feedGuid,
+      feedUrl,
+      title: hostName(feedUrl),
+      link: feedUrl,
+      showId: show?.id,
+      unavailable: true,
+    }
+    const failedAt = failures.get(feedUrl)
+    if (failedAt !== undefined && Date.now() - failedAt < UNAVAILABLE_TTL) return unavailable
+
+    try {
+      const feed = await withTimeout(getCachedPodcastFeed(feedUrl), timeout)
+      failures.delete(feedUrl)
+      return toPodrollShow(item, feedUrl, feed, show?.id)
+    } catch (error) {
+      console.warn(`Failed to load podroll feed ${feedUrl}:`, error)
+      failures.set(feedUrl, Date.now())
+      return unavailable
+    }
+  }))
+
+  return resolved.filter((show): show is PodrollShow => !!show)
+}
+
+/**
+ * Forget which feeds failed (used by tests)
+ */
+export function clearPodrollFailures() {
+  failures.clear()
+}
@@ -0,0 +1,552 @@
+import { OG_FONT } from './og-font'
+
+/**
+ * Minimal pure-JS 2D drawing for server-rendered images (Open Graph cards).
+ *
+ * Everything here runs on plain typed arrays — no canvas, native
+ * binaries, or WASM — so it works on Node.js, Cloudflare Workers, and
+ * other edge runtimes. Shapes and text are filled with anti-aliased
+ * non-zero scanline coverage; PNG output uses the platform's
+ * CompressionStream for deflate.
+ */
+
+/**
+ * An RGBA pixel buffer
+ */
+export interface Raster {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+/**
+ * An [r, g, b] color with 0-255 channels
+ */
+export type RGB = [number, number, number]
+
+type Point = [x: number, y: number]
+
+/**
+ * Subsample rows per pixel used for anti-aliasing
+ */
+const SUBSAMPLES = 5
+
+/**
+ * Create a raster filled with a solid color
+ */
+export function createRaster(width: number, height: number, color: RGB = [0, 0, 0]): Raster {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = color[0]
+    data[i + 1] = color[1]
+    data[i + 2] = color[2]
+    data[i + 3] = 255
+  }
+  return { width, height, data }
+}
+
+/**
+ * Parse a #rgb or #rrggbb hex color
+ */
+export function parseHexColor(hex: string, fallback: RGB = [0, 0, 0]): RGB {
+  let value = hex.trim().replace(/^#/, '')
+  if (value.length === 3) {
+    value = value.split('').map(c => c + c).join('')
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) return fallback
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16),
+  ]
+}
+
+/**
+ * Linear interpolation between two colors
+ */
+export function mixColors(a: RGB, b: RGB, t: number): RGB {
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * t),
+    Math.round(a[1] + (b[1] - a[1]) * t),
+    Math.round(a[2] + (b[2] - a[2]) * t),
+  ]
+}
+
+/**
+ * Blend a color into one pixel with the given opacity (0-1)
+ */
+function blendPixel(raster: Raster, index: number, color: RGB, alpha: number): void {
+  const { data } = raster
+  data[index] = data[index]! + (color[0] - data[index]!) * alpha
+  data[index + 1] = data[index + 1]! + (color[1] - data[index + 1]!) * alpha
+  data[index + 2] = data[index + 2]! + (color[2] - data[index + 2]!) * alpha
+}
+
+/**
+ * Fill the whole raster with a diagonal gradient from the top-left to
+ * the bottom-right corner
+ */
+export function fillDiagonalGradient(raster: Raster, from: RGB, to: RGB): void {
+  const { width, height, data } = raster
+  const span = width + height - 2 || 1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = mixColors(from, to, (x + y) / span)
+      const i = (y * width + x) * 4
+      data[i] = color[0]
+      data[i + 1] = color[1]
+      data[i + 2] = color[2]
+    }
+  }
+}
+
+/**
+ * Anti-aliased coverage of a set of closed polygons within a clip box,
+ * using the non-zero winding rule. Returns one coverage value (0-1) per
+ * pixel of the box.
+ */
+function polygonCoverage(
+  polygons: Point[][],
+  box: { x: number; y: number; width: number; height: number },
+): Float32Array {
+  const coverage = new Float32Array(box.width * box.height)
+  const edges: Array<{ x0: number; y0: number; x1: number; y1: number; dir: number }> = []
+
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const [ax, ay] = polygon[i]!
+      const [bx, by] = polygon[(i + 1) % polygon.length]!
+      if (ay === by) continue
+      edges.push(ay < by
+        ? { x0: ax, y0: ay, x1: bx, y1: by, dir: 1 }
+        : { x0: bx, y0: by, x1: ax, y1: ay, dir: -1 })
+    }
+  }
+
+  const weight = 1 / SUBSAMPLES
+  const crossings: Array<{ x: number; dir: number }> = []
+
+  for (let row = 0; row < box.height; row++) {
+    const offset = row * box.width
+
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const y = box.y + row + (s + 0.5) / SUBSAMPLES
+
+      crossings.length = 0
+      for (const edge of edges) {
+        if (y < edge.y0 || y >= edge.y1) continue
+        const t = (y - edge.y0) / (edge.y1 - edge.y0)
+        crossings.push({ x: edge.x0 + (edge.x1 - edge.x0) * t - box.x, dir: edge.dir })
+      }
+      if (crossings.length < 2) continue
+      crossings.sort((a, b) => a.x - b.x)
+
+      let winding = 0
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += crossings[i]!.dir
+        if (winding === 0) continue
+
+        // Span [start, end) is inside the shape on this subsample row
+        const start = Math.max(0, crossings[i]!.x)
+        const end = Math.min(box.width, crossings[i + 1]!.x)
+        if (end <= start) continue
+
+        const first = Math.floor(start)
+        const last = Math.floor(end)
+        if (first === last) {
+          coverage[offset + first] = coverage[offset + first]! + (end - start) * weight
+          continue
+        }
+        coverage[offset + first] = coverage[offset + first]! + (first + 1 - start) * weight
+        for (let x = first + 1; x < last; x++) {
+          coverage[offset + x] = coverage[offset + x]! + weight
+        }
+        if (last < box.width) {
+          coverage[offset + last] = coverage[offset + last]! + (end - last) * weight
+        }
+      }
+    }
+  }
+
+  return coverage
+}
+
+/**
+ * Bounding box of polygons, clipped to the raster
+ */
+function clipBox(raster: Raster, polygons: Point[][]) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const polygon of polygons) {
+    for (const [x, y] of polygon) {
+      minX = Math.min(minX, x)
+      minY = Math.min(minY, y)
+      maxX = Math.max(maxX, x)
+      maxY = Math.max(maxY, y)
+    }
+  }
+  const x = Math.max(0, Math.floor(minX))
+  const y = Math.max(0, Math.floor(minY))
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(raster.width, Math.ceil(maxX)) - x),
+    height: Math.max(0, Math.min(raster.height, Math.ceil(maxY)) - y),
+  }
+}
+
+/**
+ * Fill closed polygons with a solid color
+ */
+function fillPolygons(raster: Raster, polygons: Point[][], color: RGB, opacity = 1): void {
+  const box = clipBox(raster, polygons)
+  if (box.width === 0 || box.height === 0) return
+
+  const coverage = polygonCoverage(polygons, box)
+  for (let row = 0; row < box.height; row++) {
+    for (let col = 0; col < box.width; col++) {
+      const alpha = Math.min(1, coverage[row * box.width + col]!) * opacity
+      if (alpha > 0) {
+        blendPixel(raster, ((box.y + row) * raster.width + box.x + col) * 4, color, alpha)
+      }
+    }
+  }
+}
+
+/**
+ * Polygon approximating a rectangle with rounded corners
+ */
+function roundedRectPolygon(x: number, y: number, width: number, height: number, radius: number): Point[] {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2))
+  if (r === 0) {
+    return [[x, y], [x + width, y], [x + width, y + height], [x, y + height]]
+  }
+
+  const steps = Math.max(4, Math.ceil(r / 2))
+  const corners: Array<[cx: number, cy: number, start: number]> = [
+    [x + width - r, y + r, -Math.PI / 2],
+    [x + width - r, y + height - r, 0],
+    [x + r, y + height - r, Math.PI / 2],
+    [x + r, y + r, Math.PI],
+  ]
+
+  const points: Point[] = []
+  for (const [cx, cy, start] of corners) {
+    for (let i = 0; i <= steps; i++) {
+      const angle = start + (i / steps) * (Math.PI / 2)
+      points.push([cx + Math.cos(angle) * r, cy + Math.sin(angle) * r])
+    }
+  }
+  return points
+}
+
+/**
+ * Fill a rectangle, optionally with rounded corners
+ */
+export function fillRoundedRect(
+  raster: Raster,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  color: RGB,
+  opacity = 1,
+): void {
+  fillPolygons(raster, [roundedRectPolygon(x, y, width, height, radius)], color, opacity)
+}
+
+/**
+ * Draw `source` scaled into the given rectangle with rounded corners.
+ * Downscaling averages every source pixel under a destination pixel,
+ * so large artwork stays smooth.
+ */
+export function drawImage(
+  raster: Raster,
+  source: Raster,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius = 0,
+): void {
+  const dx = Math.round(x)
+  const dy = Math.round(y)
+  const dw = Math.round(width)
+  const dh = Math.round(height)
+  const box = { x: dx, y: dy, width: dw, height: dh }
+  const mask = polygonCoverage([roundedRectPolygon(dx, dy, dw, dh, radius)], box)
+
+  const scaleX = source.width / dw
+  const scaleY = source.height / dh
+
+  for (let row = 0; row < dh; row++) {
+    const ty = dy + row
+    if (ty < 0 || ty >= raster.height) continue
+    const sy0 = Math.floor(row * scaleY)
+    const sy1 = Math.max(sy0 + 1, Math.min(source.height, Math.floor((row + 1) * scaleY)))
+
+    for (let col = 0; col < dw; col++) {
+      const tx = dx + col
+      if (tx < 0 || tx >= raster.width) continue
+      const alpha = Math.min(1, mask[row * dw + col]!)
+      if (alpha <= 0) continue
+
+      const sx0 = Math.floor(col * scaleX)
+      const sx1 = Math.max(sx0 + 1, Math.min(source.width, Math.floor((col + 1) * scaleX)))
+
+      let r = 0, g = 0, b = 0, a = 0
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const si = (sy * source.width + sx) * 4
+          const pa = source.data[si + 3]! / 255
+          r += source.data[si]! * pa
+          g += source.data[si + 1]! * pa
+          b += source.data[si + 2]! * pa
+          a += pa
+        }
+      }
+      if (a === 0) continue
+
+      const count = (sy1 - sy0) * (sx1 - sx0)
+      blendPixel(raster, (ty * raster.width + tx) * 4, [r / a, g / a, b / a], alpha * (a / count))
+    }
+  }
+}
+
+/**
+ * Flatten a glyph path (M/L/Q/Z in font units, y up) into polygons
+ * in raster pixels
+ */
+function glyphPolygons(path: string, originX: number, baseline: number, scale: number): Point[][] {
+  const polygons: Point[][] = []
+  const tokens = path.match(/[MLQZ]|-?\d+(?:\.\d+)?/g) ?? []
+  let current: Point[] = []
+  let i = 0
+
+  const read = (): Point => {
+    const px = Number(tokens[i++])
+    const py = Number(tokens[i++])
+    return [originX + px * scale, baseline - py * scale]
+  }
+
+  while (i < tokens.length) {
+    const command = tokens[i++]
+    if (command === 'M') {
+      current = [read()]
+    } else if (command === 'L') {
+      current.push(read())
+    } else if (command === 'Q') {
+      const [x0, y0] = current[current.length - 1]!
+      const [cx, cy] = read()
+      const [x1, y1] = read()
+      const steps = Math.max(2, Math.min(16, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / 3)))
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps
+        const mt = 1 - t
+        current.push([
+          mt * mt * x0 + 2 * mt * t * cx + t * t * x1,
+          mt * mt * y0 + 2 * mt * t * cy + t * t * y1,
+        ])
+      }
+    } else if (command === 'Z') {
+      if (current.length > 2) polygons.push(current)
+      current = []
+    }
+  }
+
+  return polygons
+}
+
+/**
+ * Reduce text to characters the embedded font can draw: accents are
+ * stripped, and anything else without a glyph (emoji, CJK) is dropped.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s/g, ' ')
+    .split('')
+    .filter(char => char in OG_FONT.glyphs)
+    .join('')
+    .replace(/ {2,}/g, ' ')
+    .trim()
+}
+
+/**
+ * Width of normalized text in pixels at the given font size
+ */
+export function measureText(text: string, size: number): number {
+  const scale = size / OG_FONT.unitsPerEm
+  let width = 0
+  for (const char of text) {
+    width += (OG_FONT.glyphs[char]?.[0] ?? 0) * scale
+  }
+  return width
+}
+
+/**
+ * Draw normalized text with its baseline at `y`
+ */
+export function drawText(raster: Raster, text: string, x: number, y: number, size: number, color: RGB): void {
+  const scale = size / OG_FONT.unitsPerEm
+  const polygons: Point[][] = []
+  let penX = x
+
+  for (const char of text) {
+    const glyph = OG_FONT.glyphs[char]
+    if (!glyph) continue
+    polygons.push(...glyphPolygons(glyph[1], penX, y, scale))
+    penX += glyph[0] * scale
+  }
+
+  if (polygons.length > 0) {
+    fillPolygons(raster, polygons, color)
+  }
+}
+
+/**
+ * Break normalized text into lines no wider than `maxWidth`.
+ * Text beyond `maxLines` is cut at a word boundary and ends with an
+ * ellipsis. `truncated` reports whether that happened.
+ */
+export function wrapText(
+  text: string,
+  size: number,
+  maxWidth: number,
+  maxLines: number,
+): { lines: string[]; truncated: boolean } {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word
+    if (measureText(candidate, size) <= maxWidth || !line) {
+      line = candidate
+      continue
+    }
+    lines.push(line)
+    line = word
+  }
+  if (line) lines.push(line)
+
+  // Hard-break any single word that is wider than the line
+  const fitted = lines.flatMap((l) => {
+    if (measureText(l, size) <= maxWidth) return [l]
+    const parts: string[] = []
+    let part = ''
+    for (const char of l) {
+      if (part && measureText(part + char, size) > maxWidth) {
+        parts.push(part)
+        part = ''
+      }
+      part += char
+    }
+    if (part) parts.push(part)
+    return parts
+  })
+
+  if (fitted.length <= maxLines) {
+    return { lines: fitted, truncated: false }
+  }
+
+  const kept = fitted.slice(0, maxLines)
+  let last = kept[maxLines - 1]!
+  while (last && measureText(`${last}…`, size) > maxWidth) {
+    last = last.includes(' ') ? last.slice(0, last.lastIndexOf(' ')) : last.slice(0, -1)
+  }
+  kept[maxLines - 1] = `${last.replace(/[\s,.:;\-–—]+$/, '')}…`
+  return { lines: kept, truncated: true }
+}
+
+/**
+ * CRC-32 lookup table for PNG chunk checksums
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xFFFFFFFF
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xFF]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * Build a PNG chunk: length, type, data, CRC
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+/**
+ * zlib-compress bytes with the platform CompressionStream
+ */
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Encode an opaque raster as an 8-bit RGB PNG
+ */
+export async function encodePng(raster: Raster): Promise<Uint8Array> {
+  const { width, height, data } = raster
+  const stride = width * 3
+
+  // Each row: filter byte (2 = "Up") followed by RGB deltas from the row above
+  const scanlines = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (stride + 1)
+    scanlines[rowStart] = 2
+    for (let x = 0; x < width; x++) {
+      const si = (y * width + x) * 4
+      const above = si - width * 4
+      for (let c = 0; c < 3; c++) {
+        const value = data[si + c]!
+        const prior = y > 0 ? data[above + c]! : 0
+        scanlines[rowStart + 1 + x * 3 + c] = (value - prior) & 0xFF
+      }
+    }
+  }
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header[8] = 8 // bit depth
+  header[9] = 2 // color type: RGB
+  // compression, filter, and interlace methods are all 0
+
+  const signature = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])
+  const chunks = [
+    signature,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', await deflate(scanlines)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]
+
+  const png = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    png.set(chunk, offset)
+    offset += chunk.length
+  }
+  return png
+}
@@ -0,0 +1,461 @@
+import type { Episode, PodcastFeed, SearchResponse, SearchResult, TranscriptHit } from '../../types/podcast'
+
+/**
+ * Searchable fields and their relevance boosts.
+ * A match in the title counts five times as much as one in the show notes.
+ */
+type SearchField = 'title' | 'keywords' | 'persons' | 'description' | 'content' | 'transcript'
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 5,
+  keywords: 3,
+  persons: 3,
+  description: 1.5,
+  content: 1,
+  transcript: 0.75,
+}
+
+/** Score multipliers for non-exact term matches */
+const PREFIX_FACTOR = 0.6
+const FUZZY_FACTOR = 0.4
+
+/** Common English words that carry no search signal */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'will',
+  'with', 'you', 'your',
+])
+
+/**
+ * A transcript cue as stored in the index: only what's needed to
+ * match, highlight, and link to a point in the episode.
+ */
+export interface IndexedCue {
+  /** Start time in seconds */
+  startTime: number
+  text: string
+}
+
+interface IndexedDoc {
+  episode: Episode
+  /** Plain-text description + show notes, used for snippets */
+  text: string
+  /** Transcript cues, when the episode has an indexed transcript */
+  cues?: IndexedCue[]
+}
+
+/**
+ * Inverted index over a feed's episodes.
+ * `terms` maps each token to the documents containing it and a
+ * boost-weighted term frequency for that document.
+ */
+export interface SearchIndex {
+  docs: IndexedDoc[]
+  terms: Map<string, Map<number, number>>
+  /** Sorted vocabulary for prefix lookups */
+  vocabulary: string[]
+}
+
+/**
+ * Strip HTML tags and decode the handful of entities common in feeds
+ */
+export function stripHtml(html: string | undefined): string {
+  if (!html) return ''
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&apos;/gi, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Normalize a single word: lowercase and strip diacritics
+ */
+function normalizeWord(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+/**
+ * Split text into normalized search tokens, dropping stop words
+ * and single characters.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const token = normalizeWord(match[0])
+    if (token.length < 2 || STOP_WORDS.has(token)) continue
+    tokens.push(token)
+  }
+  return tokens
+}
+
+/**
+ * Levenshtein distance with an early exit once `max` is exceeded.
+ * Returns max + 1 when the distance is larger than max.
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      const value = Math.min(prev[j]! + 1, curr[j - 1]! + 1, prev[j - 1]! + cost)
+      curr.push(value)
+      if (value < rowMin) rowMin = value
+    }
+    if (rowMin > max) return max + 1
+    prev = curr
+  }
+  return prev[b.length]!
+}
+
+/**
+ * Typo tolerance: allow one edit for 4+ character words, two for 8+
+ */
+function maxEditsFor(token: string): number {
+  if (token.length >= 8) return 2
+  if (token.length >= 4) return 1
+  return 0
+}
+
+/**
+ * Count token occurrences in a piece of text
+ */
+function countTokens(text: string, counts = new Map<string, number>()): Map<string, number> {
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Token counts per transcript. Transcripts are by far the largest field, and
+ * the same cue arrays are reused across rebuilds while a transcript is
+ * unchanged, so only new or changed transcripts get tokenized again.
+ */
+const transcriptCounts = new WeakMap<IndexedCue[], Map<string, number>>()
+
+function countTranscriptTokens(cues: IndexedCue[]): Map<string, number> {
+  let counts = transcriptCounts.get(cues)
+  if (!counts) {
+    counts = new Map()
+    for (const cue of cues) countTokens(cue.text, counts)
+    transcriptCounts.set(cues, counts)
+  }
+  return counts
+}
+
+/**
+ * Build an inverted index from a list of episodes.
+ * `transcripts` maps episode GUIDs to their transcript cues.
+ */
+export function buildSearchIndex(
+  episodes: Episode[],
+  transcripts: ReadonlyMap<string, IndexedCue[]> = new Map(),
+): SearchIndex {
+  const terms = new Map<string, Map<number, number>>()
+  const docs: IndexedDoc[] = []
+
+  episodes.forEach((episode, docId) => {
+    const description = stripHtml(episode.description)
+    const content = stripHtml(episode.htmlContent)
+
+    const cues = transcripts.get(episode.guid)
+
+    const fields: Record<Exclude<SearchField, 'transcript'>, string> = {
+      title: episode.title,
+      keywords: (episode.keywords || []).join(' '),
+      persons: (episode.podcast2?.persons || []).map(p => p.name).join(' '),
+      description,
+      content: content === description ? '' : content,
+    }
+
+    const fieldCounts = new Map<SearchField, Map<string, number>>()
+    for (const field of Object.keys(fields) as Array<keyof typeof fields>) {
+      fieldCounts.set(field, countTokens(fields[field]))
+    }
+    if (cues?.length) {
+      fieldCounts.set('transcript', countTranscriptTokens(cues))
+    }
+
+    // Fold per-field term frequency into a boosted weight
+    const weights = new Map<string, number>()
+    for (const [field, counts] of fieldCounts) {
+      for (const [token, count] of counts) {
+        // Log-scaled frequency so long show notes don't drown out titles
+        const weight = FIELD_BOOSTS[field] * (1 + Math.log(count))
+        weights.set(token, (weights.get(token) || 0) + weight)
+      }
+    }
+
+    for (const [token, weight] of weights) {
+      let postings = terms.get(token)
+      if (!postings) {
+        postings = new Map()
+        terms.set(token, postings)
+      }
+      postings.set(docId, weight)
+    }
+
+    docs.push({
+      episode,
+      text: [description, fields.content].filter(Boolean).join(' '),
+      cues: cues?.length ? cues : undefined,
+    })
+  })
+
+  return {
+    docs,
+    terms,
+    vocabulary: Array.from(terms.keys()).sort(),
+  }
+}
+
+/**
+ * Find index terms matching a query token: the exact term, terms it is a
+ * prefix of, and terms within the typo tolerance. Returns each matching
+ * term with its score multiplier.
+ */
+export function expandToken(index: SearchIndex, token: string): Map<string, number> {
+  const matches = new Map<string, number>()
+
+  if (index.terms.has(token)) {
+    matches.set(token, 1)
+  }
+
+  // Prefix matches via binary search on the sorted vocabulary
+  let lo = 0
+  let hi = index.vocabulary.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (index.vocabulary[mid]! < token) lo = mid + 1
+    else hi = mid
+  }
+  for (let i = lo; i < index.vocabulary.length; i++) {
+    const term = index.vocabulary[i]!
+    if (!term.startsWith(token)) break
+    if (!matches.has(term)) matches.set(term, PREFIX_FACTOR)
+  }
+
+  // Fuzzy matches for typos
+  const maxEdits = maxEditsFor(token)
+  if (maxEdits > 0) {
+    for (const term of index.vocabulary) {
+      if (matches.has(term)) continue
+      if (boundedEditDistance(token, term, maxEdits) <= maxEdits) {
+        matches.set(term, FUZZY_FACTOR)
+      }
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Escape text for safe insertion into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * HTML-escape text and wrap words whose normalized form is in `terms`
+ * with <mark> tags.
+ */
+export function highlight(text: string, terms: Set<string>): string {
+  let result = ''
+  let last = 0
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index!
+    const word = match[0]
+    result += escapeHtml(text.slice(last, start))
+    result += terms.has(normalizeWord(word)) ? `<mark>${escapeHtml(word)}</mark>` : escapeHtml(word)
+    last = start + word.length
+  }
+  return result + escapeHtml(text.slice(last))
+}
+
+/**
+ * Build a highlighted excerpt of `text` centered on the first matching term.
+ * Falls back to the start of the text when no term appears in it.
+ */
+export function makeSnippet(text: string, terms: Set<string>, length = 200): string {
+  if (!text) return ''
+
+  let hit = -1
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (terms.has(normalizeWord(match[0]))) {
+      hit = match.index!
+      break
+    }
+  }
+
+  let start = hit > 0 ? Math.max(0, hit - Math.floor(length / 3)) : 0
+  let end = Math.min(text.length, start + length)
+
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    if (space !== -1 && space < (hit === -1 ? end : hit)) start = space + 1
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > start) end = space
+  }
+
+  const prefix = start > 0 ? '… ' : ''
+  const suffix = end < text.length ? ' …' : ''
+  return prefix + highlight(text.slice(start, end), terms) + suffix
+}
+
+/**
+ * Find the transcript cue that best matches the query: the one containing
+ * the most distinct matched terms, earliest first on ties.
+ */
+export function findTranscriptHit(cues: IndexedCue[], terms: Set<string>): TranscriptHit | undefined {
+  let best: IndexedCue | undefined
+  let bestCount = 0
+
+  for (const cue of cues) {
+    const found = new Set<string>()
+    for (const token of tokenize(cue.text)) {
+      if (terms.has(token)) found.add(token)
+    }
+    if (found.size > bestCount) {
+      best = cue
+      bestCount = found.size
+    }
+  }
+
+  if (!best) return undefined
+  return {
+    startTime: Math.floor(best.startTime),
+    snippet: makeSnippet(best.text, terms),
+  }
+}
+
+/**
+ * Rank documents for a query. Every query token must match (AND semantics);
+ * each token contributes its best-matching term's weight × idf × match factor.
+ */
+export function rankDocuments(
+  index: SearchIndex,
+  query: string,
+): { ranked: Array<{ docId: number; score: number }>; matchedTerms: Set<string> } {
+  const tokens = Array.from(new Set(tokenize(query)))
+  const matchedTerms = new Set<string>()
+  if (tokens.length === 0) return { ranked: [], matchedTerms }
+
+  const totalDocs = index.docs.length
+  let scores: Map<number, number> | null = null
+
+  for (const token of tokens) {
+    const tokenScores = new Map<number, number>()
+
+    for (const [term, factor] of expandToken(index, token)) {
+      const postings = index.terms.get(term)!
+      const idf = Math.log(1 + totalDocs / postings.size)
+      matchedTerms.add(term)
+
+      for (const [docId, weight] of postings) {
+        const score = weight * idf * factor
+        if (score > (tokenScores.get(docId) || 0)) tokenScores.set(docId, score)
+      }
+    }
+
+    if (scores === null) {
+      scores = tokenScores
+    } else {
+      const next = new Map<number, number>()
+      for (const [docId, score] of scores) {
+        const tokenScore = tokenScores.get(docId)
+        if (tokenScore !== undefined) next.set(docId, score + tokenScore)
+      }
+      scores = next
+    }
+
+    if (scores.size === 0) break
+  }
+
+  const ranked = Array.from(scores || [], ([docId, score]) => ({ docId, score }))
+    .sort((a, b) => b.score - a.score || a.docId - b.docId)
+
+  return { ranked, matchedTerms }
+}
+
+/**
+ * Run a ranked, paginated search and build highlighted results
+ */
+export function searchEpisodes(
+  index: SearchIndex,
+  query: string,
+  { page = 1, limit = 20 }: { page?: number; limit?: number } = {},
+): SearchResponse {
+  const { ranked, matchedTerms } = rankDocuments(index, query)
+  const total = ranked.length
+  const start = (page - 1) * limit
+
+  const results: SearchResult[] = ranked.slice(start, start + limit).map(({ docId, score }) => {
+    const { episode, text, cues } = index.docs[docId]!
+    return {
+      slug: episode.slug,
+      title: episode.title,
+      description: episode.description,
+      pubDate: episode.pubDate,
+      duration: episode.duration,
+      episodeNumber: episode.episodeNumber,
+      episodeType: episode.episodeType,
+      artwork: episode.artwork,
+      score: Math.round(score * 1000) / 1000,
+      titleHighlight: highlight(episode.title, matchedTerms),
+      snippet: makeSnippet(text, matchedTerms),
+      transcriptHit: cues ? findTranscriptHit(cues, matchedTerms) : undefined,
+    }
+  })
+
+  return {
+    query,
+    results,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  }
+}
+
+const EMPTY_TRANSCRIPTS: ReadonlyMap<string, IndexedCue[]> = new Map()
+
+/**
+ * Search indexes keyed by the cached feed object, so an index is built once
+ * per parsed feed and dropped automatically when the feed is refreshed.
+ * The transcript map is compared by identity: the transcript store swaps in
+ * a new map whenever a transcript is added or changed.
+ */
+const indexCache = new WeakMap<PodcastFeed, { transcripts: ReadonlyMap<string, IndexedCue[]>; index: SearchIndex }>()
+
+/**
+ * Get (or lazily build) the search index for a parsed feed
+ */
+export function getSearchIndex(
+  feed: PodcastFeed,
+  transcripts: ReadonlyMap<string, IndexedCue[]> = EMPTY_TRANSCRIPTS,
+): SearchIndex {
+  const cached = indexCache.get(feed)
+  if (cached && cached.transcripts === transcripts) return cached.index
+
+  const index = buildSearchIndex(feed.episodes, transcripts)
+  indexCache.set(feed, { transcripts, index })
+  return index
+}
@@ -0,0 +1,73 @@
+import type { Episode, Podcast, SeasonSummary } from '../../types/podcast'
+
+/**
+ * Oldest-first comparator. Episodes published at the same moment
+ * (bulk-released series) fall back to their episode numbers.
+ */
+function compareOldestFirst(a: Episode, b: Episode): number {
+  const diff = new Date(a.pubDate).getTime() - new Date(b.pubDate).getTime()
+  if (diff !== 0 && !Number.isNaN(diff)) return diff
+  return (a.episodeNumber ?? Infinity) - (b.episodeNumber ?? Infinity)
+}
+
+/**
+ * Episodes of one season in listening order.
+ *
+ * Feeds list episodes newest-first. That suits episodic shows, but a
+ * serial show is meant to be heard in order, so its seasons are
+ * returned oldest-first.
+ */
+export function getSeasonEpisodes(
+  episodes: Episode[],
+  seasonNumber: number,
+  type: Podcast['type'],
+): Episode[] {
+  const season = episodes.filter(ep => ep.seasonNumber === seasonNumber)
+  return type === 'serial' ? season.sort(compareOldestFirst) : season
+}
+
+/**
+ * Summarize every numbered season in the feed, lowest season first.
+ * Episodes without an itunes:season are not part of any season.
+ */
+export function summarizeSeasons(episodes: Episode[]): SeasonSummary[] {
+  const bySeason = new Map<number, Episode[]>()
+  for (const episode of episodes) {
+    if (episode.seasonNumber === undefined || Number.isNaN(episode.seasonNumber)) continue
+    const season = bySeason.get(episode.seasonNumber)
+    if (season) season.push(episode)
+    else bySeason.set(episode.seasonNumber, [episode])
+  }
+
+  return Array.from(bySeason.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([seasonNumber, seasonEpisodes]) => {
+      const ordered = [...seasonEpisodes].sort(compareOldestFirst)
+      return {
+        seasonNumber,
+        episodeCount: ordered.length,
+        duration: ordered.reduce((sum, ep) => sum + ep.duration, 0),
+        firstPubDate: ordered[0]!.pubDate,
+        latestPubDate: ordered[ordered.length - 1]!.pubDate,
+        artwork: ordered[0]!.artwork,
+      }
+    })
+}
+
+/**
+ * The episode a new listener of a serial show should start with: the
+ * first full episode of the earliest season (trailers and bonus
+ * episodes are skipped unless there is nothing else).
+ *
+ * Returns undefined for episodic shows, which have no starting point.
+ */
+export function findStartEpisode(episodes: Episode[], type: Podcast['type']): Episode | undefined {
+  if (type !== 'serial' || episodes.length === 0) return undefined
+
+  const seasons = summarizeSeasons(episodes)
+  const pool = seasons.length > 0
+    ? getSeasonEpisodes(episodes, seasons[0]!.seasonNumber, type)
+    : [...episodes].sort(compareOldestFirst)
+
+  return pool.find(ep => ep.episodeType === 'full') ?? pool[0]
+}
@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * HMAC algorithms accepted in signature headers, by their header name
+ */
+const ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'] as const
+
+type SignatureAlgorithm = typeof ALGORITHMS[number]
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a)
+  const bufferB = Buffer.from(b)
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+}
+
+/**
+ * Hex HMAC of a request body
+ */
+export function signBody(secret: string, body: string | Buffer, algorithm: SignatureAlgorithm = 'sha256'): string {
+  return createHmac(algorithm, secret).update(body).digest('hex')
+}
+
+/**
+ * Check a `<algorithm>=<hex hmac>` signature header, as sent by WebSub hubs
+ * (X-Hub-Signature) and webhook senders (X-Hub-Signature-256), against a body.
+ */
+export function verifySignature(secret: string, body: string | Buffer, header: string | undefined): boolean {
+  const match = header?.trim().match(/^(\w+)=([0-9a-f]+)$/i)
+  if (!match) return false
+
+  const algorithm = match[1]!.toLowerCase() as SignatureAlgorithm
+  if (!ALGORITHMS.includes(algorithm)) return false
+
+  return safeEqual(match[2]!.toLowerCase(), signBody(secret, body, algorithm))
+}
@@ -1,3 +1,5 @@
+import type { Episode } from '../../types/podcast'
+
 /**
  * Generate a URL-safe slug from a string
  * @param text - The text to slugify (usually episode title)
@@ -34,3 +36,118 @@ export function generateSlug(text: string, episodeNumber?: number): string {
   
   return slug
 }
+
+/**
+ * Make every episode's slug unique across the feed.
+ *
+ * Episodes are taken oldest first, so the first episode to use a slug keeps
+ * it and later ones get `-2`, `-3`, … (skipping suffixes another episode
+ * already has). A new episode never takes an existing episode's slug.
+ * Returns the same array when nothing collides.
+ */
+export function assignUniqueSlugs(episodes: Episode[]): Episode[] {
+  // Oldest first; feeds list newest first, so later items win ties
+  const byAge = episodes
+    .map((episode, index) => ({ episode, index, time: Date.parse(episode.pubDate) || 0 }))
+    .sort((a, b) => a.time - b.time || b.index - a.index)
+
+  const generated = new Set(episodes.map(episode => episode.slug))
+  const taken = new Set<string>()
+  const renamed = new Map<Episode, string>()
+
+  for (const { episode } of byAge) {
+    let slug = episode.slug
+    if (taken.has(slug)) {
+      let suffix = 2
+      while (generated.has(`${episode.slug}-${suffix}`) || taken.has(`${episode.slug}-${suffix}`)) suffix++
+      slug = `${episode.slug}-${suffix}`
+      renamed.set(episode, slug)
+    }
+    taken.add(slug)
+  }
+
+  if (renamed.size === 0) return episodes
+  return episodes.map(episode => (renamed.has(episode) ? { ...episode, slug: renamed.get(episode)! } : episode))
+}
+
+/**
+ * Storage key prefix for slug histories. Deliberately outside the feed
+ * cache's prefix, so clearing the feed cache keeps old links working.
+ */
+const HISTORY_KEY_PREFIX = 'podcast:slugs:'
+
+/**
+ * Every slug a feed's episodes have had, mapped to the episode GUID
+ */
+type SlugHistory = Record<string, string>
+
+/** Slug histories loaded in this process, by feed URL */
+const histories = new Map<string, Promise<SlugHistory>>()
+
+function getHistoryKey(feedUrl: string): string {
+  return `${HISTORY_KEY_PREFIX}${Buffer.from(feedUrl).toString('base64')}`
+}
+
+/**
+ * Read a feed's slug history from Nitro storage (once per process)
+ */
+function readSlugHistory(feedUrl: string): Promise<SlugHistory> {
+  let history = histories.get(feedUrl)
+  if (!history) {
+    history = useStorage('cache').getItem<SlugHistory>(getHistoryKey(feedUrl))
+      .then(stored => stored ?? {})
+      .catch((error) => {
+        console.warn('Failed to read slug history:', error)
+        return {}
+      })
+    histories.set(feedUrl, history)
+  }
+  return history
+}
+
+/**
+ * Remember the current slug of every episode, so links using a slug an
+ * episode had before (e.g. before its title was edited) keep resolving
+ */
+export async function recordSlugs(feedUrl: string, episodes: Episode[]): Promise<void> {
+  const history = await readSlugHistory(feedUrl)
+
+  let changed = false
+  for (const episode of episodes) {
+    const guid = String(episode.guid)
+    if (history[episode.slug] !== guid) {
+      history[episode.slug] = guid
+      changed = true
+    }
+  }
+
+  if (changed) {
+    await useStorage('cache').setItem(getHistoryKey(feedUrl), history)
+  }
+}
+
+/**
+ * Find an episode by its current slug, a slug it used to have, or its GUID.
+ * `redirect` is set when the episode was found by anything but its current
+ * slug, so callers can send the client to the canonical URL.
+ */
+export async function findEpisode(
+  feedUrl: string,
+  episodes: Episode[],
+  slugOrGuid: string,
+): Promise<{ episode: Episode; redirect: boolean } | null> {
+  const current = episodes.find(episode => episode.slug === slugOrGuid)
+  if (current) return { episode: current, redirect: false }
+
+  const history = await readSlugHistory(feedUrl)
+  const guid = Object.hasOwn(history, slugOrGuid) ? history[slugOrGuid] : slugOrGuid
+  const episode = episodes.find(ep => String(ep.guid) === guid)
+  return episode ? { episode, redirect: true } : null
+}
+
+/**
+ * Forget slug histories loaded in this process (used by tests)
+ */
+export function clearSlugHistories() {
+  histories.clear()
+}
@@ -0,0 +1,50 @@
+import { randomBytes } from 'node:crypto'
+import type { BoostResult } from '../../types/podcast'
+
+/** A node pubkey: 33 bytes, hex encoded */
+const NODE_PUBKEY = /^0[23][0-9a-f]{64}$/i
+
+/** A Lightning address (user@domain) */
+const LIGHTNING_ADDRESS = /^[\w.+-]+@[\w-]+(\.[\w-]+)+$/
+
+/**
+ * Check a payment the way a wallet would, returning what's wrong with it
+ */
+function paymentProblem(payment: any): string | undefined {
+  if (!payment || typeof payment !== 'object') return 'Not a payment'
+  if (!Number.isInteger(payment.amount) || payment.amount <= 0) return 'Amount must be a whole number of sats'
+
+  if (payment.method === 'keysend') {
+    if (!NODE_PUBKEY.test(String(payment.destination ?? ''))) return 'Destination is not a node pubkey'
+    const records = payment.customRecords ?? {}
+    if (typeof records !== 'object' || Object.values(records).some(value => typeof value !== 'string')) {
+      return 'Custom records must be strings'
+    }
+    return undefined
+  }
+
+  if (payment.method === 'lnaddress') {
+    if (!LIGHTNING_ADDRESS.test(String(payment.destination ?? ''))) return 'Destination is not a Lightning address'
+    return undefined
+  }
+
+  return `Unsupported method "${payment.method}"`
+}
+
+/**
+ * Stand-in for a wallet service, for trying boosts without a Lightning
+ * wallet or a network connection. Valid payments are reported as paid
+ * with a random preimage; nothing is sent anywhere.
+ */
+export function settleStandInPayments(payments: unknown[]): BoostResult[] {
+  return payments.map((payment: any) => {
+    const result = {
+      destination: String(payment?.destination ?? ''),
+      amount: Number(payment?.amount) || 0,
+    }
+    const problem = paymentProblem(payment)
+    return problem
+      ? { ...result, ok: false, error: problem }
+      : { ...result, ok: true, preimage: randomBytes(32).toString('hex') }
+  })
+}
@@ -0,0 +1,208 @@
+import type { Episode, PodcastFeed } from '../../types/podcast'
+import { parseTranscript } from '../../app/utils/transcript'
+import type { IndexedCue } from './search-index'
+
+/**
+ * Storage key prefix for parsed transcripts
+ */
+const STORAGE_KEY_PREFIX = 'podcast:transcripts:'
+
+/**
+ * Transcripts fetched in parallel during a sync
+ */
+const FETCH_CONCURRENCY = 4
+
+/**
+ * Per-transcript fetch timeout in milliseconds
+ */
+const FETCH_TIMEOUT = 15_000
+
+/**
+ * A parsed transcript as persisted in Nitro storage.
+ * The URL identifies the transcript version: hosts publish a new URL when
+ * a transcript is edited, so a changed URL means the cues must be rebuilt.
+ */
+interface StoredTranscript {
+  url: string
+  cues: IndexedCue[]
+}
+
+/**
+ * Generate storage key from episode GUID
+ */
+function getStorageKey(guid: string): string {
+  // Use base64 encoding to handle special characters in GUIDs
+  return `${STORAGE_KEY_PREFIX}${Buffer.from(guid).toString('base64')}`
+}
+
+/**
+ * A feed's transcripts in memory. Each feed has its own, so in network
+ * mode one show's sync doesn't hold up or invalidate another's.
+ */
+interface FeedTranscripts {
+  /** Transcripts loaded into memory, keyed by episode GUID */
+  loaded: Map<string, StoredTranscript>
+  /** Transcript URLs that failed to fetch, skipped until the next refresh */
+  failed: Map<string, string>
+  /**
+   * Cue lists keyed by episode GUID, handed to the search index.
+   * Replaced (never mutated) whenever a transcript changes, so the search
+   * index can detect changes by identity.
+   */
+  cueMap: ReadonlyMap<string, IndexedCue[]>
+  /** In-flight background sync, if any */
+  backgroundSync: Promise<number> | null
+}
+
+/** Transcripts per feed URL */
+const feedTranscripts = new Map<string, FeedTranscripts>()
+
+/** Feeds whose stored transcripts have already been loaded */
+const primedFeeds = new WeakSet<PodcastFeed>()
+
+/**
+ * A feed's transcripts, created empty on first use
+ */
+function transcriptsFor(feedUrl: string): FeedTranscripts {
+  let transcripts = feedTranscripts.get(feedUrl)
+  if (!transcripts) {
+    transcripts = { loaded: new Map(), failed: new Map(), cueMap: new Map(), backgroundSync: null }
+    feedTranscripts.set(feedUrl, transcripts)
+  }
+  return transcripts
+}
+
+/**
+ * Episodes whose transcript isn't loaded yet or has a new URL
+ */
+function pendingEpisodes(feed: PodcastFeed, transcripts: FeedTranscripts, retryFailed: boolean): Episode[] {
+  const { loaded, failed } = transcripts
+  return feed.episodes.filter((episode) => {
+    const url = episode.podcast2?.transcript?.url
+    if (!url || loaded.get(episode.guid)?.url === url) return false
+    return retryFailed || failed.get(episode.guid) !== url
+  })
+}
+
+/**
+ * Fetch a transcript and reduce it to the cues the search index needs
+ */
+async function fetchTranscriptCues(episode: Episode): Promise<IndexedCue[]> {
+  const { url, type } = episode.podcast2!.transcript!
+
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'nuxt-podcast-theme/0.1.0',
+      'Accept': type,
+    },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transcript: ${response.status} ${response.statusText}`)
+  }
+
+  const content = await response.text()
+  const contentType = response.headers.get('content-type') || type
+  const { cues } = parseTranscript(content, contentType, episode.duration)
+
+  return cues
+    .filter(cue => cue.text.trim())
+    .map(cue => ({ startTime: cue.startTime, text: cue.text }))
+}
+
+/**
+ * Run `task` over `items` with at most `limit` in flight at once
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]!)
+    }
+  })
+  await Promise.all(workers)
+}
+
+/**
+ * Bring the transcript store up to date with the feed at `feedUrl`.
+ *
+ * Only episodes with a new or changed transcript URL are processed. Each is
+ * looked up in Nitro storage first and fetched only when storage doesn't
+ * have that URL (unless `fetchMissing` is false). Failed fetches are
+ * skipped on later syncs until `retryFailed` is set, as on a refresh.
+ *
+ * Returns the number of transcripts fetched and re-indexed.
+ */
+export async function syncTranscripts(
+  feedUrl: string,
+  feed: PodcastFeed,
+  { fetchMissing = true, retryFailed = false }: { fetchMissing?: boolean; retryFailed?: boolean } = {},
+): Promise<number> {
+  const storage = useStorage('cache')
+  const transcripts = transcriptsFor(feedUrl)
+  const { loaded, failed } = transcripts
+  const pending = pendingEpisodes(feed, transcripts, retryFailed)
+  let changed = false
+  let fetched = 0
+
+  await runWithConcurrency(pending, FETCH_CONCURRENCY, async (episode) => {
+    const url = episode.podcast2!.transcript!.url
+    const key = getStorageKey(episode.guid)
+
+    let entry = await storage.getItem<StoredTranscript>(key).catch(() => null)
+
+    if (entry?.url !== url) {
+      if (!fetchMissing) return
+      try {
+        entry = { url, cues: await fetchTranscriptCues(episode) }
+        fetched++
+      } catch (error) {
+        failed.set(episode.guid, url)
+        console.warn(`Failed to index transcript for "${episode.title}":`, error)
+        return
+      }
+      await storage.setItem(key, entry).catch((error) => {
+        console.warn('Failed to store transcript index:', error)
+      })
+    }
+
+    failed.delete(episode.guid)
+    loaded.set(episode.guid, entry)
+    changed = true
+  })
+
+  if (changed) {
+    transcripts.cueMap = new Map(Array.from(loaded, ([guid, entry]) => [guid, entry.cues]))
+  }
+
+  return fetched
+}
+
+/**
+ * Get transcript cues for the episodes of the feed at `feedUrl`, keyed by GUID.
+ *
+ * The first call for a feed waits for transcripts already in storage;
+ * anything missing is fetched in the background and shows up in
+ * results once indexed, so a search never waits on transcript hosts.
+ */
+export async function getTranscriptCues(feedUrl: string, feed: PodcastFeed): Promise<ReadonlyMap<string, IndexedCue[]>> {
+  if (!primedFeeds.has(feed)) {
+    primedFeeds.add(feed)
+    await syncTranscripts(feedUrl, feed, { fetchMissing: false })
+  }
+
+  const transcripts = transcriptsFor(feedUrl)
+  if (!transcripts.backgroundSync && pendingEpisodes(feed, transcripts, false).length > 0) {
+    transcripts.backgroundSync = syncTranscripts(feedUrl, feed)
+      .catch((error) => {
+        console.warn('Transcript indexing failed:', error)
+        return 0
+      })
+      .finally(() => {
+        transcripts.backgroundSync = null
+      })
+  }
+
+  return transcripts.cueMap
+}
@@ -0,0 +1,271 @@
+import { createHmac } from 'node:crypto'
+import type { ShowConfig } from '../../types/podcast'
+import { getCachedPodcastFeed } from './feed-cache'
+import { safeEqual, verifySignature } from './signature'
+
+/**
+ * Lease requested from the hub, in seconds. Hubs may grant a different one.
+ */
+const LEASE_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Renew a subscription this long before its lease ends, in seconds
+ */
+const RENEW_MARGIN = 60 * 60
+
+/**
+ * Retry a subscription request the hub rejected after this long (ms)
+ */
+const RETRY_DELAY = 15 * 60 * 1000
+
+/**
+ * Storage key prefix for subscriptions
+ */
+const SUBSCRIPTION_KEY_PREFIX = 'podcast:websub:'
+
+/**
+ * A subscription as stored. Kept in Nitro storage rather than in memory,
+ * so whichever server instance the hub reaches knows about it.
+ * The secret isn't stored: it's derived from the refresh secret.
+ */
+interface Subscription {
+  hub: string
+  topic: string
+  callback: string
+  /** Whether the hub has verified the subscription */
+  verified: boolean
+  /** When the lease the hub granted ends (ms since epoch), once verified */
+  leaseEndsAt?: number
+}
+
+/** Pending renewals by feed URL, for this process */
+const renewals = new Map<string, ReturnType<typeof setTimeout>>()
+
+function getSubscriptionKey(feedUrl: string): string {
+  return `${SUBSCRIPTION_KEY_PREFIX}${Buffer.from(feedUrl).toString('base64')}`
+}
+
+async function readSubscription(feedUrl: string): Promise<Subscription | null> {
+  try {
+    return await useStorage('cache').getItem<Subscription>(getSubscriptionKey(feedUrl))
+  } catch (error) {
+    console.warn('Failed to read WebSub subscription:', error)
+    return null
+  }
+}
+
+async function writeSubscription(feedUrl: string, subscription: Subscription): Promise<void> {
+  try {
+    await useStorage('cache').setItem(getSubscriptionKey(feedUrl), subscription)
+  } catch (error) {
+    console.warn('Failed to store WebSub subscription:', error)
+  }
+}
+
+/**
+ * Secret the hub signs pushed content with: an HMAC of the topic under the
+ * refresh secret, so every server instance derives the same one
+ */
+export function subscriptionSecret(topic: string): string {
+  const { refreshSecret } = useRuntimeConfig().podcast
+  return createHmac('sha256', refreshSecret).update(`websub:${topic}`).digest('hex')
+}
+
+/**
+ * Feeds to subscribe to: every show in network mode, otherwise the single feed
+ */
+function configuredFeeds(): Array<{ feedUrl: string; showId?: string }> {
+  const podcast = useAppConfig().podcast as { feedUrl?: string; shows?: ShowConfig[] } | undefined
+  const shows = Array.isArray(podcast?.shows) ? podcast.shows.filter(show => show?.id && show?.feedUrl) : []
+  if (shows.length > 0) {
+    return shows.map(show => ({ feedUrl: show.feedUrl, showId: show.id }))
+  }
+
+  const feedUrl = process.env.FEED_URL || podcast?.feedUrl
+  return feedUrl ? [{ feedUrl }] : []
+}
+
+/**
+ * Token in the callback URL. Only the hub is given the callback, so a
+ * request carrying it (such as a denial) came from the hub.
+ */
+export function callbackToken(topic: string): string {
+  const { refreshSecret } = useRuntimeConfig().podcast
+  return createHmac('sha256', refreshSecret).update(`websub-callback:${topic}`).digest('hex')
+}
+
+/**
+ * Callback URL the hub verifies and pushes to
+ */
+export function callbackUrl(siteUrl: string, topic: string, showId?: string): string {
+  const params = new URLSearchParams()
+  if (showId) params.set('show', showId)
+  params.set('token', callbackToken(topic))
+  return `${siteUrl.replace(/\/+$/, '')}/api/podcast/websub?${params}`
+}
+
+/**
+ * Whether a callback request carries the subscription's callback token
+ */
+function hasCallbackToken(subscription: Subscription, query: Record<string, unknown>): boolean {
+  return typeof query.token === 'string' && safeEqual(query.token, callbackToken(subscription.topic))
+}
+
+function scheduleRenewal(feedUrl: string, delay: number) {
+  const pending = renewals.get(feedUrl)
+  if (pending) clearTimeout(pending)
+
+  const renewal = setTimeout(async () => {
+    renewals.delete(feedUrl)
+    const subscription = await readSubscription(feedUrl)
+    if (!subscription) return
+    subscribe(feedUrl, subscription).catch((error) => {
+      console.warn(`WebSub renewal failed for ${subscription.topic}:`, error)
+    })
+  }, delay)
+  // Don't keep the process alive just to renew
+  renewal.unref?.()
+  renewals.set(feedUrl, renewal)
+}
+
+/**
+ * Ask a hub to push updates of a topic to our callback.
+ * The hub answers 202 and then verifies the intent with a GET to the callback.
+ */
+export async function subscribe(
+  feedUrl: string,
+  options: Pick<Subscription, 'hub' | 'topic' | 'callback'>,
+): Promise<void> {
+  const existing = await readSubscription(feedUrl)
+  const { hub, topic, callback } = options
+
+  // Keep accepting pushes under a verified subscription while it's renewed
+  const renewing = !!existing?.verified && existing.topic === topic && existing.callback === callback
+  await writeSubscription(feedUrl, {
+    hub,
+    topic,
+    callback,
+    verified: renewing,
+    leaseEndsAt: renewing ? existing?.leaseEndsAt : undefined,
+  })
+
+  const response = await fetch(hub, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      'hub.mode': 'subscribe',
+      'hub.topic': topic,
+      'hub.callback': callback,
+      'hub.lease_seconds': String(LEASE_SECONDS),
+      'hub.secret': subscriptionSecret(topic),
+    }),
+  })
+
+  if (!response.ok) {
+    scheduleRenewal(feedUrl, RETRY_DELAY)
+    throw new Error(`Hub rejected subscription: ${response.status} ${response.statusText}`)
+  }
+}
+
+/**
+ * Answer a hub's verification request (GET to the callback).
+ * Returns the challenge to echo back, or null if we didn't ask for this
+ * subscription, in which case the callback should respond 404.
+ */
+export async function verifyIntent(feedUrl: string, query: Record<string, unknown>): Promise<string | null> {
+  const subscription = await readSubscription(feedUrl)
+  const challenge = query['hub.challenge']
+
+  if (
+    !subscription
+    || query['hub.mode'] !== 'subscribe'
+    || query['hub.topic'] !== subscription.topic
+    || !hasCallbackToken(subscription, query)
+    || typeof challenge !== 'string'
+  ) {
+    return null
+  }
+
+  // Renew before the granted lease runs out
+  const lease = Number(query['hub.lease_seconds']) || LEASE_SECONDS
+  const renewIn = lease > RENEW_MARGIN * 2 ? lease - RENEW_MARGIN : lease / 2
+  await writeSubscription(feedUrl, { ...subscription, verified: true, leaseEndsAt: Date.now() + lease * 1000 })
+  scheduleRenewal(feedUrl, renewIn * 1000)
+
+  return challenge
+}
+
+/**
+ * Handle a hub denying a subscription: stop accepting pushes and ask again later.
+ * Denials without the callback token are ignored, since anyone can send one.
+ */
+export async function handleDenial(feedUrl: string, query: Record<string, unknown>): Promise<void> {
+  const subscription = await readSubscription(feedUrl)
+  if (!subscription || query['hub.topic'] !== subscription.topic || !hasCallbackToken(subscription, query)) return
+
+  console.warn(`WebSub subscription to ${subscription.topic} denied: ${query['hub.reason'] ?? 'no reason given'}`)
+  await writeSubscription(feedUrl, { ...subscription, verified: false, leaseEndsAt: undefined })
+  scheduleRenewal(feedUrl, RETRY_DELAY)
+}
+
+/**
+ * Whether pushed content came from the hub of a verified subscription,
+ * by its X-Hub-Signature
+ */
+export async function verifyContent(feedUrl: string, body: string | Buffer, signature: string | undefined): Promise<boolean> {
+  const subscription = await readSubscription(feedUrl)
+  return !!subscription?.verified && verifySignature(subscriptionSecret(subscription.topic), body, signature)
+}
+
+/**
+ * Subscribe every configured feed that announces a WebSub hub.
+ * Called at server start; a subscription another instance already has
+ * verified is only scheduled for renewal, not requested again.
+ * Does nothing without a public site URL and the refresh secret (which the
+ * subscription secret is derived from).
+ */
+export async function startWebSub(siteUrl: string): Promise<void> {
+  if (!siteUrl) return
+  if (!useRuntimeConfig().podcast.refreshSecret) {
+    console.warn('WebSub needs NUXT_PODCAST_REFRESH_SECRET; not subscribing')
+    return
+  }
+
+  await Promise.all(configuredFeeds().map(async ({ feedUrl, showId }) => {
+    try {
+      const { podcast } = await getCachedPodcastFeed(feedUrl)
+      if (!podcast.websub) return
+
+      const { hub, topic } = podcast.websub
+      const callback = callbackUrl(siteUrl, topic, showId)
+
+      const stored = await readSubscription(feedUrl)
+      const renewAt = (stored?.leaseEndsAt ?? 0) - RENEW_MARGIN * 1000
+      if (stored?.verified && stored.hub === hub && stored.topic === topic && stored.callback === callback && renewAt > Date.now()) {
+        scheduleRenewal(feedUrl, renewAt - Date.now())
+        return
+      }
+
+      await subscribe(feedUrl, { hub, topic, callback })
+      console.log(`Requested WebSub subscription to ${topic} from ${hub}`)
+    } catch (error) {
+      console.warn(`WebSub subscription failed for ${feedUrl}:`, error)
+    }
+  }))
+}
+
+/**
+ * Forget all subscriptions and pending renewals (used by tests)
+ */
+export async function clearSubscriptions(): Promise<void> {
+  for (const renewal of renewals.values()) clearTimeout(renewal)
+  renewals.clear()
+
+  const storage = useStorage('cache')
+  try {
+    const keys = await storage.getKeys(SUBSCRIPTION_KEY_PREFIX)
+    await Promise.all(keys.map(key => storage.removeItem(key)))
+  } catch (error) {
+    console.warn('Failed to clear WebSub subscriptions:', error)
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
 
 // Mock howler before importing the composable.
 // Howl must be a proper constructor function (not arrow), since the
@@ -21,20 +21,35 @@ vi.mock('howler', () => ({
   }),
 }))
 
-// Mock #app (Nuxt auto-imports)
+// Mock #app (Nuxt auto-imports). Tests set query params on mockRoute.
+const { mockRoute } = vi.hoisted(() => ({
+  mockRoute: { query: {} as Record<string, string>, params: {}, path: '/' },
+}))
 vi.mock('#app', () => ({
-  useRoute: () => ({ query: {}, params: {}, path: '/' }),
+  useRoute: () => mockRoute,
   useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
 }))
 
-// Mock @vueuse/core
+// Mock @vueuse/core. The interval never runs on its own; tests that need
+// a progress tick call the latest callback directly.
+const { intervalCallbacks } = vi.hoisted(() => ({ intervalCallbacks: [] as Function[] }))
 vi.mock('@vueuse/core', () => ({
-  useIntervalFn: (_fn: Function, _interval: number, _options?: any) => ({
-    pause: vi.fn(),
-    resume: vi.fn(),
-  }),
+  useIntervalFn: (fn: Function, _interval: number, _options?: any) => {
+    intervalCallbacks.push(fn)
+    return {
+      pause: vi.fn(),
+      resume: vi.fn(),
+    }
+  },
+}))
+
+// Mock downloads (IndexedDB isn't available here); no episode is downloaded by default
+const { mockLocalAudioUrl } = vi.hoisted(() => ({ mockLocalAudioUrl: vi.fn() }))
+vi.mock('../../../app/composables/useDownloads', () => ({
+  useDownloads: () => ({ localAudioUrl: mockLocalAudioUrl }),
 }))
 
+import { Howl } from 'howler'
 import { useAudioPlayer } from '../../../app/composables/useAudioPlayer'
 import type { Episode } from '../../../types/podcast'
 
@@ -283,6 +298,588 @@ describe('useAudioPlayer', () => {
       await player.play(ep2)
       expect(player.currentEpisode.value?.guid).toBe('ep-2')
     })
+
+    it('streams from the audio URL when the episode is not downloaded', async () => {
+      await player.play(createTestEpisode({ guid: 'streamed' }))
+
+      const options = vi.mocked(Howl).mock.calls.at(-1)![0]
+      expect(options.src).toEqual(['https://example.com/audio.mp3'])
+      expect(options.format).toBeUndefined()
+    })
+
+    it('prefers a downloaded copy, passing the format for the blob URL', async () => {
+      mockLocalAudioUrl.mockImplementation((guid: string) =>
+        guid === 'downloaded' ? 'blob:http://localhost/abc' : undefined)
+      await player.play(createTestEpisode({ guid: 'downloaded', audioUrl: 'https://example.com/ep.m4a?token=1' }))
+
+      const options = vi.mocked(Howl).mock.calls.at(-1)![0]
+      expect(options.src).toEqual(['blob:http://localhost/abc'])
+      expect(options.format).toEqual(['m4a'])
+    })
+  })
+
+  describe('audio sources', () => {
+    const alternates: Episode['alternateEnclosures'] = [
+      { type: 'audio/opus', url: 'https://example.com/audio.opus', bitrate: 32000, codecs: 'opus', title: 'Data saver' },
+      { type: 'audio/flac', url: 'https://example.com/audio.flac', bitrate: 900000 },
+      { type: 'video/mp4', url: 'https://example.com/video.mp4', height: 720 },
+    ]
+
+    let canPlayType: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      // happy-dom can't play anything; pretend everything but FLAC is supported
+      canPlayType = vi.spyOn(HTMLMediaElement.prototype, 'canPlayType')
+        .mockImplementation(type => (type.startsWith('audio/flac') ? '' : 'maybe'))
+    })
+
+    afterEach(() => {
+      canPlayType.mockRestore()
+      Reflect.deleteProperty(navigator, 'connection')
+      // Don't leave a position behind (play() would resume instead of loading)
+      player.seek(0)
+    })
+
+    it('offers the enclosure and the playable alternates', async () => {
+      await player.play(createTestEpisode({ guid: 'sources-1', alternateEnclosures: alternates }))
+
+      expect(player.sources.value.map(source => source.label)).toEqual(['Standard', 'Data saver', 'Video · 720p'])
+      expect(player.currentSource.value?.url).toBe('https://example.com/audio.mp3')
+      expect(player.sourceChoice.value).toBeNull()
+    })
+
+    it('streams the lowest bitrate on a slow connection', async () => {
+      Object.defineProperty(navigator, 'connection', { value: { effectiveType: '2g' }, configurable: true })
+      await player.play(createTestEpisode({ guid: 'sources-2', alternateEnclosures: alternates }))
+
+      const options = vi.mocked(Howl).mock.calls.at(-1)![0]
+      expect(options.src).toEqual(['https://example.com/audio.opus'])
+      expect(options.format).toEqual(['opus'])
+    })
+
+    it('switches source mid-episode and resumes at the same position', async () => {
+      await player.play(createTestEpisode({ guid: 'sources-3', alternateEnclosures: alternates }))
+      vi.mocked(Howl).mock.calls.at(-1)![0].onplay!(0)
+      player.seek(120)
+      mockHowlInstance.seek.mockClear()
+
+      player.selectSource('https://example.com/audio.opus')
+
+      const options = vi.mocked(Howl).mock.calls.at(-1)![0]
+      expect(options.src).toEqual(['https://example.com/audio.opus'])
+      options.onload!()
+      expect(mockHowlInstance.seek).toHaveBeenCalledWith(120)
+      expect(player.sourceChoice.value).toBe('https://example.com/audio.opus')
+      expect(player.currentSource.value?.label).toBe('Data saver')
+    })
+
+    it('goes back to the automatic choice', async () => {
+      await player.play(createTestEpisode({ guid: 'sources-4', alternateEnclosures: alternates }))
+      player.selectSource('https://example.com/audio.opus')
+
+      player.selectSource(null)
+
+      expect(vi.mocked(Howl).mock.calls.at(-1)![0].src).toEqual(['https://example.com/audio.mp3'])
+      expect(player.sourceChoice.value).toBeNull()
+    })
+
+    it('forgets the picked source for the next episode', async () => {
+      await player.play(createTestEpisode({ guid: 'sources-5', alternateEnclosures: alternates }))
+      player.selectSource('https://example.com/audio.opus')
+
+      await player.play(createTestEpisode({ guid: 'sources-6', alternateEnclosures: alternates }))
+
+      expect(player.sourceChoice.value).toBeNull()
+      expect(vi.mocked(Howl).mock.calls.at(-1)![0].src).toEqual(['https://example.com/audio.mp3'])
+    })
+  })
+
+  describe('video', () => {
+    const videoEpisode = (guid: string) => createTestEpisode({
+      guid,
+      audioUrl: 'https://example.com/video.mp4',
+      audioType: 'video/mp4',
+    })
+
+    const page = document.createElement('div')
+    const mini = document.createElement('div')
+    let mediaPlay: ReturnType<typeof vi.spyOn>
+    let canPlayType: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      // happy-dom can't play media
+      mediaPlay = vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined)
+      canPlayType = vi.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockReturnValue('maybe')
+      player.attachVideo(mini, 'mini')
+    })
+
+    afterEach(() => {
+      mediaPlay.mockRestore()
+      canPlayType.mockRestore()
+      player.detachVideo(page, 'page')
+      player.detachVideo(mini, 'mini')
+      player.seek(0)
+    })
+
+    it('plays a video enclosure through a video element instead of Howler', async () => {
+      const howls = vi.mocked(Howl).mock.calls.length
+      await player.play(videoEpisode('video-1'))
+
+      expect(vi.mocked(Howl).mock.calls.length).toBe(howls)
+      expect(player.isVideo.value).toBe(true)
+      expect(mini.querySelector('video')?.getAttribute('src')).toBe('https://example.com/video.mp4')
+      expect(mediaPlay).toHaveBeenCalled()
+    })
+
+    it('tracks playback state from the element', async () => {
+      await player.play(videoEpisode('video-2'))
+      const video = mini.querySelector('video')!
+
+      video.dispatchEvent(new Event('play'))
+      expect(player.isPlaying.value).toBe(true)
+
+      video.dispatchEvent(new Event('pause'))
+      expect(player.isPlaying.value).toBe(false)
+    })
+
+    it('shows the video on the episode page, and hands it to the mini player when the page goes', async () => {
+      await player.play(videoEpisode('video-3'))
+
+      player.attachVideo(page, 'page')
+      expect(page.querySelector('video')).not.toBeNull()
+      expect(player.videoOnPage.value).toBe(true)
+
+      player.detachVideo(page, 'page')
+      expect(mini.querySelector('video')).not.toBeNull()
+      expect(player.videoOnPage.value).toBe(false)
+    })
+
+    it('keeps the position when the video loads after a source switch', async () => {
+      await player.play(createTestEpisode({
+        guid: 'video-4',
+        alternateEnclosures: [{ type: 'video/mp4', url: 'https://example.com/video.mp4' }],
+      }))
+      vi.mocked(Howl).mock.calls.at(-1)![0].onplay!(0)
+      player.seek(90)
+
+      player.selectSource('https://example.com/video.mp4')
+      const video = mini.querySelector('video')!
+      video.dispatchEvent(new Event('loadedmetadata'))
+
+      expect(player.isVideo.value).toBe(true)
+      expect(video.currentTime).toBe(90)
+    })
+
+    it('goes back to Howler for an audio episode', async () => {
+      await player.play(videoEpisode('video-5'))
+      await player.play(createTestEpisode({ guid: 'video-6' }))
+
+      expect(player.isVideo.value).toBe(false)
+      expect(vi.mocked(Howl).mock.calls.at(-1)![0].src).toEqual(['https://example.com/audio.mp3'])
+      expect(mini.querySelector('video')?.hasAttribute('src')).toBe(false)
+    })
+  })
+
+  describe('live streams', () => {
+    const stream = createTestEpisode({
+      guid: 'live-1',
+      slug: '',
+      audioUrl: 'https://example.com/live.mp3',
+      duration: 0,
+      live: true,
+    })
+    const recording = createTestEpisode({ guid: 'live-1', audioUrl: 'https://example.com/recording.mp3' })
+
+    afterEach(() => {
+      localStorage.clear()
+      player.seek(0)
+    })
+
+    it('is live while a stream is loaded', async () => {
+      await player.play(stream)
+
+      expect(player.isLive.value).toBe(true)
+    })
+
+    it('ignores the duration and saved progress when the stream loads', async () => {
+      localStorage.setItem('podcast-listening-progress', JSON.stringify({
+        'live-1': { position: 300, duration: 3600, lastUpdated: 0 },
+      }))
+      await player.play(stream)
+      mockHowlInstance.seek.mockClear()
+
+      vi.mocked(Howl).mock.calls.at(-1)![0].onload!(0)
+
+      expect(player.duration.value).toBe(0)
+      expect(player.isLoading.value).toBe(false)
+      expect(mockHowlInstance.seek).not.toHaveBeenCalled()
+    })
+
+    it('is not remembered as the last episode', async () => {
+      await player.play(stream)
+
+      expect(localStorage.getItem('podcast-last-episode')).toBeNull()
+    })
+
+    it('cannot be queued', () => {
+      player.addToQueue({ ...stream, guid: 'live-2' })
+      player.playNext({ ...stream, guid: 'live-3' })
+
+      expect(player.isQueued('live-2')).toBe(false)
+      expect(player.isQueued('live-3')).toBe(false)
+    })
+
+    it('is replaced by its recording, which shares the GUID', async () => {
+      await player.play(stream)
+      player.pause()
+
+      player.preload(recording)
+
+      expect(player.isLive.value).toBe(false)
+      expect(player.currentEpisode.value?.audioUrl).toBe('https://example.com/recording.mp3')
+      expect(vi.mocked(Howl).mock.calls.at(-1)![0].src).toEqual(['https://example.com/recording.mp3'])
+    })
+  })
+
+  describe('clips', () => {
+    const episode = createTestEpisode({ guid: 'clip-ep' })
+    const tick = () => intervalCallbacks.at(-1)!()
+
+    afterEach(() => {
+      player.pause()
+      player.seek(0)
+      mockHowlInstance.seek.mockReturnValue(0)
+    })
+
+    it('starts an unloaded episode at the clip start', async () => {
+      await player.playClip(episode, 73, 133)
+      mockHowlInstance.seek.mockClear()
+
+      vi.mocked(Howl).mock.calls.at(-1)![0].onload!(0)
+
+      expect(mockHowlInstance.seek).toHaveBeenCalledWith(73)
+      expect(player.clip.value).toEqual({ guid: 'clip-ep', start: 73, end: 133 })
+    })
+
+    it('pauses when playback reaches the clip end', async () => {
+      await player.playClip({ ...episode, guid: 'clip-end' }, 73, 133)
+      vi.mocked(Howl).mock.calls.at(-1)![0].onplay!(0)
+      mockHowlInstance.pause.mockClear()
+
+      mockHowlInstance.seek.mockReturnValue(100)
+      tick()
+      expect(mockHowlInstance.pause).not.toHaveBeenCalled()
+
+      mockHowlInstance.seek.mockReturnValue(133.1)
+      tick()
+      expect(mockHowlInstance.pause).toHaveBeenCalled()
+      expect(player.isPlaying.value).toBe(false)
+      expect(player.clip.value).toBeNull()
+    })
+
+    it('seeks a loaded episode to the clip start without reloading', async () => {
+      await player.play({ ...episode, guid: 'clip-loaded' })
+      player.seek(500)
+      const loads = vi.mocked(Howl).mock.calls.length
+
+      await player.playClip({ ...episode, guid: 'clip-loaded' }, 73, 133)
+
+      expect(vi.mocked(Howl).mock.calls.length).toBe(loads)
+      expect(player.currentTime.value).toBe(73)
+      expect(player.clip.value).toEqual({ guid: 'clip-loaded', start: 73, end: 133 })
+    })
+
+    it('lets the episode play on after seeking out of the clip', async () => {
+      await player.playClip(episode, 73, 133)
+
+      player.seek(100)
+      expect(player.clip.value).not.toBeNull()
+
+      player.seek(200)
+      expect(player.clip.value).toBeNull()
+    })
+
+    it('is dropped when another episode plays', async () => {
+      await player.playClip(episode, 73, 133)
+
+      await player.play(createTestEpisode({ guid: 'clip-other' }))
+
+      expect(player.clip.value).toBeNull()
+    })
+
+    it('sets a clip on the loaded episode', async () => {
+      await player.play(episode)
+
+      player.setClip(10, 40)
+
+      expect(player.clip.value).toEqual({ guid: 'clip-ep', start: 10, end: 40 })
+    })
+
+    it('plays a ?t=0&end= clip link from the start instead of saved progress', async () => {
+      localStorage.setItem('podcast-listening-progress', JSON.stringify({
+        'clip-link': { position: 900, duration: 3600 },
+      }))
+      mockRoute.query = { t: '0', end: '30' }
+      try {
+        await player.play({ ...episode, guid: 'clip-link' })
+        mockHowlInstance.seek.mockClear()
+
+        vi.mocked(Howl).mock.calls.at(-1)![0].onload!(0)
+
+        expect(mockHowlInstance.seek).toHaveBeenCalledWith(0)
+        expect(mockHowlInstance.seek).not.toHaveBeenCalledWith(900)
+        expect(player.clip.value).toEqual({ guid: 'clip-link', start: 0, end: 30 })
+      } finally {
+        player.seek(30) // out of the clip, so it doesn't carry into the next test
+        mockRoute.query = {}
+        localStorage.removeItem('podcast-listening-progress')
+      }
+    })
+
+    it('ignores empty ranges and live streams', async () => {
+      await player.playClip(episode, 60, 60)
+      expect(player.clip.value).toBeNull()
+
+      await player.playClip({ ...episode, guid: 'clip-live', live: true }, 0, 30)
+      expect(player.currentEpisode.value?.guid).not.toBe('clip-live')
+    })
+  })
+
+  describe('queue', () => {
+    const ep1 = createTestEpisode({ guid: 'queue-1', title: 'One', htmlContent: '<p>Notes</p>' })
+    const ep2 = createTestEpisode({ guid: 'queue-2', title: 'Two' })
+    const ep3 = createTestEpisode({ guid: 'queue-3', title: 'Three' })
+
+    const queuedGuids = () => player.queue.value.map(ep => ep.guid)
+
+    /** Fire the onend callback of the most recently created Howl */
+    const endCurrentEpisode = () => {
+      const options = vi.mocked(Howl).mock.calls.at(-1)![0] as { onend: () => void }
+      options.onend()
+    }
+
+    beforeEach(async () => {
+      localStorage.clear()
+      await player.play(createTestEpisode({ guid: 'queue-current' }))
+      player.clearQueue()
+      player.setAutoplay(false)
+      player.setCompletedCheck(() => false)
+    })
+
+    it('adds episodes to the end of the queue', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      expect(queuedGuids()).toEqual(['queue-1', 'queue-2'])
+    })
+
+    it('ignores duplicates and the current episode', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep1)
+      player.addToQueue(createTestEpisode({ guid: 'queue-current' }))
+      expect(queuedGuids()).toEqual(['queue-1'])
+    })
+
+    it('drops show notes from queued episodes', () => {
+      player.addToQueue(ep1)
+      expect(player.queue.value[0]).not.toHaveProperty('htmlContent')
+    })
+
+    it('playNext puts an episode first, moving it if already queued', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      player.playNext(ep3)
+      expect(queuedGuids()).toEqual(['queue-3', 'queue-1', 'queue-2'])
+
+      player.playNext(ep2)
+      expect(queuedGuids()).toEqual(['queue-2', 'queue-3', 'queue-1'])
+    })
+
+    it('reorders and removes episodes', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      player.addToQueue(ep3)
+
+      player.moveInQueue(2, 0)
+      expect(queuedGuids()).toEqual(['queue-3', 'queue-1', 'queue-2'])
+
+      player.moveInQueue(0, 5) // out of range — ignored
+      expect(queuedGuids()).toEqual(['queue-3', 'queue-1', 'queue-2'])
+
+      player.removeFromQueue('queue-1')
+      expect(queuedGuids()).toEqual(['queue-3', 'queue-2'])
+      expect(player.isQueued('queue-1')).toBe(false)
+    })
+
+    it('removes an episode from the queue when it is played', async () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      await player.play(ep2)
+      expect(queuedGuids()).toEqual(['queue-1'])
+    })
+
+    it('persists the queue and restores it', () => {
+      player.addToQueue(ep1)
+      player.setAutoplay(true)
+
+      const saved = JSON.parse(localStorage.getItem('podcast-queue')!)
+      expect(saved.episodes.map((ep: Episode) => ep.guid)).toEqual(['queue-1'])
+      expect(saved.autoplay).toBe(true)
+
+      player.clearQueue()
+      localStorage.setItem('podcast-queue', JSON.stringify(saved))
+      player.restoreQueue()
+      expect(queuedGuids()).toEqual(['queue-1'])
+      expect(player.autoplay.value).toBe(true)
+    })
+
+    it('loads the next episode without playing it when an episode ends', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      mockHowlInstance.play.mockClear()
+      endCurrentEpisode()
+
+      expect(mockHowlInstance.play).not.toHaveBeenCalled()
+      expect(player.currentEpisode.value?.guid).toBe('queue-1')
+      expect(player.isPlaying.value).toBe(false)
+      expect(queuedGuids()).toEqual(['queue-2'])
+    })
+
+    it('autoplays the next unplayed episode, skipping finished ones', () => {
+      player.addToQueue(ep1)
+      player.addToQueue(ep2)
+      player.addToQueue(ep3)
+      player.setAutoplay(true)
+      player.setCompletedCheck(guid => guid === 'queue-1')
+
+      mockHowlInstance.play.mockClear()
+      endCurrentEpisode()
+
+      expect(player.currentEpisode.value?.guid).toBe('queue-2')
+      expect(mockHowlInstance.play).toHaveBeenCalledOnce()
+      expect(queuedGuids()).toEqual(['queue-3'])
+    })
+  })
+
+  describe('media session', () => {
+    const mediaSession = {
+      metadata: null as any,
+      playbackState: 'none' as MediaSessionPlaybackState,
+      setActionHandler: vi.fn(),
+      setPositionState: vi.fn(),
+    }
+
+    /** Most recently registered handler for a Media Session action */
+    const handlerFor = (action: string) =>
+      mediaSession.setActionHandler.mock.calls.filter(([name]) => name === action).at(-1)?.[1]
+
+    /** Options passed to the most recently created Howl */
+    const howlOptions = () => vi.mocked(Howl).mock.calls.at(-1)![0] as Record<string, () => void>
+
+    /** Play an episode and fire Howl's onload with a 10-minute duration */
+    const playLoaded = async (episode: Episode) => {
+      await player.play(episode)
+      mockHowlInstance.duration.mockReturnValueOnce(600)
+      howlOptions().onload()
+      player.seek(0)
+    }
+
+    beforeEach(() => {
+      mediaSession.metadata = null
+      mediaSession.playbackState = 'none'
+      Object.defineProperty(navigator, 'mediaSession', { value: mediaSession, configurable: true })
+      vi.stubGlobal('MediaMetadata', class {
+        constructor(init: MediaMetadataInit) {
+          Object.assign(this, init)
+        }
+      })
+      player.setShowInfo('The Show', 'https://example.com/show.jpg')
+    })
+
+    afterEach(() => {
+      // Later tests expect playback at the start
+      player.seek(0)
+    })
+
+    it('publishes episode and show metadata with artwork at several sizes', async () => {
+      await player.play(createTestEpisode({ guid: 'ms-meta', title: 'Lock Screen Episode', artwork: 'https://example.com/ep.png?v=2' }))
+
+      expect(mediaSession.metadata.title).toBe('Lock Screen Episode')
+      expect(mediaSession.metadata.artist).toBe('The Show')
+      expect(mediaSession.metadata.artwork.map((image: MediaImage) => image.sizes)).toEqual([
+        '96x96', '128x128', '192x192', '256x256', '384x384', '512x512',
+      ])
+      expect(mediaSession.metadata.artwork[0]).toMatchObject({ src: 'https://example.com/ep.png?v=2', type: 'image/png' })
+    })
+
+    it('falls back to the show artwork', async () => {
+      await player.play(createTestEpisode({ guid: 'ms-show-art', artwork: undefined }))
+      expect(mediaSession.metadata.artwork[0]).toMatchObject({ src: 'https://example.com/show.jpg', type: 'image/jpeg' })
+    })
+
+    it('syncs the position state', async () => {
+      await playLoaded(createTestEpisode({ guid: 'ms-position' }))
+      player.seek(120)
+
+      expect(mediaSession.setPositionState).toHaveBeenLastCalledWith({ duration: 600, playbackRate: 1, position: 120 })
+    })
+
+    it('reports playing and paused', async () => {
+      await player.play(createTestEpisode({ guid: 'ms-state' }))
+
+      howlOptions().onplay()
+      expect(mediaSession.playbackState).toBe('playing')
+
+      player.pause()
+      expect(mediaSession.playbackState).toBe('paused')
+    })
+
+    it('handles play, pause, and seek actions', async () => {
+      await playLoaded(createTestEpisode({ guid: 'ms-actions' }))
+
+      handlerFor('seekforward')({ action: 'seekforward', seekOffset: 30 })
+      expect(player.currentTime.value).toBe(30)
+
+      handlerFor('seekbackward')({ action: 'seekbackward' })
+      expect(player.currentTime.value).toBe(15)
+
+      handlerFor('seekto')({ action: 'seekto', seekTime: 300 })
+      expect(player.currentTime.value).toBe(300)
+
+      mockHowlInstance.pause.mockClear()
+      handlerFor('pause')({ action: 'pause' })
+      expect(mockHowlInstance.pause).toHaveBeenCalledOnce()
+
+      mockHowlInstance.play.mockClear()
+      handlerFor('play')({ action: 'play' })
+      expect(mockHowlInstance.play).toHaveBeenCalledOnce()
+    })
+
+    it('only offers track skipping when the episode has chapters', async () => {
+      await playLoaded(createTestEpisode({ guid: 'ms-chapters' }))
+      expect(handlerFor('nexttrack')).toBeNull()
+      expect(handlerFor('previoustrack')).toBeNull()
+
+      player.setChapters('ms-chapters', [
+        { startTime: 0, title: 'Intro' },
+        { startTime: 60, title: 'Interview' },
+        { startTime: 300, title: 'Outro' },
+      ])
+
+      handlerFor('nexttrack')({ action: 'nexttrack' })
+      expect(player.currentTime.value).toBe(60)
+
+      handlerFor('nexttrack')({ action: 'nexttrack' })
+      expect(player.currentTime.value).toBe(300)
+
+      // Within the first few seconds of a chapter: go to the previous one
+      handlerFor('previoustrack')({ action: 'previoustrack' })
+      expect(player.currentTime.value).toBe(60)
+
+      // Further in: restart the current chapter
+      player.seek(90)
+      handlerFor('previoustrack')({ action: 'previoustrack' })
+      expect(player.currentTime.value).toBe(60)
+    })
   })
 
   describe('pause', () => {
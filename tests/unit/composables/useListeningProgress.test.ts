@@ -8,6 +8,7 @@ vi.mock('../../../app/composables/useAudioPlayer', () => ({
     currentEpisode: ref(null),
     currentTime: ref(0),
     duration: ref(0),
+    isLive: ref(false),
   }),
 }))
 
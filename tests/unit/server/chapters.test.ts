@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { parseJsonChapters } from '../../../server/utils/chapters'
+
+describe('parseJsonChapters', () => {
+  describe('valid documents', () => {
+    it('parses a minimal chapters document', () => {
+      const result = parseJsonChapters({
+        version: '1.2.0',
+        chapters: [
+          { startTime: 0, title: 'Intro' },
+          { startTime: 120, title: 'Main topic' },
+        ],
+      })
+
+      expect(result).toEqual([
+        { startTime: 0, endTime: 120, title: 'Intro' },
+        { startTime: 120, title: 'Main topic' },
+      ])
+    })
+
+    it('accepts a raw JSON string', () => {
+      const result = parseJsonChapters('{"version":"1.2.0","chapters":[{"startTime":5,"title":"Hello"}]}')
+      expect(result).toEqual([{ startTime: 5, title: 'Hello' }])
+    })
+
+    it('keeps img and url fields', () => {
+      const result = parseJsonChapters({
+        chapters: [
+          { startTime: 0, title: 'Intro', img: 'https://example.com/a.jpg', url: 'https://example.com' },
+        ],
+      })
+
+      expect(result[0]?.img).toBe('https://example.com/a.jpg')
+      expect(result[0]?.url).toBe('https://example.com')
+    })
+
+    it('sorts chapters by start time', () => {
+      const result = parseJsonChapters({
+        chapters: [
+          { startTime: 300, title: 'Third' },
+          { startTime: 0, title: 'First' },
+          { startTime: 60, title: 'Second' },
+        ],
+      })
+
+      expect(result.map(c => c.title)).toEqual(['First', 'Second', 'Third'])
+    })
+
+    it('keeps an explicit endTime instead of deriving one', () => {
+      const result = parseJsonChapters({
+        chapters: [
+          { startTime: 0, endTime: 30, title: 'Cold open' },
+          { startTime: 90, title: 'Interview' },
+        ],
+      })
+
+      expect(result[0]?.endTime).toBe(30)
+    })
+
+    it('coerces numeric strings for startTime', () => {
+      const result = parseJsonChapters({ chapters: [{ startTime: '42.5', title: 'Strings' }] })
+      expect(result[0]?.startTime).toBe(42.5)
+    })
+
+    it('defaults missing titles to an empty string', () => {
+      const result = parseJsonChapters({ chapters: [{ startTime: 10 }] })
+      expect(result[0]?.title).toBe('')
+    })
+  })
+
+  describe('filtering', () => {
+    it('drops chapters marked toc: false', () => {
+      const result = parseJsonChapters({
+        chapters: [
+          { startTime: 0, title: 'Intro' },
+          { startTime: 30, title: 'Art change', toc: false },
+          { startTime: 60, title: 'Topic' },
+        ],
+      })
+
+      expect(result.map(c => c.title)).toEqual(['Intro', 'Topic'])
+      expect(result[0]?.endTime).toBe(60)
+    })
+
+    it('drops entries without a valid startTime', () => {
+      const result = parseJsonChapters({
+        chapters: [
+          { title: 'No start' },
+          { startTime: 'abc', title: 'Bad start' },
+          { startTime: -5, title: 'Negative' },
+          null,
+          { startTime: 10, title: 'Good' },
+        ],
+      })
+
+      expect(result.map(c => c.title)).toEqual(['Good'])
+    })
+
+    it('ignores an endTime that is not after the startTime', () => {
+      const result = parseJsonChapters({ chapters: [{ startTime: 50, endTime: 20, title: 'Backwards' }] })
+      expect(result[0]?.endTime).toBeUndefined()
+    })
+  })
+
+  describe('invalid documents', () => {
+    it('throws on malformed JSON strings', () => {
+      expect(() => parseJsonChapters('{not json')).toThrow('not valid JSON')
+    })
+
+    it('throws when the chapters array is missing', () => {
+      expect(() => parseJsonChapters({ version: '1.2.0' })).toThrow('missing chapters array')
+    })
+
+    it('throws for non-object input', () => {
+      expect(() => parseJsonChapters(null)).toThrow('missing chapters array')
+    })
+  })
+})
@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Nitro auto-imports used by the cache: an in-memory storage that
+// round-trips values through JSON like a real driver, and no overrides
+const stored = new Map<string, string>()
+vi.stubGlobal('useStorage', () => ({
+  getItem: async (key: string) => (stored.has(key) ? JSON.parse(stored.get(key)!) : null),
+  setItem: async (key: string, value: unknown) => { stored.set(key, JSON.stringify(value)) },
+  removeItem: async (key: string) => { stored.delete(key) },
+  getKeys: async (base: string) => [...stored.keys()].filter(key => key.startsWith(base)),
+}))
+vi.stubGlobal('useAppConfig', () => ({ podcast: {} }))
+vi.stubGlobal('fetch', vi.fn())
+
+import { clearAllFeedCaches, clearFeedCache, getCachedPodcastFeed, getFeedCacheStatus, refreshPodcastFeed } from '../../../server/utils/feed-cache'
+
+const FEED_URL = 'https://example.com/feed.xml'
+const HOUR = 60 * 60 * 1000
+
+function feedXml(...titles: string[]): string {
+  const items = titles.map((title, i) => `
+    <item>
+      <title>${title}</title>
+      <guid>ep-${i}</guid>
+      <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>
+      <enclosure url="https://example.com/${i}.mp3" type="audio/mpeg" length="1" />
+    </item>`)
+  return `<?xml version="1.0"?><rss version="2.0"><channel><title>Show</title>${items.join('')}</channel></rss>`
+}
+
+/** One page of a paged feed, linking to the next page when given */
+function pageXml(next: string | null, ...guids: string[]): string {
+  const items = guids.map(guid => `
+    <item>
+      <title>${guid}</title>
+      <guid>${guid}</guid>
+      <enclosure url="https://example.com/${guid}.mp3" type="audio/mpeg" length="1" />
+    </item>`)
+  const link = next ? `<atom:link rel="next" href="${next}" />` : ''
+  return `<?xml version="1.0"?><rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel><title>Show</title>${link}${items.join('')}</channel></rss>`
+}
+
+function respondWith(xml: string, etag = '"v1"') {
+  vi.mocked(fetch).mockResolvedValueOnce(new Response(xml, { status: 200, headers: { ETag: etag } }))
+}
+
+/** Let background revalidation settle */
+const settle = () => new Promise(resolve => setImmediate(resolve))
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] })
+  vi.setSystemTime(0)
+  vi.mocked(fetch).mockReset()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  await clearAllFeedCaches()
+  stored.clear()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('getCachedPodcastFeed', () => {
+  it('serves a fresh feed without refetching', async () => {
+    respondWith(feedXml('One'))
+
+    await getCachedPodcastFeed(FEED_URL)
+    vi.setSystemTime(HOUR - 1)
+    const feed = await getCachedPodcastFeed(FEED_URL)
+
+    expect(feed.episodes.map(ep => ep.title)).toEqual(['One'])
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('revalidates an expired feed in the background with its ETag', async () => {
+    respondWith(feedXml('One'))
+    await getCachedPodcastFeed(FEED_URL)
+
+    vi.setSystemTime(HOUR + 1)
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const feed = await getCachedPodcastFeed(FEED_URL)
+    await settle()
+
+    expect(feed.episodes.map(ep => ep.title)).toEqual(['One'])
+    expect(vi.mocked(fetch).mock.calls[1]![1]).toMatchObject({ headers: { 'If-None-Match': '"v1"' } })
+    expect(getFeedCacheStatus(FEED_URL)).toMatchObject({ fetchedAt: 0, checkedAt: HOUR + 1, stale: false })
+  })
+
+  it('records added, changed, and removed episodes', async () => {
+    respondWith(feedXml('One', 'Two'))
+    await getCachedPodcastFeed(FEED_URL)
+
+    vi.setSystemTime(HOUR + 1)
+    respondWith(feedXml('One', 'Two (remastered)', 'Three'), '"v2"')
+    await getCachedPodcastFeed(FEED_URL)
+    await settle()
+
+    expect(getFeedCacheStatus(FEED_URL)?.changes).toEqual({ added: ['ep-2'], changed: ['ep-1'], removed: [] })
+    const feed = await getCachedPodcastFeed(FEED_URL)
+    expect(feed.episodes).toHaveLength(3)
+  })
+
+  it('records no changes for a 304', async () => {
+    respondWith(feedXml('One'))
+    await getCachedPodcastFeed(FEED_URL)
+    expect(getFeedCacheStatus(FEED_URL)?.changes.added).toEqual(['ep-0'])
+
+    vi.setSystemTime(HOUR + 1)
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }))
+    await getCachedPodcastFeed(FEED_URL)
+    await settle()
+
+    expect(getFeedCacheStatus(FEED_URL)).toMatchObject({
+      checkedAt: HOUR + 1,
+      changes: { added: [], changed: [], removed: [] },
+    })
+  })
+
+  it('picks up a live item whose status changed, even when the episodes did not', async () => {
+    const liveFeed = (status: string) => feedXml('One').replace('</channel>', `
+      <podcast:liveItem status="${status}" start="2024-01-01T18:00:00Z" end="2024-01-01T19:00:00Z">
+        <title>Live show</title>
+        <guid>live-1</guid>
+        <enclosure url="https://example.com/live.mp3" type="audio/mpeg" length="0" />
+      </podcast:liveItem></channel>`).replace('<rss version="2.0">', '<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">')
+    respondWith(liveFeed('pending'))
+    await getCachedPodcastFeed(FEED_URL)
+
+    respondWith(liveFeed('live'))
+    const feed = await refreshPodcastFeed(FEED_URL)
+
+    expect(feed.liveItems?.map(item => item.status)).toEqual(['live'])
+    expect((await getCachedPodcastFeed(FEED_URL)).liveItems?.[0]?.status).toBe('live')
+  })
+
+  it('keeps serving the last good feed, flagged stale, while retries back off', async () => {
+    respondWith(feedXml('One'))
+    await getCachedPodcastFeed(FEED_URL)
+
+    vi.setSystemTime(HOUR + 1)
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    const feed = await getCachedPodcastFeed(FEED_URL)
+    await settle()
+
+    expect(feed.episodes.map(ep => ep.title)).toEqual(['One'])
+    expect(getFeedCacheStatus(FEED_URL)).toMatchObject({ stale: true, failures: 1 })
+
+    // Requests during the backoff don't hit upstream
+    await getCachedPodcastFeed(FEED_URL)
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    // First retry after 30s succeeds
+    respondWith(feedXml('One', 'Two'), '"v2"')
+    await vi.advanceTimersByTimeAsync(30_000)
+    await settle()
+
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(getFeedCacheStatus(FEED_URL)?.stale).toBe(false)
+    expect((await getCachedPodcastFeed(FEED_URL)).episodes).toHaveLength(2)
+  })
+
+  it('does not cache a failed first load', async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    await expect(getCachedPodcastFeed(FEED_URL)).rejects.toThrow(/Failed to fetch RSS feed/)
+
+    respondWith(feedXml('One'))
+    const feed = await getCachedPodcastFeed(FEED_URL)
+
+    expect(feed.episodes).toHaveLength(1)
+  })
+
+  it('falls back to the stored feed after a restart', async () => {
+    respondWith(feedXml('One'))
+    await getCachedPodcastFeed(FEED_URL)
+
+    // Forget everything in memory, but keep storage
+    const snapshot = new Map(stored)
+    await clearAllFeedCaches()
+    snapshot.forEach((value, key) => stored.set(key, value))
+
+    vi.setSystemTime(HOUR + 1)
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    const feed = await getCachedPodcastFeed(FEED_URL)
+    await settle()
+
+    expect(feed.episodes.map(ep => ep.title)).toEqual(['One'])
+    expect(getFeedCacheStatus(FEED_URL)?.stale).toBe(true)
+  })
+})
+
+describe('paged feeds', () => {
+  const PAGE_2 = 'https://example.com/feed.xml?page=2'
+  const PAGE_3 = 'https://example.com/feed.xml?page=3'
+
+  async function loadThreePages() {
+    respondWith(pageXml(PAGE_2, 'a', 'b'))
+    respondWith(pageXml(PAGE_3, 'c', 'd'))
+    respondWith(pageXml(null, 'e'))
+    return getCachedPodcastFeed(FEED_URL)
+  }
+
+  it('merges every page into one feed', async () => {
+    const feed = await loadThreePages()
+
+    expect(feed.episodes.map(ep => ep.guid)).toEqual(['a', 'b', 'c', 'd', 'e'])
+    expect(vi.mocked(fetch).mock.calls.map(call => call[0])).toEqual([FEED_URL, PAGE_2, PAGE_3])
+  })
+
+  it('only re-downloads the first page on refresh', async () => {
+    await loadThreePages()
+
+    respondWith(pageXml(PAGE_2, 'new', 'a', 'b'), '"v2"')
+    const feed = await refreshPodcastFeed(FEED_URL)
+
+    expect(fetch).toHaveBeenCalledTimes(4)
+    expect(feed.episodes.map(ep => ep.guid)).toEqual(['new', 'a', 'b', 'c', 'd', 'e'])
+    expect(getFeedCacheStatus(FEED_URL)?.changes).toEqual({ added: ['new'], changed: [], removed: [] })
+  })
+
+  it('revalidates further pages once they are a day old', async () => {
+    await loadThreePages()
+
+    vi.setSystemTime(24 * HOUR + 1)
+    respondWith(pageXml(PAGE_2, 'a', 'b'), '"v2"')
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }))
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const feed = await refreshPodcastFeed(FEED_URL)
+
+    expect(feed.episodes).toHaveLength(5)
+    expect(vi.mocked(fetch).mock.calls[4]).toEqual([PAGE_2, { headers: expect.objectContaining({ 'If-None-Match': '"v1"' }) }])
+  })
+
+  it('keeps a cached page when it can no longer be fetched', async () => {
+    await loadThreePages()
+
+    vi.setSystemTime(24 * HOUR + 1)
+    respondWith(pageXml(PAGE_2, 'a', 'b'), '"v2"')
+    vi.mocked(fetch).mockRejectedValueOnce(new Error('ECONNRESET'))
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const feed = await refreshPodcastFeed(FEED_URL)
+
+    expect(feed.episodes.map(ep => ep.guid)).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  it('clears the cached pages with the feed', async () => {
+    await loadThreePages()
+    expect([...stored.keys()].some(key => key.startsWith('podcast:feed:page:'))).toBe(true)
+
+    await clearFeedCache(FEED_URL)
+
+    expect([...stored.keys()].some(key => key.startsWith('podcast:feed:'))).toBe(false)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { diffEpisodes, hasChanges } from '../../../server/utils/feed-diff'
+import type { Episode } from '../../../types/podcast'
+
+function makeEpisode(overrides: Partial<Episode> & Pick<Episode, 'guid'>): Episode {
+  return {
+    title: overrides.guid,
+    slug: overrides.guid,
+    description: '',
+    audioUrl: `https://example.com/${overrides.guid}.mp3`,
+    audioType: 'audio/mpeg',
+    audioLength: 0,
+    pubDate: '2024-01-01T00:00:00Z',
+    duration: 1800,
+    episodeType: 'full',
+    explicit: false,
+    ...overrides,
+  }
+}
+
+describe('diffEpisodes', () => {
+  const previous = [
+    makeEpisode({ guid: 'a' }),
+    makeEpisode({ guid: 'b' }),
+    makeEpisode({ guid: 'c' }),
+  ]
+
+  it('finds added, changed, and removed episodes by GUID', () => {
+    const next = [
+      makeEpisode({ guid: 'd' }),
+      makeEpisode({ guid: 'a' }),
+      makeEpisode({ guid: 'b', title: 'Retitled' }),
+    ]
+
+    expect(diffEpisodes(previous, next)).toEqual({
+      added: ['d'],
+      changed: ['b'],
+      removed: ['c'],
+    })
+  })
+
+  it('counts any parsed field as a change', () => {
+    const next = [
+      makeEpisode({ guid: 'a', audioUrl: 'https://cdn.example.com/a.mp3' }),
+      makeEpisode({ guid: 'b', podcast2: { transcript: { url: 'https://example.com/b.vtt', type: 'text/vtt' } } }),
+      makeEpisode({ guid: 'c' }),
+    ]
+
+    expect(diffEpisodes(previous, next).changed).toEqual(['a', 'b'])
+  })
+
+  it('reports nothing for an identical parse', () => {
+    const next = previous.map(episode => ({ ...episode }))
+    const changes = diffEpisodes(previous, next)
+
+    expect(changes).toEqual({ added: [], changed: [], removed: [] })
+    expect(hasChanges(changes)).toBe(false)
+  })
+
+  it('ignores reordering', () => {
+    expect(hasChanges(diffEpisodes(previous, [...previous].reverse()))).toBe(false)
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest'
-import { parsePodcastFeed } from '../../../server/utils/feed-parser'
+import { detectFeedFormat, fetchFeedXml, followFeedPages, parseFeedContent, parseFeedPage, parseFeedXml, parsePodcastFeed } from '../../../server/utils/feed-parser'
+import type { FeedPage, FeedParseNotices } from '../../../server/utils/feed-parser'
 
 // Mock global fetch
 vi.stubGlobal('fetch', vi.fn())
@@ -134,6 +135,140 @@ const PODCAST2_FEED = `<?xml version="1.0" encoding="UTF-8"?>
   </channel>
 </rss>`
 
+const ALTERNATE_ENCLOSURE_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Many Formats</title>
+    <item>
+      <title>Episode 1</title>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" length="50000000" />
+      <podcast:alternateEnclosure type="audio/opus" length="8000000" bitrate="32000" codecs="opus" title="Data saver">
+        <podcast:source uri="ipfs://QmdwGqd3d2gFPGeJNLLCshdiPert45fMu84552Y4XHTy4y" />
+        <podcast:source uri="https://example.com/ep1.opus" />
+        <podcast:integrity type="sri" value="sha384-ExVqijgYHm15PqQqdXfW95x+Rs6C+d6E/ICxyQOeFevnxNLR/wtJNrNYTjIysUBo" />
+      </podcast:alternateEnclosure>
+      <podcast:alternateEnclosure type="video/mp4" bitrate="2500000" height="1080" default="false">
+        <podcast:source uri="https://example.com/ep1.mp4" />
+      </podcast:alternateEnclosure>
+      <podcast:alternateEnclosure type="application/x-mpegURL">
+        <podcast:source uri="https://example.com/ep1/master.m3u8" contentType="application/vnd.apple.mpegurl" />
+      </podcast:alternateEnclosure>
+      <podcast:alternateEnclosure type="audio/mpeg">
+        <podcast:source uri="magnet:?xt=urn:btih:c4a5" />
+      </podcast:alternateEnclosure>
+    </item>
+  </channel>
+</rss>`
+
+const SOUNDBITE_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Highlights</title>
+    <item>
+      <title>Episode 1</title>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" length="50000000" />
+      <podcast:soundbite startTime="73.0" duration="60.0">The best minute</podcast:soundbite>
+      <podcast:soundbite startTime="1234.5" duration="42.25" />
+      <podcast:soundbite startTime="10" duration="0">Empty</podcast:soundbite>
+      <podcast:soundbite duration="30">No start</podcast:soundbite>
+    </item>
+  </channel>
+</rss>`
+
+const LIVE_ITEM_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>Live Show</title>
+    <link>https://example.com</link>
+    <itunes:image href="https://example.com/artwork.jpg" />
+    <podcast:liveItem status="Live" start="2024-04-01T18:00:00-05:00" end="2024-04-01T20:00:00-05:00">
+      <title>Launch Party</title>
+      <description><![CDATA[<p>See <a href="/launch">details</a></p>]]></description>
+      <guid>live-1</guid>
+      <enclosure url="https://example.com/live.m3u8" type="application/x-mpegURL" length="0" />
+      <itunes:image href="https://example.com/live.jpg" />
+      <podcast:contentLink href="https://youtube.com/live/abc">Watch on YouTube</podcast:contentLink>
+      <podcast:contentLink href="https://example.com/live" />
+      <podcast:chat server="irc.zeronode.net" protocol="irc" accountId="@jane" space="#live" embedUrl="https://example.com/chat" />
+    </podcast:liveItem>
+    <podcast:liveItem status="pending" start="2024-05-01T18:00:00Z">
+      <title>Next Month</title>
+      <enclosure url="https://example.com/next.mp3" type="audio/mpeg" />
+    </podcast:liveItem>
+    <podcast:liveItem status="cancelled" start="2024-05-02T18:00:00Z">
+      <title>Unknown Status</title>
+      <enclosure url="https://example.com/cancelled.mp3" type="audio/mpeg" />
+    </podcast:liveItem>
+    <podcast:liveItem status="pending" start="someday">
+      <title>No Valid Start</title>
+      <enclosure url="https://example.com/someday.mp3" type="audio/mpeg" />
+    </podcast:liveItem>
+    <podcast:liveItem status="pending" start="2024-05-03T18:00:00Z">
+      <title>No Stream</title>
+    </podcast:liveItem>
+    <item>
+      <title>Episode 1</title>
+      <guid>ep-1</guid>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" />
+    </item>
+  </channel>
+</rss>`
+
+const VALUE_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Value Show</title>
+    <podcast:value type="hive" method="">
+      <podcast:valueRecipient name="Hive account" type="account" address="valueshow" split="100" />
+    </podcast:value>
+    <podcast:value type="lightning" method="keysend" suggested="0.00000005000">
+      <podcast:valueRecipient name="Host" type="node" address="02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52" split="90" customKey="696969" customValue="eChoVKtO1KujpAA5HCoB" />
+      <podcast:valueRecipient name="Producer" type="lnaddress" address="producer@example.com" split="10" />
+      <podcast:valueRecipient name="App" type="node" address="03ae9f91a0cb8ff43840e3c322c4c61f019d8c1c3cea15a25cfc425ac605e61a4a" split="1" fee="true" />
+      <podcast:valueRecipient name="No address" type="node" split="50" />
+    </podcast:value>
+    <item>
+      <title>Music Episode</title>
+      <guid>ep-2</guid>
+      <enclosure url="https://example.com/ep2.mp3" type="audio/mpeg" />
+      <podcast:value type="lightning" method="keysend">
+        <podcast:valueRecipient name="Host" type="node" address="02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52" split="100" />
+        <podcast:valueTimeSplit startTime="600" duration="120" remotePercentage="95">
+          <podcast:valueRecipient name="Band" type="node" address="03b9a9b6c9f4b1e9f3a2c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f809a1b2" split="100" />
+        </podcast:valueTimeSplit>
+        <podcast:valueTimeSplit startTime="60" duration="237" remoteStartTime="3">
+          <podcast:remoteItem feedGuid="917393e3-1b1e-5cef-ace4-edaa54e1f810" itemGuid="song-1" />
+        </podcast:valueTimeSplit>
+        <podcast:valueTimeSplit startTime="900" duration="0">
+          <podcast:valueRecipient name="Zero length" type="node" address="03b9" split="100" />
+        </podcast:valueTimeSplit>
+      </podcast:value>
+    </item>
+    <item>
+      <title>Plain Episode</title>
+      <guid>ep-1</guid>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" />
+    </item>
+  </channel>
+</rss>`
+
+const PODROLL_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Podroll Show</title>
+    <podcast:podroll>
+      <podcast:remoteItem feedGuid="917393e3-1b1e-5cef-ace4-edaa54e1f810" feedUrl="https://friends.example.com/feed.xml" />
+      <podcast:remoteItem feedGuid="c2a9f0c2-5d1a-5d2c-9c5f-3b2f2f0a4b1e" itemGuid="ep-42" medium="music" />
+      <podcast:remoteItem feedUrl="https://no-guid.example.com/feed.xml" />
+    </podcast:podroll>
+    <item>
+      <title>Episode 1</title>
+      <guid>ep-1</guid>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" />
+    </item>
+  </channel>
+</rss>`
+
 const MULTI_CATEGORY_FEED = `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
   <channel>
@@ -181,13 +316,107 @@ const NO_ENCLOSURE_FEED = `<?xml version="1.0" encoding="UTF-8"?>
   </channel>
 </rss>`
 
+const WEBSUB_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>Pushed Podcast</title>
+    <atom:link href="https://pubsubhubbub.appspot.com/" rel="hub" />
+    <atom:link href="https://feeds.example.com/pushed" rel="self" type="application/rss+xml" />
+    <item>
+      <title>Episode 1</title>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" length="1000" />
+    </item>
+  </channel>
+</rss>`
+
+const ATOM_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xml:lang="en-gb">
+  <title>Atom Podcast</title>
+  <subtitle>Published as Atom</subtitle>
+  <id>urn:uuid:atom-podcast</id>
+  <updated>2024-02-01T10:00:00Z</updated>
+  <author><name>Atom Author</name></author>
+  <logo>https://example.com/atom-logo.jpg</logo>
+  <rights>CC BY 4.0</rights>
+  <category term="technology" label="Technology" />
+  <link href="https://atom.example.com/" />
+  <link href="https://feeds.example.com/atom" rel="self" />
+  <link href="https://hub.example.com/" rel="hub" />
+  <entry>
+    <title>Second Entry</title>
+    <id>urn:uuid:entry-2</id>
+    <published>2024-02-01T10:00:00Z</published>
+    <updated>2024-02-02T10:00:00Z</updated>
+    <summary>Short summary</summary>
+    <content type="html">&lt;p&gt;See &lt;a href="/notes/2"&gt;the notes&lt;/a&gt;&lt;/p&gt;</content>
+    <link href="https://atom.example.com/episodes/2" />
+    <link rel="enclosure" href="https://example.com/atom-2.m4a" type="audio/x-m4a" length="2048" />
+    <itunes:duration>1:02:03</itunes:duration>
+    <itunes:episode>2</itunes:episode>
+    <itunes:episodeType>bonus</itunes:episodeType>
+  </entry>
+  <entry>
+    <title>First Entry</title>
+    <id>urn:uuid:entry-1</id>
+    <updated>2024-01-01T10:00:00Z</updated>
+    <link rel="enclosure" href="https://example.com/atom-1.mp3" type="audio/mpeg" length="1024" />
+  </entry>
+  <entry>
+    <title>Blog Post</title>
+    <id>urn:uuid:post</id>
+    <link href="https://atom.example.com/blog/post" />
+  </entry>
+</feed>`
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'JSON Podcast',
+  description: 'Published as JSON Feed',
+  home_page_url: 'https://json.example.com/',
+  feed_url: 'https://feeds.example.com/feed.json',
+  icon: 'https://example.com/json-icon.png',
+  language: 'de',
+  authors: [{ name: 'JSON Author' }],
+  hubs: [{ type: 'WebSub', url: 'https://hub.example.com/' }],
+  items: [
+    {
+      id: 'json-2',
+      title: 'Video Episode',
+      url: 'https://json.example.com/episodes/2',
+      content_html: '<p>Watch <a href="/notes/2">the notes</a></p>',
+      summary: 'A video episode',
+      image: 'https://example.com/json-2.jpg',
+      date_published: '2024-03-02T09:00:00Z',
+      tags: ['video', 'demo'],
+      attachments: [
+        { url: 'https://example.com/json-2.vtt', mime_type: 'text/vtt' },
+        { url: 'https://example.com/json-2.mp4', mime_type: 'video/mp4', size_in_bytes: 4096, duration_in_seconds: 1800 },
+      ],
+    },
+    {
+      id: 1,
+      title: 'Audio Episode',
+      content_text: 'Plain text notes',
+      date_published: '2024-03-01T09:00:00Z',
+      attachments: [{ url: 'https://example.com/json-1.mp3', mime_type: 'audio/mpeg', size_in_bytes: 1024 }],
+    },
+    {
+      id: 'json-post',
+      title: 'Text Post',
+      content_text: 'No audio here',
+    },
+  ],
+})
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function mockFetchXml(xml: string) {
+function mockFetchXml(xml: string, headers: Record<string, string> = {}) {
   vi.mocked(fetch).mockResolvedValueOnce({
     ok: true,
+    status: 200,
+    headers: new Headers(headers),
     text: () => Promise.resolve(xml),
   } as any)
 }
@@ -448,6 +677,491 @@ describe('parsePodcastFeed', () => {
     })
   })
 
+  describe('alternate enclosures', () => {
+    it('parses alternate enclosures with their first http source', async () => {
+      mockFetchXml(ALTERNATE_ENCLOSURE_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[0].alternateEnclosures).toEqual([
+        {
+          type: 'audio/opus',
+          url: 'https://example.com/ep1.opus',
+          length: 8000000,
+          bitrate: 32000,
+          codecs: 'opus',
+          title: 'Data saver',
+          integrity: {
+            type: 'sri',
+            value: 'sha384-ExVqijgYHm15PqQqdXfW95x+Rs6C+d6E/ICxyQOeFevnxNLR/wtJNrNYTjIysUBo',
+          },
+        },
+        { type: 'video/mp4', url: 'https://example.com/ep1.mp4', bitrate: 2500000, height: 1080 },
+        { type: 'application/vnd.apple.mpegurl', url: 'https://example.com/ep1/master.m3u8' },
+      ])
+    })
+
+    it('leaves alternateEnclosures unset without any', async () => {
+      mockFetchXml(MINIMAL_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[0].alternateEnclosures).toBeUndefined()
+    })
+
+    it('reads other JSON Feed media attachments as alternates', () => {
+      const { episodes } = parseFeedContent(JSON_FEED, FEED_URL)
+
+      // The video attachment is the enclosure; the VTT one isn't media
+      expect(episodes[0].alternateEnclosures).toBeUndefined()
+
+      const feed = JSON.parse(JSON_FEED)
+      feed.items[1].attachments.push({ url: 'https://example.com/json-1.opus', mime_type: 'audio/opus', title: 'Opus', size_in_bytes: 512 })
+      const [, audio] = parseFeedContent(JSON.stringify(feed), FEED_URL).episodes
+
+      expect(audio!.alternateEnclosures).toEqual([
+        { type: 'audio/opus', url: 'https://example.com/json-1.opus', length: 512, title: 'Opus' },
+      ])
+    })
+  })
+
+  describe('soundbites', () => {
+    it('parses soundbites, skipping ones without a start or length', async () => {
+      mockFetchXml(SOUNDBITE_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[0].soundbites).toEqual([
+        { startTime: 73, duration: 60, title: 'The best minute' },
+        { startTime: 1234.5, duration: 42.25 },
+      ])
+    })
+
+    it('leaves soundbites unset without any', async () => {
+      mockFetchXml(MINIMAL_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[0].soundbites).toBeUndefined()
+    })
+  })
+
+  describe('live items', () => {
+    it('parses live items alongside the episodes', async () => {
+      mockFetchXml(LIVE_ITEM_FEED)
+
+      const { episodes, liveItems } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes.map(episode => episode.guid)).toEqual(['ep-1'])
+      expect(liveItems?.[0]).toEqual({
+        guid: 'live-1',
+        title: 'Launch Party',
+        description: '<p>See <a href="https://example.com/launch">details</a></p>',
+        status: 'live',
+        start: '2024-04-01T23:00:00.000Z',
+        end: '2024-04-02T01:00:00.000Z',
+        streamUrl: 'https://example.com/live.m3u8',
+        streamType: 'application/x-mpegURL',
+        artwork: 'https://example.com/live.jpg',
+        link: undefined,
+        contentLinks: [
+          { href: 'https://youtube.com/live/abc', text: 'Watch on YouTube' },
+          { href: 'https://example.com/live', text: 'https://example.com/live' },
+        ],
+        chat: {
+          server: 'irc.zeronode.net',
+          protocol: 'irc',
+          accountId: '@jane',
+          space: '#live',
+          embedUrl: 'https://example.com/chat',
+        },
+      })
+    })
+
+    it('falls back to the stream URL as GUID and the show artwork', async () => {
+      mockFetchXml(LIVE_ITEM_FEED)
+
+      const { liveItems } = await parsePodcastFeed(FEED_URL)
+
+      expect(liveItems?.[1]).toMatchObject({
+        guid: 'https://example.com/next.mp3',
+        status: 'pending',
+        artwork: 'https://example.com/artwork.jpg',
+      })
+      expect(liveItems?.[1]?.end).toBeUndefined()
+    })
+
+    it('skips live items without a known status, a valid start, or a stream', async () => {
+      mockFetchXml(LIVE_ITEM_FEED)
+
+      const { liveItems } = await parsePodcastFeed(FEED_URL)
+
+      expect(liveItems?.map(item => item.title)).toEqual(['Launch Party', 'Next Month'])
+    })
+
+    it('leaves liveItems unset without any', async () => {
+      mockFetchXml(MINIMAL_FEED)
+
+      const feed = await parsePodcastFeed(FEED_URL)
+
+      expect(feed).not.toHaveProperty('liveItems')
+    })
+  })
+
+  describe('value blocks', () => {
+    it('prefers the lightning block and skips recipients without an address', async () => {
+      mockFetchXml(VALUE_FEED)
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+
+      expect(podcast.podcast2?.value).toEqual({
+        type: 'lightning',
+        method: 'keysend',
+        suggested: 0.00000005,
+        recipients: [
+          {
+            name: 'Host',
+            type: 'node',
+            address: '02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52',
+            split: 90,
+            customKey: '696969',
+            customValue: 'eChoVKtO1KujpAA5HCoB',
+            fee: undefined,
+          },
+          {
+            name: 'Producer',
+            type: 'lnaddress',
+            address: 'producer@example.com',
+            split: 10,
+            customKey: undefined,
+            customValue: undefined,
+            fee: undefined,
+          },
+          {
+            name: 'App',
+            type: 'node',
+            address: '03ae9f91a0cb8ff43840e3c322c4c61f019d8c1c3cea15a25cfc425ac605e61a4a',
+            split: 1,
+            customKey: undefined,
+            customValue: undefined,
+            fee: true,
+          },
+        ],
+        timeSplits: undefined,
+      })
+    })
+
+    it('keeps custom keys and values as written, not as numbers', async () => {
+      mockFetchXml(VALUE_FEED.replace(
+        'customKey="696969" customValue="eChoVKtO1KujpAA5HCoB"',
+        'customKey="696969" customValue="0012345"',
+      ).replace(
+        'name="App" type="node"',
+        'name="App" type="node" customKey="7629169" customValue="12345678901234567890123"',
+      ))
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+      const recipients = podcast.podcast2?.value?.recipients
+
+      expect(recipients?.[0]).toMatchObject({ customKey: '696969', customValue: '0012345' })
+      expect(recipients?.[2]).toMatchObject({ customKey: '7629169', customValue: '12345678901234567890123' })
+    })
+
+    it('parses episode time splits in start order', async () => {
+      mockFetchXml(VALUE_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+      const splits = episodes[0]!.podcast2?.value?.timeSplits
+
+      expect(splits).toHaveLength(2)
+      expect(splits?.[0]).toEqual({
+        startTime: 60,
+        duration: 237,
+        remotePercentage: 100,
+        remoteStartTime: 3,
+        recipients: undefined,
+        remoteItem: {
+          feedGuid: '917393e3-1b1e-5cef-ace4-edaa54e1f810',
+          itemGuid: 'song-1',
+          feedUrl: undefined,
+          medium: undefined,
+        },
+      })
+      expect(splits?.[1]).toMatchObject({ startTime: 600, duration: 120, remotePercentage: 95 })
+      expect(splits?.[1]?.recipients?.map(r => r.name)).toEqual(['Band'])
+    })
+
+    it('leaves value unset without a block', async () => {
+      mockFetchXml(VALUE_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[1]!.podcast2?.value).toBeUndefined()
+    })
+  })
+
+  describe('podroll', () => {
+    it('parses recommended shows, skipping items without a feedGuid', async () => {
+      mockFetchXml(PODROLL_FEED)
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+
+      expect(podcast.podcast2?.podroll).toEqual([
+        {
+          feedGuid: '917393e3-1b1e-5cef-ace4-edaa54e1f810',
+          feedUrl: 'https://friends.example.com/feed.xml',
+          itemGuid: undefined,
+          medium: undefined,
+        },
+        {
+          feedGuid: 'c2a9f0c2-5d1a-5d2c-9c5f-3b2f2f0a4b1e',
+          feedUrl: undefined,
+          itemGuid: 'ep-42',
+          medium: 'music',
+        },
+      ])
+    })
+
+    it('leaves podroll unset without one', async () => {
+      mockFetchXml(MINIMAL_FEED)
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+
+      expect(podcast.podcast2?.podroll).toBeUndefined()
+    })
+  })
+
+  describe('parse notices', () => {
+    it('records items skipped for a missing enclosure', () => {
+      const notices: FeedParseNotices = { skippedItems: [], rewrittenLinks: [] }
+
+      const result = parseFeedXml(NO_ENCLOSURE_FEED, FEED_URL, notices)
+
+      expect(result.episodes).toHaveLength(2)
+      expect(notices.skippedItems).toEqual([{ title: 'Blog Post Without Audio' }])
+    })
+
+    it('records show-note links rewritten by sanitizeLinks', () => {
+      const xml = MINIMAL_FEED.replace(
+        '<description>First episode</description>',
+        '<guid>ep-1</guid><description><![CDATA[<a href="example.com/page">ok</a> <a href="https://example.com/">fine</a>]]></description>',
+      )
+      const notices: FeedParseNotices = { skippedItems: [], rewrittenLinks: [] }
+
+      parseFeedXml(xml, FEED_URL, notices)
+
+      expect(notices.rewrittenLinks).toEqual([
+        { guid: 'ep-1', title: 'Episode 1', from: 'example.com/page', to: 'https://example.com/page' },
+      ])
+    })
+  })
+
+  describe('WebSub discovery', () => {
+    it('reads the hub and self links', async () => {
+      mockFetchXml(WEBSUB_FEED)
+
+      const result = await parsePodcastFeed(FEED_URL)
+
+      expect(result.podcast.websub).toEqual({
+        hub: 'https://pubsubhubbub.appspot.com/',
+        topic: 'https://feeds.example.com/pushed',
+      })
+    })
+
+    it('uses the feed URL as the topic without a self link', async () => {
+      mockFetchXml(WEBSUB_FEED.replace(/<atom:link[^>]*rel="self"[^>]*\/>/, ''))
+
+      const result = await parsePodcastFeed(FEED_URL)
+
+      expect(result.podcast.websub?.topic).toBe(FEED_URL)
+    })
+
+    it('leaves websub unset when the feed has no hub', async () => {
+      mockFetchXml(MINIMAL_FEED)
+
+      const result = await parsePodcastFeed(FEED_URL)
+
+      expect(result.podcast.websub).toBeUndefined()
+    })
+  })
+
+  describe('Atom feeds', () => {
+    it('parses show metadata from the feed element', async () => {
+      mockFetchXml(ATOM_FEED)
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+
+      expect(podcast).toMatchObject({
+        title: 'Atom Podcast',
+        description: 'Published as Atom',
+        author: 'Atom Author',
+        artwork: 'https://example.com/atom-logo.jpg',
+        categories: ['Technology'],
+        link: 'https://atom.example.com/',
+        language: 'en-gb',
+        copyright: 'CC BY 4.0',
+        websub: { hub: 'https://hub.example.com/', topic: 'https://feeds.example.com/atom' },
+      })
+    })
+
+    it('parses entries with enclosure links into episodes', async () => {
+      mockFetchXml(ATOM_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes).toHaveLength(2)
+      expect(episodes[0]).toMatchObject({
+        guid: 'urn:uuid:entry-2',
+        title: 'Second Entry',
+        slug: '2-second-entry',
+        description: 'Short summary',
+        htmlContent: '<p>See <a href="https://atom.example.com/notes/2">the notes</a></p>',
+        audioUrl: 'https://example.com/atom-2.m4a',
+        audioType: 'audio/x-m4a',
+        audioLength: 2048,
+        pubDate: '2024-02-01T10:00:00Z',
+        duration: 3723,
+        artwork: 'https://example.com/atom-logo.jpg',
+        episodeNumber: 2,
+        episodeType: 'bonus',
+        link: 'https://atom.example.com/episodes/2',
+      })
+    })
+
+    it('falls back to updated for the publish date', async () => {
+      mockFetchXml(ATOM_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[1].pubDate).toBe('2024-01-01T10:00:00Z')
+      expect(episodes[1].episodeType).toBe('full')
+    })
+
+    it('reports entries without an enclosure as skipped', () => {
+      const notices: FeedParseNotices = { skippedItems: [], rewrittenLinks: [] }
+
+      parseFeedContent(ATOM_FEED, FEED_URL, notices)
+
+      expect(notices.skippedItems).toEqual([{ title: 'Blog Post', guid: 'urn:uuid:post' }])
+      expect(notices.rewrittenLinks).toEqual([
+        expect.objectContaining({ guid: 'urn:uuid:entry-2', from: '/notes/2', to: 'https://atom.example.com/notes/2' }),
+      ])
+    })
+  })
+
+  describe('JSON Feed', () => {
+    it('parses show metadata from the top-level object', async () => {
+      mockFetchXml(JSON_FEED)
+
+      const { podcast } = await parsePodcastFeed(FEED_URL)
+
+      expect(podcast).toMatchObject({
+        title: 'JSON Podcast',
+        description: 'Published as JSON Feed',
+        author: 'JSON Author',
+        artwork: 'https://example.com/json-icon.png',
+        categories: [],
+        link: 'https://json.example.com/',
+        language: 'de',
+        websub: { hub: 'https://hub.example.com/', topic: 'https://feeds.example.com/feed.json' },
+      })
+    })
+
+    it('takes the first audio or video attachment as the enclosure', async () => {
+      mockFetchXml(JSON_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes).toHaveLength(2)
+      expect(episodes[0]).toMatchObject({
+        guid: 'json-2',
+        title: 'Video Episode',
+        slug: 'video-episode',
+        description: 'A video episode',
+        htmlContent: '<p>Watch <a href="https://json.example.com/notes/2">the notes</a></p>',
+        audioUrl: 'https://example.com/json-2.mp4',
+        audioType: 'video/mp4',
+        audioLength: 4096,
+        pubDate: '2024-03-02T09:00:00Z',
+        duration: 1800,
+        artwork: 'https://example.com/json-2.jpg',
+        keywords: ['video', 'demo'],
+        link: 'https://json.example.com/episodes/2',
+      })
+    })
+
+    it('fills in defaults for sparse items', async () => {
+      mockFetchXml(JSON_FEED)
+
+      const { episodes } = await parsePodcastFeed(FEED_URL)
+
+      expect(episodes[1]).toMatchObject({
+        guid: '1',
+        description: 'Plain text notes',
+        htmlContent: '',
+        audioLength: 1024,
+        duration: 0,
+        artwork: 'https://example.com/json-icon.png',
+        episodeType: 'full',
+        explicit: false,
+      })
+    })
+
+    it('reports items without attachments as skipped', () => {
+      const notices: FeedParseNotices = { skippedItems: [], rewrittenLinks: [] }
+
+      parseFeedContent(JSON_FEED, FEED_URL, notices)
+
+      expect(notices.skippedItems).toEqual([{ title: 'Text Post', guid: 'json-post' }])
+    })
+
+    it('accepts a JSON Feed 1.0 author', () => {
+      const feed = JSON.parse(JSON_FEED)
+      delete feed.authors
+      feed.author = { name: 'Solo Author' }
+
+      expect(parseFeedContent(JSON.stringify(feed), FEED_URL).podcast.author).toBe('Solo Author')
+    })
+
+    it('throws on malformed JSON', () => {
+      expect(() => parseFeedContent('{"version": ', FEED_URL)).toThrow(/Failed to parse JSON Feed/)
+    })
+
+    it('throws when items are missing', () => {
+      expect(() => parseFeedContent('{"version": "https://jsonfeed.org/version/1.1"}', FEED_URL)).toThrow(
+        'Invalid JSON Feed: missing items array',
+      )
+    })
+  })
+
+  describe('format detection', () => {
+    it('detects RSS, Atom, and JSON Feed documents', () => {
+      expect(detectFeedFormat(MINIMAL_FEED)).toBe('rss')
+      expect(detectFeedFormat(ATOM_FEED)).toBe('atom')
+      expect(detectFeedFormat(JSON_FEED)).toBe('json')
+    })
+
+    it('skips comments and a byte order mark before the root element', () => {
+      expect(detectFeedFormat('\uFEFF<?xml version="1.0"?>\n<!-- generated -->\n<atom:feed xmlns:atom="http://www.w3.org/2005/Atom"/>')).toBe('atom')
+      expect(detectFeedFormat('  \n{"version": "https://jsonfeed.org/version/1"}')).toBe('json')
+    })
+
+    it('parses a prefixed Atom root', () => {
+      const prefixed = `<?xml version="1.0"?>
+<a:feed xmlns:a="http://www.w3.org/2005/Atom">
+  <a:title>Prefixed</a:title>
+</a:feed>`
+
+      expect(parseFeedXml(prefixed, FEED_URL).podcast.title).toBe('Prefixed')
+    })
+
+    it('throws on XML that is neither RSS nor Atom', () => {
+      expect(() => parseFeedXml('<?xml version="1.0"?><opml version="2.0"></opml>', FEED_URL)).toThrow(
+        'Invalid feed: expected an RSS, Atom, or JSON Feed document',
+      )
+    })
+  })
+
   describe('error handling', () => {
     it('throws on network error', async () => {
       vi.mocked(fetch).mockRejectedValueOnce(new Error('Network timeout'))
@@ -580,3 +1294,154 @@ describe('parsePodcastFeed', () => {
     })
   })
 })
+
+describe('paged feeds', () => {
+  const FEED_URL = 'https://example.com/feed.xml'
+
+  function rssPage(links: string, ...guids: string[]): string {
+    const items = guids.map(guid => `
+      <item>
+        <title>${guid}</title>
+        <guid>${guid}</guid>
+        <enclosure url="https://example.com/${guid}.mp3" type="audio/mpeg" length="1" />
+      </item>`)
+    return `<?xml version="1.0"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel><title>Paged</title>${links}${items.join('')}</channel>
+</rss>`
+  }
+
+  /** A page built directly, for followFeedPages with a custom loader */
+  function page(url: string, guids: string[], links: FeedPage['links'] = {}): FeedPage {
+    return { feed: parseFeedPage(rssPage('', ...guids), url).feed, links }
+  }
+
+  beforeEach(() => {
+    vi.mocked(fetch).mockReset()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('reads next and prev-archive links, resolved against the page URL', () => {
+    const { links } = parseFeedPage(
+      rssPage('<atom:link rel="next" href="?page=2" /><atom:link rel="prev-archive" href="/archive/2023.xml" />', 'a'),
+      FEED_URL,
+    )
+
+    expect(links).toEqual({
+      next: 'https://example.com/feed.xml?page=2',
+      prevArchive: 'https://example.com/archive/2023.xml',
+    })
+  })
+
+  it('reads Atom next links and JSON Feed next_url', () => {
+    const atom = ATOM_FEED.replace('<link href="https://hub.example.com/" rel="hub" />', '<link rel="next" href="https://feeds.example.com/atom?page=2" />')
+    const json = JSON.stringify({ ...JSON.parse(JSON_FEED), next_url: 'https://feeds.example.com/feed.json?page=2' })
+
+    expect(parseFeedPage(atom, FEED_URL).links.next).toBe('https://feeds.example.com/atom?page=2')
+    expect(parseFeedPage(json, FEED_URL).links.next).toBe('https://feeds.example.com/feed.json?page=2')
+  })
+
+  it('follows pages and merges episodes by guid, earlier pages first', async () => {
+    mockFetchXml(rssPage('<atom:link rel="next" href="https://example.com/feed.xml?page=2" />', 'c', 'b'))
+    mockFetchXml(rssPage('<atom:link rel="next" href="https://example.com/feed.xml?page=3" />', 'b', 'a'))
+    mockFetchXml(rssPage('', 'z'))
+
+    const result = await parsePodcastFeed(FEED_URL)
+
+    expect(result.podcast.title).toBe('Paged')
+    expect(result.episodes.map(ep => ep.guid)).toEqual(['c', 'b', 'a', 'z'])
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops at a page linked before (cycle)', async () => {
+    const first = page(FEED_URL, ['a'], { next: 'https://example.com/2' })
+    const loadPage = vi.fn(async (url: string) => url === 'https://example.com/2'
+      ? page(url, ['b'], { next: 'https://example.com/3', prevArchive: FEED_URL })
+      : page(url, ['c'], { next: 'https://example.com/2' }))
+
+    const result = await followFeedPages(FEED_URL, first, loadPage)
+
+    expect(result.episodes.map(ep => ep.guid)).toEqual(['a', 'b', 'c'])
+    expect(loadPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('reads at most 50 pages', async () => {
+    const first = page(FEED_URL, ['0'], { next: 'https://example.com/1' })
+    const loadPage = vi.fn(async (url: string) => {
+      const n = Number(url.split('/').pop())
+      return page(url, [String(n)], { next: `https://example.com/${n + 1}` })
+    })
+
+    const result = await followFeedPages(FEED_URL, first, loadPage)
+
+    expect(result.episodes).toHaveLength(50)
+    expect(loadPage).toHaveBeenCalledTimes(49)
+  })
+
+  it('skips a page that fails to load', async () => {
+    const first = page(FEED_URL, ['a'], { next: 'https://example.com/2', prevArchive: 'https://example.com/archive' })
+    const loadPage = vi.fn(async (url: string) => {
+      if (url === 'https://example.com/2') throw new Error('Failed to fetch feed: 500 Internal Server Error')
+      return page(url, ['old'])
+    })
+
+    const result = await followFeedPages(FEED_URL, first, loadPage)
+
+    expect(result.episodes.map(ep => ep.guid)).toEqual(['a', 'old'])
+  })
+
+  it('returns a single-page feed as is', async () => {
+    const first = page(FEED_URL, ['a'])
+
+    expect(await followFeedPages(FEED_URL, first)).toBe(first.feed)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('fetchFeedXml', () => {
+  const FEED_URL = 'https://example.com/feed.xml'
+
+  it('returns the document and its validators', async () => {
+    mockFetchXml(MINIMAL_FEED, { ETag: '"abc"', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' })
+
+    const result = await fetchFeedXml(FEED_URL)
+
+    expect(result).toEqual({
+      notModified: false,
+      xml: MINIMAL_FEED,
+      validators: { etag: '"abc"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' },
+    })
+  })
+
+  it('sends stored validators as conditional headers', async () => {
+    mockFetchXml(MINIMAL_FEED)
+
+    await fetchFeedXml(FEED_URL, { etag: '"abc"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' })
+
+    expect(fetch).toHaveBeenCalledWith(FEED_URL, {
+      headers: {
+        'User-Agent': 'nuxt-podcast-theme/0.1.0',
+        'If-None-Match': '"abc"',
+        'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+      },
+    })
+  })
+
+  it('reports a 304 as not modified without reading the body', async () => {
+    const text = vi.fn()
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers(), text } as any)
+
+    const result = await fetchFeedXml(FEED_URL, { etag: '"abc"' })
+
+    expect(result).toEqual({ notModified: true })
+    expect(text).not.toHaveBeenCalled()
+  })
+
+  it('throws on non-OK HTTP responses', async () => {
+    mockFetchError(500, 'Internal Server Error')
+
+    await expect(fetchFeedXml(FEED_URL, { etag: '"abc"' })).rejects.toThrow(
+      /Failed to fetch feed: 500 Internal Server Error/,
+    )
+  })
+})
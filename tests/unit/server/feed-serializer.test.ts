@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+import { parseFeedXml } from '../../../server/utils/feed-parser'
+import { serializePodcastFeed } from '../../../server/utils/feed-serializer'
+import { applyFeedOverrides } from '../../../server/utils/feed-overrides'
+import type { FeedOverrides, PodcastFeed } from '../../../types/podcast'
+
+const FEED_URL = 'https://example.com/feed.xml'
+
+// ---------------------------------------------------------------------------
+// XML Fixtures
+// ---------------------------------------------------------------------------
+
+const HOST_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Tom &amp; Jerry's "Show"</title>
+    <description>Cats &lt;and&gt; mice</description>
+    <link>https://example.com</link>
+    <language>en-us</language>
+    <copyright>2024 Example</copyright>
+    <itunes:author>Jane Doe</itunes:author>
+    <itunes:image href="https://example.com/artwork.jpg" />
+    <itunes:category text="Technology" />
+    <itunes:category text="Science" />
+    <itunes:type>serial</itunes:type>
+    <itunes:explicit>no</itunes:explicit>
+    <podcast:guid>show-guid-abc-123</podcast:guid>
+    <podcast:funding url="https://example.com/donate">Support the show</podcast:funding>
+    <podcast:podroll>
+      <podcast:remoteItem feedGuid="c2a9f0c2-5d1a-5d2c-9c5f-3b2f2f0a4b1e" feedUrl="https://friends.example.com/feed.xml" />
+    </podcast:podroll>
+    <podcast:value type="lightning" method="keysend" suggested="0.00000005000">
+      <podcast:valueRecipient name="Jane &amp; Co" type="node" address="02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52" split="95" customKey="696969" customValue="eChoVKtO1KujpAA5HCoB" />
+      <podcast:valueRecipient name="Host app" type="node" address="03ae9f91a0cb8ff43840e3c322c4c61f019d8c1c3cea15a25cfc425ac605e61a4a" split="1" fee="true" />
+      <podcast:valueTimeSplit startTime="60" duration="237" remotePercentage="90">
+        <podcast:remoteItem feedGuid="917393e3-1b1e-5cef-ace4-edaa54e1f810" itemGuid="song-1" medium="music" />
+      </podcast:valueTimeSplit>
+    </podcast:value>
+    <podcast:liveItem status="pending" start="2024-04-01T18:00:00.000Z" end="2024-04-01T19:00:00.000Z">
+      <title>Live Q&amp;A</title>
+      <description>Ask us anything</description>
+      <guid isPermaLink="false">live-1</guid>
+      <enclosure url="https://example.com/live.m3u8" type="application/x-mpegURL" length="0" />
+      <podcast:contentLink href="https://youtube.com/live/abc">Watch on YouTube</podcast:contentLink>
+      <podcast:chat server="irc.zeronode.net" protocol="irc" accountId="@jane" space="#live" />
+    </podcast:liveItem>
+    <item>
+      <title>Episode 2: The Sequel</title>
+      <description><![CDATA[<p>Links to <a href="/notes">notes</a> &amp; more</p>]]></description>
+      <content:encoded><![CDATA[<p>Rich <strong>HTML</strong> with "quotes" &amp; &lt;entities&gt;</p>]]></content:encoded>
+      <link>https://example.com/episodes/2</link>
+      <guid isPermaLink="false">guid-2</guid>
+      <pubDate>Fri, 15 Mar 2024 12:00:00 GMT</pubDate>
+      <enclosure url="https://example.com/ep2.mp3?a=1&amp;b=2" type="audio/mpeg" length="98765432" />
+      <podcast:alternateEnclosure type="audio/opus" length="12345678" bitrate="32000" codecs="opus" title="Low bandwidth">
+        <podcast:source uri="https://example.com/ep2.opus" />
+        <podcast:integrity type="sri" value="sha384-ExVqijgYHm15PqQqdXfW95x+Rs6C+d6E/ICxyQOeFevnxNLR/wtJNrNYTjIysUBo" />
+      </podcast:alternateEnclosure>
+      <podcast:soundbite startTime="73" duration="60">The &amp; best minute</podcast:soundbite>
+      <podcast:soundbite startTime="1234.5" duration="42.25" />
+      <itunes:duration>01:23:45</itunes:duration>
+      <itunes:image href="https://example.com/ep2.jpg" />
+      <itunes:episode>3</itunes:episode>
+      <itunes:season>1</itunes:season>
+      <itunes:episodeType>full</itunes:episodeType>
+      <itunes:explicit>yes</itunes:explicit>
+      <itunes:keywords>tech, cats, mice</itunes:keywords>
+      <podcast:person role="host" href="https://example.com/jane">Jane Doe</podcast:person>
+      <podcast:transcript url="https://example.com/ep2.vtt" type="text/vtt" language="en" />
+    </item>
+    <item>
+      <title>Trailer</title>
+      <description>Coming soon</description>
+      <guid>guid-1</guid>
+      <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>
+      <enclosure url="https://example.com/trailer.mp3" type="audio/mpeg" length="1000" />
+      <itunes:episodeType>trailer</itunes:episodeType>
+    </item>
+  </channel>
+</rss>`
+
+const OVERRIDES: FeedOverrides = {
+  'guid-2': {
+    episodeNumber: 2,
+    persons: [
+      { name: 'Jane Doe', role: 'host' },
+      { name: 'Sam Guest', role: 'guest', img: 'https://example.com/sam.jpg' },
+    ],
+    chapters: { url: 'https://example.com/ep2-chapters.json', type: 'application/json+chapters' },
+    funding: [{ url: 'https://example.com/tip', text: 'Tip the guest' }],
+  },
+  'guid-1': {
+    seasonNumber: 1,
+    transcript: { url: 'https://example.com/trailer.srt', type: 'application/x-subrip' },
+  },
+  'not-in-feed': {
+    episodeNumber: 99,
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function parseXml(xml: string): Promise<PodcastFeed> {
+  return parseFeedXml(xml, FEED_URL)
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('applyFeedOverrides', () => {
+  it('corrects episode numbers and regenerates the slug', async () => {
+    const feed = applyFeedOverrides(await parseXml(HOST_FEED), OVERRIDES)
+    const episode = feed.episodes.find(ep => ep.guid === 'guid-2')!
+
+    expect(episode.episodeNumber).toBe(2)
+    expect(episode.seasonNumber).toBe(1)
+    expect(episode.slug).toBe('2-episode-2-the-sequel')
+  })
+
+  it('adds persons and funding without duplicating existing ones', async () => {
+    const feed = applyFeedOverrides(await parseXml(HOST_FEED), OVERRIDES)
+    const { podcast2 } = feed.episodes.find(ep => ep.guid === 'guid-2')!
+
+    expect(podcast2?.persons?.map(p => p.name)).toEqual(['Jane Doe', 'Sam Guest'])
+    expect(podcast2?.funding).toEqual([{ url: 'https://example.com/tip', text: 'Tip the guest' }])
+  })
+
+  it('replaces chapters and transcripts', async () => {
+    const feed = applyFeedOverrides(await parseXml(HOST_FEED), OVERRIDES)
+    const [sequel, trailer] = feed.episodes
+
+    expect(sequel!.podcast2?.chapters?.url).toBe('https://example.com/ep2-chapters.json')
+    expect(sequel!.podcast2?.transcript?.url).toBe('https://example.com/ep2.vtt')
+    expect(trailer!.podcast2?.transcript).toEqual({ url: 'https://example.com/trailer.srt', type: 'application/x-subrip' })
+    expect(trailer!.seasonNumber).toBe(1)
+  })
+
+  it('does not modify the input feed', async () => {
+    const original = await parseXml(HOST_FEED)
+    const snapshot = structuredClone(original)
+
+    applyFeedOverrides(original, OVERRIDES)
+
+    expect(original).toEqual(snapshot)
+  })
+
+  it('returns the feed unchanged without overrides', async () => {
+    const feed = await parseXml(HOST_FEED)
+    expect(applyFeedOverrides(feed, {})).toBe(feed)
+  })
+})
+
+describe('serializePodcastFeed', () => {
+  it('declares the RSS, itunes, and podcast namespaces', async () => {
+    const xml = serializePodcastFeed(await parseXml(HOST_FEED))
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+    expect(xml).toContain('<rss version="2.0"')
+    expect(xml).toContain('xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"')
+    expect(xml).toContain('xmlns:podcast="https://podcastindex.org/namespace/1.0"')
+  })
+
+  it('links to itself when given a self URL', async () => {
+    const xml = serializePodcastFeed(await parseXml(HOST_FEED), 'https://site.example/feed.xml?show=a&b')
+    expect(xml).toContain('<atom:link href="https://site.example/feed.xml?show=a&amp;b" rel="self" type="application/rss+xml" />')
+  })
+
+  it('escapes markup in text and attributes', async () => {
+    const xml = serializePodcastFeed(await parseXml(HOST_FEED))
+
+    expect(xml).toContain('<title>Tom &amp; Jerry&apos;s &quot;Show&quot;</title>')
+    expect(xml).toContain('url="https://example.com/ep2.mp3?a=1&amp;b=2"')
+    expect(xml).not.toContain('<strong>')
+  })
+
+  it('round-trips the host feed', async () => {
+    const feed = await parseXml(HOST_FEED)
+    const reparsed = await parseXml(serializePodcastFeed(feed))
+
+    expect(reparsed).toEqual(feed)
+  })
+
+  it('round-trips the enriched feed', async () => {
+    const enriched = applyFeedOverrides(await parseXml(HOST_FEED), OVERRIDES)
+    const reparsed = await parseXml(serializePodcastFeed(enriched))
+
+    expect(reparsed).toEqual(enriched)
+  })
+
+  it('round-trips a minimal feed', async () => {
+    const feed = await parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Minimal</title>
+    <item>
+      <title>Only Episode</title>
+      <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>
+      <enclosure url="https://example.com/only.mp3" />
+    </item>
+  </channel>
+</rss>`)
+    const reparsed = await parseXml(serializePodcastFeed(feed))
+
+    expect(reparsed).toEqual(feed)
+  })
+})
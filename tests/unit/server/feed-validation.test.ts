@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { findFeedIssues, findUnreachableArtwork } from '../../../server/utils/feed-validation'
+import type { FeedParseNotices } from '../../../server/utils/feed-parser'
+import type { Episode, PodcastFeed } from '../../../types/podcast'
+
+vi.stubGlobal('fetch', vi.fn())
+
+afterEach(() => {
+  vi.mocked(fetch).mockReset()
+})
+
+function makeEpisode(overrides: Partial<Episode> & Pick<Episode, 'guid'>): Episode {
+  return {
+    title: overrides.guid,
+    slug: overrides.guid,
+    description: '',
+    audioUrl: `https://example.com/${overrides.guid}.mp3`,
+    audioType: 'audio/mpeg',
+    audioLength: 0,
+    pubDate: '2024-01-01T00:00:00Z',
+    duration: 1800,
+    episodeType: 'full',
+    explicit: false,
+    ...overrides,
+  }
+}
+
+function makeFeed(episodes: Episode[], podcast: Partial<PodcastFeed['podcast']> = {}): PodcastFeed {
+  return {
+    podcast: {
+      title: 'Show',
+      author: 'Host',
+      description: '',
+      artwork: 'https://example.com/show.jpg',
+      categories: [],
+      feedUrl: 'https://example.com/feed.xml',
+      type: 'episodic',
+      explicit: false,
+      podcast2: { guid: 'show-guid' },
+      ...podcast,
+    },
+    episodes,
+  }
+}
+
+const noNotices = (): FeedParseNotices => ({ skippedItems: [], rewrittenLinks: [] })
+
+const checks = (feed: PodcastFeed, notices = noNotices()) =>
+  findFeedIssues(feed, notices).map(finding => finding.check)
+
+describe('findFeedIssues', () => {
+  it('finds nothing wrong with a clean feed', () => {
+    expect(findFeedIssues(makeFeed([makeEpisode({ guid: 'a' }), makeEpisode({ guid: 'b' })]), noNotices())).toEqual([])
+  })
+
+  it('reports items the parser skipped for a missing enclosure', () => {
+    const notices = noNotices()
+    notices.skippedItems.push({ title: 'Blog post', guid: 'post-1' })
+
+    expect(findFeedIssues(makeFeed([]), notices)).toEqual([
+      expect.objectContaining({ check: 'missing-enclosure', severity: 'warning', episode: { title: 'Blog post', guid: 'post-1' } }),
+    ])
+  })
+
+  it('reports duplicate GUIDs on the later episode', () => {
+    const feed = makeFeed([
+      makeEpisode({ guid: 'a', title: 'First', slug: 'first' }),
+      makeEpisode({ guid: 'a', title: 'Second', slug: 'second' }),
+    ])
+
+    expect(findFeedIssues(feed, noNotices())).toEqual([
+      expect.objectContaining({ check: 'duplicate-guid', severity: 'error', episode: expect.objectContaining({ title: 'Second' }) }),
+    ])
+  })
+
+  it('reports colliding slugs on the newer episode, with the slug it is served as', () => {
+    const feed = makeFeed([
+      makeEpisode({ guid: 'b', title: 'Rerun', slug: 'same', pubDate: '2024-02-01T00:00:00Z' }),
+      makeEpisode({ guid: 'a', title: 'Original', slug: 'same', pubDate: '2024-01-01T00:00:00Z' }),
+    ])
+
+    const findings = findFeedIssues(feed, noNotices())
+
+    expect(findings).toEqual([
+      expect.objectContaining({ check: 'duplicate-slug', severity: 'warning', episode: { guid: 'b', title: 'Rerun', slug: 'same-2' } }),
+    ])
+    expect(findings[0]!.message).toContain('"Original"')
+  })
+
+  it('reports zero durations', () => {
+    expect(checks(makeFeed([makeEpisode({ guid: 'a', duration: 0 })]))).toEqual(['zero-duration'])
+  })
+
+  it('reports a missing show-level podcast:guid', () => {
+    expect(checks(makeFeed([], { podcast2: undefined }))).toEqual(['missing-podcast-guid'])
+  })
+
+  it('reports transcript and chapter URLs that are not absolute http(s) URLs', () => {
+    const feed = makeFeed([
+      makeEpisode({
+        guid: 'a',
+        podcast2: {
+          transcript: { url: '/transcripts/a.vtt', type: 'text/vtt' },
+          chapters: { url: '', type: 'application/json+chapters' },
+        },
+      }),
+      makeEpisode({
+        guid: 'b',
+        podcast2: {
+          transcript: { url: 'https://example.com/b.vtt', type: 'text/vtt' },
+          chapters: { url: 'ftp://example.com/b.json', type: 'application/json+chapters' },
+        },
+      }),
+    ])
+
+    expect(checks(feed)).toEqual(['invalid-transcript-url', 'invalid-chapters-url', 'invalid-chapters-url'])
+  })
+
+  it('reports rewritten links with the episode slug', () => {
+    const notices = noNotices()
+    notices.rewrittenLinks.push({ guid: 'a', title: 'A', from: 'example.com', to: 'https://example.com' })
+
+    expect(findFeedIssues(makeFeed([makeEpisode({ guid: 'a', slug: '1-a' })]), notices)).toEqual([
+      expect.objectContaining({ check: 'rewritten-link', severity: 'info', episode: { guid: 'a', title: 'A', slug: '1-a' } }),
+    ])
+  })
+})
+
+describe('findUnreachableArtwork', () => {
+  it('checks the show artwork and each distinct episode artwork once', async () => {
+    vi.mocked(fetch).mockImplementation(async (url) => {
+      return new Response(null, { status: String(url).includes('missing') ? 404 : 200 })
+    })
+    const feed = makeFeed([
+      makeEpisode({ guid: 'a', artwork: 'https://example.com/show.jpg' }),
+      makeEpisode({ guid: 'b', artwork: 'https://example.com/missing.jpg' }),
+      makeEpisode({ guid: 'c', artwork: 'https://example.com/missing.jpg' }),
+    ])
+
+    const findings = await findUnreachableArtwork(feed)
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(findings.map(finding => finding.episode?.guid)).toEqual(['b', 'c'])
+    expect(findings[0]).toMatchObject({ severity: 'warning', message: expect.stringContaining('HTTP 404') })
+  })
+
+  it('falls back to a ranged GET when HEAD is not allowed', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(new Response('x', { status: 206 }))
+
+    expect(await findUnreachableArtwork(makeFeed([]))).toEqual([])
+    expect(vi.mocked(fetch).mock.calls[1]![1]).toMatchObject({ headers: { Range: 'bytes=0-0' } })
+  })
+
+  it('reports unreachable show artwork as an error', async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('fetch failed'))
+
+    expect(await findUnreachableArtwork(makeFeed([]))).toEqual([
+      expect.objectContaining({ check: 'unreachable-artwork', severity: 'error', message: expect.stringContaining('request failed') }),
+    ])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { currentLiveItems } from '../../../server/utils/live'
+import type { Episode, LiveItem, PodcastFeed } from '../../../types/podcast'
+
+function makeLiveItem(overrides: Partial<LiveItem> & Pick<LiveItem, 'guid' | 'status' | 'start'>): LiveItem {
+  return {
+    title: overrides.guid,
+    description: '',
+    streamUrl: `https://example.com/${overrides.guid}.m3u8`,
+    streamType: 'application/x-mpegURL',
+    ...overrides,
+  }
+}
+
+const RECORDING: Episode = {
+  guid: 'ended-published',
+  title: 'Launch Party (recording)',
+  slug: 'launch-party-recording',
+  description: '',
+  htmlContent: '<p>Notes</p>',
+  audioUrl: 'https://example.com/launch.mp3',
+  audioType: 'audio/mpeg',
+  audioLength: 1000,
+  pubDate: '2024-04-02T00:00:00Z',
+  duration: 3600,
+  episodeType: 'full',
+  explicit: false,
+}
+
+function makeFeed(liveItems: LiveItem[] | undefined): PodcastFeed {
+  return {
+    podcast: {
+      title: 'Live Show',
+      author: 'Jane',
+      description: '',
+      artwork: '',
+      categories: [],
+      feedUrl: 'https://example.com/feed.xml',
+      type: 'episodic',
+      explicit: false,
+    },
+    episodes: [RECORDING],
+    liveItems,
+  }
+}
+
+describe('currentLiveItems', () => {
+  it('lists live streams first, then upcoming ones soonest first', () => {
+    const items = currentLiveItems(makeFeed([
+      makeLiveItem({ guid: 'later', status: 'pending', start: '2024-06-01T18:00:00.000Z' }),
+      makeLiveItem({ guid: 'sooner', status: 'pending', start: '2024-05-01T18:00:00.000Z' }),
+      makeLiveItem({ guid: 'now', status: 'live', start: '2024-04-01T18:00:00.000Z' }),
+    ]))
+
+    expect(items.map(item => item.guid)).toEqual(['now', 'sooner', 'later'])
+  })
+
+  it('leaves out ended streams without a recording', () => {
+    const items = currentLiveItems(makeFeed([
+      makeLiveItem({ guid: 'ended-unpublished', status: 'ended', start: '2024-03-01T18:00:00.000Z' }),
+    ]))
+
+    expect(items).toEqual([])
+  })
+
+  it('attaches the published recording as a summary', () => {
+    const [item] = currentLiveItems(makeFeed([
+      makeLiveItem({ guid: 'ended-published', status: 'ended', start: '2024-04-01T18:00:00.000Z' }),
+    ]), 'show-a')
+
+    expect(item?.episode).toMatchObject({ guid: 'ended-published', slug: 'launch-party-recording', showId: 'show-a' })
+    expect(item?.episode).not.toHaveProperty('htmlContent')
+  })
+
+  it('treats a stream as ended once its recording is published', () => {
+    const [item] = currentLiveItems(makeFeed([
+      makeLiveItem({ guid: 'ended-published', status: 'live', start: '2024-04-01T18:00:00.000Z' }),
+    ]))
+
+    expect(item?.status).toBe('ended')
+    expect(item?.episode?.guid).toBe('ended-published')
+  })
+
+  it('is empty for a feed without live items', () => {
+    expect(currentLiveItems(makeFeed(undefined))).toEqual([])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { getPixels } from '@unpic/pixels'
+import { renderEpisodeCard, OG_IMAGE_WIDTH, OG_IMAGE_HEIGHT, type EpisodeCard } from '../../../server/utils/og-image'
+import { createRaster, encodePng, measureText, normalizeText, wrapText } from '../../../server/utils/raster'
+import { generateThemePalette } from '../../../server/utils/palette-generator'
+
+const palette = generateThemePalette([
+  { hex: '#c83c28', red: 200, green: 60, blue: 40, area: 0.5, saturation: 0.7, lightness: 0.47 },
+])
+
+function solidArtwork(size: number, rgb: [number, number, number]) {
+  const data = new Uint8ClampedArray(size * size * 4)
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([...rgb, 255], i)
+  }
+  return { data, width: size, height: size }
+}
+
+const CARD: EpisodeCard = {
+  title: 'Why Distributed Systems Fail',
+  showTitle: 'Test Podcast',
+  episodeNumber: 42,
+  seasonNumber: 3,
+  episodeType: 'full',
+  duration: 5025,
+  artwork: solidArtwork(64, [0, 128, 255]),
+  colors: palette.dark,
+}
+
+describe('encodePng', () => {
+  it('writes a PNG that decodes to the same pixels', async () => {
+    const raster = createRaster(3, 2, [10, 20, 30])
+    raster.data.set([255, 0, 0, 255], 4)
+
+    const decoded = await getPixels(await encodePng(raster))
+
+    expect(decoded.width).toBe(3)
+    expect(decoded.height).toBe(2)
+    expect(Array.from(decoded.data.slice(0, 8))).toEqual([10, 20, 30, 255, 255, 0, 0, 255])
+  })
+})
+
+describe('normalizeText', () => {
+  it('strips accents and drops characters without glyphs', () => {
+    expect(normalizeText('Café  crème 🎉 “quoted”')).toBe('Cafe creme “quoted”')
+  })
+})
+
+describe('wrapText', () => {
+  it('wraps at word boundaries within the width', () => {
+    const { lines, truncated } = wrapText('one two three four five six', 40, 200, 5)
+
+    expect(truncated).toBe(false)
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.join(' ')).toBe('one two three four five six')
+    for (const line of lines) {
+      expect(measureText(line, 40)).toBeLessThanOrEqual(200)
+    }
+  })
+
+  it('truncates with an ellipsis past the line limit', () => {
+    const { lines, truncated } = wrapText('one two three four five six seven eight', 40, 200, 2)
+
+    expect(truncated).toBe(true)
+    expect(lines).toHaveLength(2)
+    expect(lines[1]).toMatch(/…$/)
+    expect(measureText(lines[1]!, 40)).toBeLessThanOrEqual(200)
+  })
+
+  it('breaks words longer than a line', () => {
+    const { lines } = wrapText('a'.repeat(40), 40, 200, 10)
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.join('')).toBe('a'.repeat(40))
+  })
+})
+
+describe('renderEpisodeCard', () => {
+  it('renders a 1200×630 PNG', async () => {
+    const png = await renderEpisodeCard(CARD)
+
+    expect(Array.from(png.slice(0, 8))).toEqual([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])
+    const decoded = await getPixels(png)
+    expect(decoded.width).toBe(OG_IMAGE_WIDTH)
+    expect(decoded.height).toBe(OG_IMAGE_HEIGHT)
+  })
+
+  it('draws the artwork and a palette-tinted accent bar', async () => {
+    const decoded = await getPixels(await renderEpisodeCard(CARD))
+    const pixel = (x: number, y: number) => Array.from(decoded.data.slice((y * OG_IMAGE_WIDTH + x) * 4, (y * OG_IMAGE_WIDTH + x) * 4 + 3))
+
+    expect(pixel(300, 300)).toEqual([0, 128, 255])
+
+    const [r, g, b] = pixel(600, OG_IMAGE_HEIGHT - 4)
+    const primary = palette.dark.primary
+    expect([r, g, b]).toEqual([1, 3, 5].map(i => parseInt(primary.slice(i, i + 2), 16)))
+  })
+
+  it('renders without artwork', async () => {
+    const png = await renderEpisodeCard({ ...CARD, artwork: null, episodeType: 'bonus', duration: 0 })
+    const decoded = await getPixels(png)
+    expect(decoded.width).toBe(OG_IMAGE_WIDTH)
+  })
+})
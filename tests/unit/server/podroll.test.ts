@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PodcastFeed } from '../../../types/podcast'
+
+vi.mock('../../../server/utils/feed-cache', () => ({ getCachedPodcastFeed: vi.fn() }))
+
+import { getCachedPodcastFeed } from '../../../server/utils/feed-cache'
+import { clearPodrollFailures, resolvePodroll } from '../../../server/utils/podroll'
+
+function feed(title: string, guid?: string): PodcastFeed {
+  return {
+    podcast: {
+      title,
+      author: `${title} Host`,
+      description: '',
+      artwork: `https://example.com/${title}.jpg`,
+      categories: [],
+      feedUrl: '',
+      type: 'episodic',
+      explicit: false,
+      link: `https://example.com/${title}`,
+      podcast2: guid ? { guid } : undefined,
+    },
+    episodes: [
+      {
+        guid: `${title}-ep-1`,
+        title: `${title} Episode 1`,
+        slug: 'episode-1',
+        description: '',
+        audioUrl: 'https://example.com/ep1.mp3',
+        pubDate: '2024-01-01T00:00:00.000Z',
+        duration: 60,
+        link: `https://example.com/${title}/1`,
+      },
+    ],
+  } as PodcastFeed
+}
+
+const FEEDS: Record<string, PodcastFeed> = {
+  'https://a.example.com/feed.xml': feed('Alpha'),
+  'https://b.example.com/feed.xml': feed('Beta'),
+  'https://network.example.com/gamma.xml': feed('Gamma', 'gamma-guid'),
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.mocked(getCachedPodcastFeed).mockImplementation(async (url) => {
+    const found = FEEDS[url]
+    if (!found) throw new Error('Failed to fetch feed: 404')
+    return found
+  })
+})
+
+afterEach(() => {
+  clearPodrollFailures()
+  vi.useRealTimers()
+  vi.mocked(getCachedPodcastFeed).mockReset()
+  vi.mocked(console.warn).mockRestore()
+})
+
+describe('resolvePodroll', () => {
+  it('takes each show\'s title and artwork from its feed, in podroll order', async () => {
+    const shows = await resolvePodroll([
+      { feedGuid: 'b-guid', feedUrl: 'https://b.example.com/feed.xml' },
+      { feedGuid: 'a-guid', feedUrl: 'https://a.example.com/feed.xml', itemGuid: 'Alpha-ep-1' },
+    ])
+
+    expect(shows).toEqual([
+      {
+        feedGuid: 'b-guid',
+        feedUrl: 'https://b.example.com/feed.xml',
+        title: 'Beta',
+        author: 'Beta Host',
+        artwork: 'https://example.com/Beta.jpg',
+        link: 'https://example.com/Beta',
+        showId: undefined,
+        episode: undefined,
+      },
+      expect.objectContaining({
+        title: 'Alpha',
+        episode: { title: 'Alpha Episode 1', link: 'https://example.com/Alpha/1' },
+      }),
+    ])
+  })
+
+  it('falls back to a feed link when a feed fails, keeping the others', async () => {
+    const shows = await resolvePodroll([
+      { feedGuid: 'dead-guid', feedUrl: 'https://www.dead.example.com/feed.xml' },
+      { feedGuid: 'a-guid', feedUrl: 'https://a.example.com/feed.xml' },
+    ])
+
+    expect(shows[0]).toEqual({
+      feedGuid: 'dead-guid',
+      feedUrl: 'https://www.dead.example.com/feed.xml',
+      title: 'dead.example.com',
+      link: 'https://www.dead.example.com/feed.xml',
+      showId: undefined,
+      unavailable: true,
+    })
+    expect(shows[1]!.title).toBe('Alpha')
+  })
+
+  it('does not try a failed feed again for a while', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(0)
+    const items = [{ feedGuid: 'dead-guid', feedUrl: 'https://dead.example.com/feed.xml' }]
+
+    await resolvePodroll(items)
+    const shows = await resolvePodroll(items)
+
+    expect(shows[0]!.unavailable).toBe(true)
+    expect(getCachedPodcastFeed).toHaveBeenCalledTimes(1)
+
+    vi.setSystemTime(15 * 60 * 1000)
+    await resolvePodroll(items)
+    expect(getCachedPodcastFeed).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up on a feed that takes too long', async () => {
+    vi.mocked(getCachedPodcastFeed).mockImplementation(url =>
+      url.includes('slow') ? new Promise(() => {}) : Promise.resolve(FEEDS[url]!),
+    )
+
+    const shows = await resolvePodroll([
+      { feedGuid: 'slow-guid', feedUrl: 'https://slow.example.com/feed.xml' },
+      { feedGuid: 'a-guid', feedUrl: 'https://a.example.com/feed.xml' },
+    ], [], 20)
+
+    expect(shows.map(show => [show.title, show.unavailable])).toEqual([
+      ['slow.example.com', true],
+      ['Alpha', undefined],
+    ])
+  })
+
+  it('matches network shows by feed URL or podcast:guid', async () => {
+    const network = [
+      { id: 'alpha', feedUrl: 'https://a.example.com/feed.xml' },
+      { id: 'gamma', feedUrl: 'https://network.example.com/gamma.xml' },
+    ]
+
+    const shows = await resolvePodroll([
+      { feedGuid: 'a-guid', feedUrl: 'https://a.example.com/feed.xml' },
+      { feedGuid: 'gamma-guid' },
+    ], network)
+
+    expect(shows.map(show => [show.title, show.showId])).toEqual([
+      ['Alpha', 'alpha'],
+      ['Gamma', 'gamma'],
+    ])
+  })
+
+  it('leaves out items without a known feed URL', async () => {
+    const shows = await resolvePodroll([{ feedGuid: 'unknown-guid' }])
+
+    expect(shows).toEqual([])
+  })
+})
@@ -0,0 +1,230 @@
+import type { IndexedCue } from '../../../server/utils/search-index'
+import { describe, expect, it } from 'vitest'
+import {
+  boundedEditDistance,
+  buildSearchIndex,
+  findTranscriptHit,
+  getSearchIndex,
+  highlight,
+  makeSnippet,
+  searchEpisodes,
+  tokenize,
+} from '../../../server/utils/search-index'
+import type { Episode, PodcastFeed } from '../../../types/podcast'
+
+/**
+ * Helper to create a minimal Episode object for testing.
+ */
+function createEpisode(overrides: Partial<Episode> = {}): Episode {
+  return {
+    guid: 'guid',
+    title: 'Untitled',
+    slug: 'untitled',
+    description: '',
+    audioUrl: 'https://example.com/audio.mp3',
+    audioType: 'audio/mpeg',
+    audioLength: 0,
+    pubDate: '2025-01-01T00:00:00Z',
+    duration: 600,
+    episodeType: 'full',
+    explicit: false,
+    ...overrides,
+  }
+}
+
+const EPISODES: Episode[] = [
+  createEpisode({
+    guid: 'css',
+    slug: 'css-grid',
+    title: 'CSS Grid Deep Dive',
+    description: 'Everything about layout with grid.',
+  }),
+  createEpisode({
+    guid: 'js',
+    slug: 'javascript-news',
+    title: 'JavaScript News',
+    description: 'Updates from the ecosystem.',
+    htmlContent: '<p>We talk about <strong>grid</strong> support in browsers.</p>',
+    keywords: ['typescript', 'bundlers'],
+  }),
+  createEpisode({
+    guid: 'guest',
+    slug: 'interview',
+    title: 'An Interview',
+    description: 'A chat with a special guest.',
+    podcast2: { persons: [{ name: 'Ada Lovelace', role: 'guest' }] },
+  }),
+]
+
+describe('tokenize', () => {
+  it('lowercases and splits on non-word characters', () => {
+    expect(tokenize('Hello, World! CSS-Grid')).toEqual(['hello', 'world', 'css', 'grid'])
+  })
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('The state of a UI')).toEqual(['state', 'ui'])
+  })
+
+  it('strips diacritics', () => {
+    expect(tokenize('Café Résumé')).toEqual(['cafe', 'resume'])
+  })
+})
+
+describe('boundedEditDistance', () => {
+  it('returns the edit distance for close words', () => {
+    expect(boundedEditDistance('grid', 'grid', 1)).toBe(0)
+    expect(boundedEditDistance('grid', 'gird', 2)).toBe(2)
+    expect(boundedEditDistance('grid', 'grit', 1)).toBe(1)
+  })
+
+  it('returns max + 1 when the distance exceeds max', () => {
+    expect(boundedEditDistance('grid', 'javascript', 1)).toBe(2)
+    expect(boundedEditDistance('abcd', 'wxyz', 2)).toBe(3)
+  })
+})
+
+describe('searchEpisodes', () => {
+  const index = buildSearchIndex(EPISODES)
+
+  it('returns no results for an empty query', () => {
+    const response = searchEpisodes(index, '   ')
+    expect(response.results).toEqual([])
+    expect(response.total).toBe(0)
+  })
+
+  it('ranks title matches above show-note matches', () => {
+    const response = searchEpisodes(index, 'grid')
+    expect(response.results.map(r => r.slug)).toEqual(['css-grid', 'javascript-news'])
+    expect(response.results[0]!.score).toBeGreaterThan(response.results[1]!.score)
+  })
+
+  it('matches prefixes', () => {
+    const response = searchEpisodes(index, 'javas')
+    expect(response.results.map(r => r.slug)).toEqual(['javascript-news'])
+  })
+
+  it('tolerates typos', () => {
+    const response = searchEpisodes(index, 'javscript')
+    expect(response.results.map(r => r.slug)).toEqual(['javascript-news'])
+  })
+
+  it('searches keywords and person names', () => {
+    expect(searchEpisodes(index, 'typescript').results[0]?.slug).toBe('javascript-news')
+    expect(searchEpisodes(index, 'lovelace').results[0]?.slug).toBe('interview')
+  })
+
+  it('requires every query term to match', () => {
+    expect(searchEpisodes(index, 'grid layout').results.map(r => r.slug)).toEqual(['css-grid'])
+    expect(searchEpisodes(index, 'grid lovelace').results).toEqual([])
+  })
+
+  it('highlights matched terms in the title and snippet', () => {
+    const [result] = searchEpisodes(index, 'grid').results
+    expect(result!.titleHighlight).toBe('CSS <mark>Grid</mark> Deep Dive')
+    expect(result!.snippet).toContain('<mark>grid</mark>')
+  })
+
+  it('paginates results', () => {
+    const page1 = searchEpisodes(index, 'grid', { page: 1, limit: 1 })
+    const page2 = searchEpisodes(index, 'grid', { page: 2, limit: 1 })
+
+    expect(page1.total).toBe(2)
+    expect(page1.totalPages).toBe(2)
+    expect(page1.results[0]?.slug).toBe('css-grid')
+    expect(page2.page).toBe(2)
+    expect(page2.results[0]?.slug).toBe('javascript-news')
+  })
+})
+
+describe('transcript search', () => {
+  const transcripts = new Map<string, IndexedCue[]>([
+    ['guest', [
+      { startTime: 12.4, text: 'Welcome back to the show.' },
+      { startTime: 95.8, text: 'Let us talk about the analytical engine.' },
+      { startTime: 180, text: 'The engine could compute Bernoulli numbers.' },
+    ]],
+  ])
+  const index = buildSearchIndex(EPISODES, transcripts)
+
+  it('finds episodes by words only spoken in the transcript', () => {
+    const response = searchEpisodes(index, 'bernoulli')
+    expect(response.results.map(r => r.slug)).toEqual(['interview'])
+  })
+
+  it('returns the matching cue start time and highlighted text', () => {
+    const [result] = searchEpisodes(index, 'bernoulli').results
+    expect(result!.transcriptHit).toEqual({
+      startTime: 180,
+      snippet: 'The engine could compute <mark>Bernoulli</mark> numbers.',
+    })
+  })
+
+  it('omits transcript hits for episodes without transcripts', () => {
+    const [result] = searchEpisodes(index, 'grid').results
+    expect(result!.transcriptHit).toBeUndefined()
+  })
+
+  it('ranks show-note matches above transcript-only matches', () => {
+    const withTranscript = buildSearchIndex(EPISODES, new Map([
+      ['css', [{ startTime: 0, text: 'Today: ecosystem news.' }]],
+    ]))
+    const response = searchEpisodes(withTranscript, 'ecosystem')
+    expect(response.results.map(r => r.slug)).toEqual(['javascript-news', 'css-grid'])
+  })
+})
+
+describe('findTranscriptHit', () => {
+  const cues: IndexedCue[] = [
+    { startTime: 10, text: 'The engine starts.' },
+    { startTime: 20, text: 'The analytical engine is a machine.' },
+    { startTime: 30, text: 'Another analytical engine mention.' },
+  ]
+
+  it('prefers the cue matching the most terms, earliest on ties', () => {
+    expect(findTranscriptHit(cues, new Set(['analytical', 'engine']))?.startTime).toBe(20)
+    expect(findTranscriptHit(cues, new Set(['engine']))?.startTime).toBe(10)
+  })
+
+  it('returns undefined when no cue matches', () => {
+    expect(findTranscriptHit(cues, new Set(['missing']))).toBeUndefined()
+  })
+})
+
+describe('highlight', () => {
+  it('escapes HTML in the surrounding text', () => {
+    expect(highlight('<b>grid</b>', new Set(['grid']))).toBe('&lt;b&gt;<mark>grid</mark>&lt;/b&gt;')
+  })
+})
+
+describe('makeSnippet', () => {
+  it('centers the excerpt on the first match with ellipses', () => {
+    const text = `${'lorem '.repeat(60)}target ${'ipsum '.repeat(60)}`.trim()
+    const snippet = makeSnippet(text, new Set(['target']), 100)
+
+    expect(snippet.startsWith('… ')).toBe(true)
+    expect(snippet.endsWith(' …')).toBe(true)
+    expect(snippet).toContain('<mark>target</mark>')
+  })
+
+  it('starts at the beginning when nothing matches', () => {
+    expect(makeSnippet('short text', new Set(['missing']))).toBe('short text')
+  })
+})
+
+describe('getSearchIndex', () => {
+  const feed: PodcastFeed = { podcast: {} as PodcastFeed['podcast'], episodes: EPISODES }
+
+  it('reuses the index for the same feed object', () => {
+    expect(getSearchIndex(feed)).toBe(getSearchIndex(feed))
+  })
+
+  it('rebuilds the index when the transcript map changes', () => {
+    const transcripts = new Map([['css', [{ startTime: 5, text: 'Flexbox comparison' }]]])
+    const before = getSearchIndex(feed)
+    const index = getSearchIndex(feed, transcripts)
+
+    expect(index).not.toBe(before)
+    expect(getSearchIndex(feed, transcripts)).toBe(index)
+    expect(searchEpisodes(index, 'flexbox').results[0]?.slug).toBe('css-grid')
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { findStartEpisode, getSeasonEpisodes, summarizeSeasons } from '../../../server/utils/seasons'
+import type { Episode } from '../../../types/podcast'
+
+function makeEpisode(overrides: Partial<Episode> & Pick<Episode, 'guid' | 'pubDate'>): Episode {
+  return {
+    title: overrides.guid,
+    slug: overrides.guid,
+    description: '',
+    audioUrl: `https://example.com/${overrides.guid}.mp3`,
+    audioType: 'audio/mpeg',
+    audioLength: 0,
+    duration: 1800,
+    episodeType: 'full',
+    explicit: false,
+    ...overrides,
+  }
+}
+
+// Newest-first, as feeds list them
+const EPISODES: Episode[] = [
+  makeEpisode({ guid: 's2e2', pubDate: '2024-06-08T00:00:00Z', seasonNumber: 2, episodeNumber: 2 }),
+  makeEpisode({ guid: 's2e1', pubDate: '2024-06-01T00:00:00Z', seasonNumber: 2, episodeNumber: 1, artwork: 'https://example.com/s2.jpg' }),
+  makeEpisode({ guid: 'special', pubDate: '2024-03-01T00:00:00Z' }),
+  makeEpisode({ guid: 's1e3', pubDate: '2024-01-15T00:00:00Z', seasonNumber: 1, episodeNumber: 3 }),
+  // Bulk release: same timestamp, ordered by episode number
+  makeEpisode({ guid: 's1e2', pubDate: '2024-01-08T00:00:00Z', seasonNumber: 1, episodeNumber: 2 }),
+  makeEpisode({ guid: 's1e1', pubDate: '2024-01-08T00:00:00Z', seasonNumber: 1, episodeNumber: 1 }),
+  makeEpisode({ guid: 's1-trailer', pubDate: '2024-01-01T00:00:00Z', seasonNumber: 1, episodeType: 'trailer', duration: 120 }),
+]
+
+describe('getSeasonEpisodes', () => {
+  it('returns a serial season oldest-first', () => {
+    const season = getSeasonEpisodes(EPISODES, 1, 'serial')
+    expect(season.map(ep => ep.guid)).toEqual(['s1-trailer', 's1e1', 's1e2', 's1e3'])
+  })
+
+  it('keeps feed order for episodic shows', () => {
+    const season = getSeasonEpisodes(EPISODES, 1, 'episodic')
+    expect(season.map(ep => ep.guid)).toEqual(['s1e3', 's1e2', 's1e1', 's1-trailer'])
+  })
+
+  it('returns nothing for an unknown season', () => {
+    expect(getSeasonEpisodes(EPISODES, 7, 'serial')).toEqual([])
+  })
+
+  it('does not reorder the input', () => {
+    const before = EPISODES.map(ep => ep.guid)
+    getSeasonEpisodes(EPISODES, 1, 'serial')
+    expect(EPISODES.map(ep => ep.guid)).toEqual(before)
+  })
+})
+
+describe('summarizeSeasons', () => {
+  it('lists numbered seasons lowest first with counts and dates', () => {
+    expect(summarizeSeasons(EPISODES)).toEqual([
+      {
+        seasonNumber: 1,
+        episodeCount: 4,
+        duration: 1800 * 3 + 120,
+        firstPubDate: '2024-01-01T00:00:00Z',
+        latestPubDate: '2024-01-15T00:00:00Z',
+        artwork: undefined,
+      },
+      {
+        seasonNumber: 2,
+        episodeCount: 2,
+        duration: 3600,
+        firstPubDate: '2024-06-01T00:00:00Z',
+        latestPubDate: '2024-06-08T00:00:00Z',
+        artwork: 'https://example.com/s2.jpg',
+      },
+    ])
+  })
+
+  it('returns an empty list when no episode has a season', () => {
+    expect(summarizeSeasons([makeEpisode({ guid: 'a', pubDate: '2024-01-01T00:00:00Z' })])).toEqual([])
+  })
+})
+
+describe('findStartEpisode', () => {
+  it('skips the trailer and starts at the first full episode of season 1', () => {
+    expect(findStartEpisode(EPISODES, 'serial')?.guid).toBe('s1e1')
+  })
+
+  it('falls back to the oldest episode when there are no seasons', () => {
+    const episodes = [
+      makeEpisode({ guid: 'new', pubDate: '2024-02-01T00:00:00Z' }),
+      makeEpisode({ guid: 'old', pubDate: '2024-01-01T00:00:00Z' }),
+    ]
+    expect(findStartEpisode(episodes, 'serial')?.guid).toBe('old')
+  })
+
+  it('uses a trailer when it is the only episode', () => {
+    const episodes = [makeEpisode({ guid: 'trailer', pubDate: '2024-01-01T00:00:00Z', episodeType: 'trailer' })]
+    expect(findStartEpisode(episodes, 'serial')?.guid).toBe('trailer')
+  })
+
+  it('returns undefined for episodic shows', () => {
+    expect(findStartEpisode(EPISODES, 'episodic')).toBeUndefined()
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { createHmac } from 'node:crypto'
+import { safeEqual, signBody, verifySignature } from '../../../server/utils/signature'
+
+const SECRET = 'shh'
+const BODY = '{"event":"published"}'
+
+describe('signBody', () => {
+  it('returns a hex HMAC of the body', () => {
+    expect(signBody(SECRET, BODY)).toBe(createHmac('sha256', SECRET).update(BODY).digest('hex'))
+    expect(signBody(SECRET, BODY, 'sha1')).toBe(createHmac('sha1', SECRET).update(BODY).digest('hex'))
+  })
+})
+
+describe('verifySignature', () => {
+  it('accepts a matching sha256 or sha1 signature', () => {
+    expect(verifySignature(SECRET, BODY, `sha256=${signBody(SECRET, BODY)}`)).toBe(true)
+    expect(verifySignature(SECRET, BODY, `sha1=${signBody(SECRET, BODY, 'sha1')}`)).toBe(true)
+  })
+
+  it('accepts buffers and uppercase hex', () => {
+    const signature = signBody(SECRET, BODY).toUpperCase()
+    expect(verifySignature(SECRET, Buffer.from(BODY), `SHA256=${signature}`)).toBe(true)
+  })
+
+  it('rejects a signature made with another secret or body', () => {
+    expect(verifySignature(SECRET, BODY, `sha256=${signBody('other', BODY)}`)).toBe(false)
+    expect(verifySignature(SECRET, `${BODY} `, `sha256=${signBody(SECRET, BODY)}`)).toBe(false)
+  })
+
+  it('rejects missing, malformed, and unknown-algorithm headers', () => {
+    expect(verifySignature(SECRET, BODY, undefined)).toBe(false)
+    expect(verifySignature(SECRET, BODY, signBody(SECRET, BODY))).toBe(false)
+    expect(verifySignature(SECRET, BODY, `md5=${createHmac('md5', SECRET).update(BODY).digest('hex')}`)).toBe(false)
+  })
+})
+
+describe('safeEqual', () => {
+  it('compares strings of any length', () => {
+    expect(safeEqual('abc', 'abc')).toBe(true)
+    expect(safeEqual('abc', 'abd')).toBe(false)
+    expect(safeEqual('abc', 'abcd')).toBe(false)
+  })
+})
@@ -1,5 +1,37 @@
-import { describe, expect, it } from 'vitest'
-import { generateSlug } from '../../../server/utils/slug'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  assignUniqueSlugs,
+  clearSlugHistories,
+  findEpisode,
+  generateSlug,
+  recordSlugs,
+} from '../../../server/utils/slug'
+import type { Episode } from '../../../types/podcast'
+
+// Nitro storage for slug histories, round-tripping values through JSON
+const stored = new Map<string, string>()
+vi.stubGlobal('useStorage', () => ({
+  getItem: async (key: string) => (stored.has(key) ? JSON.parse(stored.get(key)!) : null),
+  setItem: async (key: string, value: unknown) => { stored.set(key, JSON.stringify(value)) },
+}))
+
+const FEED_URL = 'https://example.com/feed.xml'
+
+function makeEpisode(guid: string, slug: string, pubDate = '2024-01-01T00:00:00Z'): Episode {
+  return {
+    guid,
+    title: slug,
+    slug,
+    description: '',
+    audioUrl: `https://example.com/${guid}.mp3`,
+    audioType: 'audio/mpeg',
+    audioLength: 0,
+    pubDate,
+    duration: 1800,
+    episodeType: 'full',
+    explicit: false,
+  }
+}
 
 describe('generateSlug', () => {
   describe('basic title conversion', () => {
@@ -176,3 +208,94 @@ describe('generateSlug', () => {
     })
   })
 })
+
+describe('assignUniqueSlugs', () => {
+  it('returns the same episodes when no slugs collide', () => {
+    const episodes = [makeEpisode('a', 'one'), makeEpisode('b', 'two')]
+    expect(assignUniqueSlugs(episodes)).toBe(episodes)
+  })
+
+  it('keeps the slug on the oldest episode and numbers newer ones', () => {
+    // Feeds list newest first
+    const episodes = [
+      makeEpisode('c', 'q-and-a', '2024-03-01T00:00:00Z'),
+      makeEpisode('b', 'q-and-a', '2024-02-01T00:00:00Z'),
+      makeEpisode('a', 'q-and-a', '2024-01-01T00:00:00Z'),
+    ]
+
+    expect(assignUniqueSlugs(episodes).map(ep => ep.slug)).toEqual(['q-and-a-3', 'q-and-a-2', 'q-and-a'])
+  })
+
+  it('keeps existing slugs stable when a same-titled episode is published', () => {
+    const before = [makeEpisode('a', 'trailer', '2024-01-01T00:00:00Z')]
+    const after = [makeEpisode('b', 'trailer', '2024-06-01T00:00:00Z'), ...before]
+
+    expect(assignUniqueSlugs(before)[0]!.slug).toBe('trailer')
+    expect(assignUniqueSlugs(after).map(ep => ep.slug)).toEqual(['trailer-2', 'trailer'])
+  })
+
+  it('skips suffixes another episode already has', () => {
+    const episodes = [
+      makeEpisode('c', 'recap', '2024-03-01T00:00:00Z'),
+      makeEpisode('b', 'recap-2', '2024-02-01T00:00:00Z'),
+      makeEpisode('a', 'recap', '2024-01-01T00:00:00Z'),
+    ]
+
+    expect(assignUniqueSlugs(episodes).map(ep => ep.slug)).toEqual(['recap-3', 'recap-2', 'recap'])
+  })
+
+  it('breaks ties on publication date by feed order, older last', () => {
+    const episodes = [makeEpisode('b', 'same'), makeEpisode('a', 'same')]
+    expect(assignUniqueSlugs(episodes).map(ep => ep.slug)).toEqual(['same-2', 'same'])
+  })
+})
+
+describe('slug history', () => {
+  beforeEach(() => {
+    stored.clear()
+    clearSlugHistories()
+  })
+
+  it('finds an episode by its current slug without a redirect', async () => {
+    const episodes = [makeEpisode('a', 'hello')]
+    await recordSlugs(FEED_URL, episodes)
+
+    expect(await findEpisode(FEED_URL, episodes, 'hello')).toEqual({ episode: episodes[0], redirect: false })
+  })
+
+  it('finds a renamed episode by its old slug', async () => {
+    await recordSlugs(FEED_URL, [makeEpisode('a', 'helo-world')])
+    const renamed = [makeEpisode('a', 'hello-world')]
+    await recordSlugs(FEED_URL, renamed)
+
+    expect(await findEpisode(FEED_URL, renamed, 'helo-world')).toEqual({ episode: renamed[0], redirect: true })
+  })
+
+  it('remembers old slugs across restarts', async () => {
+    await recordSlugs(FEED_URL, [makeEpisode('a', 'draft-title')])
+    clearSlugHistories()
+
+    const renamed = [makeEpisode('a', 'final-title')]
+    const found = await findEpisode(FEED_URL, renamed, 'draft-title')
+
+    expect(found?.episode.slug).toBe('final-title')
+  })
+
+  it('prefers an episode that currently has a slug over the history', async () => {
+    await recordSlugs(FEED_URL, [makeEpisode('a', 'news')])
+    const episodes = [makeEpisode('b', 'news'), makeEpisode('a', 'old-news')]
+    await recordSlugs(FEED_URL, episodes)
+
+    expect((await findEpisode(FEED_URL, episodes, 'news'))?.episode.guid).toBe('b')
+  })
+
+  it('finds an episode by GUID', async () => {
+    const episodes = [makeEpisode('https://example.com/?p=42', 'hello')]
+
+    expect(await findEpisode(FEED_URL, episodes, 'https://example.com/?p=42')).toEqual({ episode: episodes[0], redirect: true })
+  })
+
+  it('returns null for unknown slugs', async () => {
+    expect(await findEpisode(FEED_URL, [makeEpisode('a', 'hello')], 'nope')).toBeNull()
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { settleStandInPayments } from '../../../server/utils/stand-in-wallet'
+
+const NODE = '02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52'
+
+describe('settleStandInPayments', () => {
+  it('pays valid payments with a random preimage', () => {
+    const [keysend, lnaddress] = settleStandInPayments([
+      { method: 'keysend', destination: NODE, amount: 900, customRecords: { 7629169: '{}' } },
+      { method: 'lnaddress', destination: 'host@example.com', amount: 100 },
+    ])
+
+    expect(keysend).toMatchObject({ destination: NODE, amount: 900, ok: true })
+    expect(keysend!.preimage).toMatch(/^[0-9a-f]{64}$/)
+    expect(lnaddress).toMatchObject({ destination: 'host@example.com', amount: 100, ok: true })
+    expect(lnaddress!.preimage).not.toBe(keysend!.preimage)
+  })
+
+  it('rejects payments a wallet would refuse, without stopping the rest', () => {
+    const results = settleStandInPayments([
+      { method: 'keysend', destination: 'not-a-pubkey', amount: 10 },
+      { method: 'keysend', destination: NODE, amount: 1.5 },
+      { method: 'keysend', destination: NODE, amount: 10, customRecords: { 696969: 42 } },
+      { method: 'lnaddress', destination: 'nobody', amount: 10 },
+      { method: 'bolt12', destination: NODE, amount: 10 },
+      null,
+      { method: 'keysend', destination: NODE, amount: 10 },
+    ])
+
+    expect(results.map(result => result.ok)).toEqual([false, false, false, false, false, false, true])
+    expect(results[0]!.error).toBe('Destination is not a node pubkey')
+    expect(results[4]!.error).toBe('Unsupported method "bolt12"')
+  })
+})
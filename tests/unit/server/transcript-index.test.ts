@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PodcastFeed } from '../../../types/podcast'
+import { getTranscriptCues, syncTranscripts } from '../../../server/utils/transcript-index'
+
+function vtt(text: string): string {
+  return `WEBVTT\n\n00:00:01.000 --> 00:00:04.000\n${text}\n`
+}
+
+// Both feeds use the same episode GUID, which the index must keep apart
+function feed(name: string): PodcastFeed {
+  return {
+    podcast: { title: name },
+    episodes: [{
+      guid: 'ep-1',
+      title: `${name} Episode 1`,
+      duration: 60,
+      podcast2: { transcript: { url: `https://example.com/${name}.vtt`, type: 'text/vtt' } },
+    }],
+  } as PodcastFeed
+}
+
+beforeEach(() => {
+  const store = new Map<string, unknown>()
+  vi.stubGlobal('useStorage', () => ({
+    getItem: async (key: string) => store.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => { store.set(key, JSON.parse(JSON.stringify(value))) },
+  }))
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const name = url.split('/').pop()!.replace('.vtt', '')
+    return new Response(vtt(`Hello from ${name}`), { headers: { 'content-type': 'text/vtt' } })
+  }))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('transcript index', () => {
+  it('keeps each feed\'s cues apart', async () => {
+    const alpha = feed('alpha')
+    const beta = feed('beta')
+
+    await syncTranscripts('https://alpha.example.com/feed.xml', alpha)
+    const alphaCues = await getTranscriptCues('https://alpha.example.com/feed.xml', alpha)
+    await syncTranscripts('https://beta.example.com/feed.xml', beta)
+    const betaCues = await getTranscriptCues('https://beta.example.com/feed.xml', beta)
+
+    expect(alphaCues.get('ep-1')?.[0]?.text).toBe('Hello from alpha')
+    expect(betaCues.get('ep-1')?.[0]?.text).toBe('Hello from beta')
+    // Syncing one feed doesn't replace the other's cues, so its search index stays cached
+    expect(await getTranscriptCues('https://alpha.example.com/feed.xml', alpha)).toBe(alphaCues)
+  })
+
+  it('syncs each feed in the background on its own', async () => {
+    const gamma = feed('gamma')
+    const delta = feed('delta')
+
+    // Stored transcripts only on the first call; missing ones are fetched after
+    await getTranscriptCues('https://gamma.example.com/feed.xml', gamma)
+    await getTranscriptCues('https://delta.example.com/feed.xml', delta)
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+    await vi.waitFor(async () => {
+      const cues = await getTranscriptCues('https://delta.example.com/feed.xml', delta)
+      expect(cues.get('ep-1')?.[0]?.text).toBe('Hello from delta')
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// Nitro auto-imports: an in-memory storage that round-trips values through
+// JSON like a real driver, the refresh secret, and one configured feed
+const stored = new Map<string, string>()
+vi.stubGlobal('useStorage', () => ({
+  getItem: async (key: string) => (stored.has(key) ? JSON.parse(stored.get(key)!) : null),
+  setItem: async (key: string, value: unknown) => { stored.set(key, JSON.stringify(value)) },
+  removeItem: async (key: string) => { stored.delete(key) },
+  getKeys: async (base: string) => [...stored.keys()].filter(key => key.startsWith(base)),
+}))
+vi.stubGlobal('useRuntimeConfig', () => ({ podcast: { refreshSecret: 'refresh-secret' } }))
+vi.stubGlobal('useAppConfig', () => ({ podcast: { feedUrl: 'https://example.com/feed.xml' } }))
+vi.stubGlobal('fetch', vi.fn())
+
+vi.mock('../../../server/utils/feed-cache', () => ({
+  getCachedPodcastFeed: async () => ({
+    podcast: { websub: { hub: 'https://hub.example.com/', topic: 'https://example.com/feed' } },
+    episodes: [],
+  }),
+}))
+
+import { callbackToken, callbackUrl, clearSubscriptions, handleDenial, startWebSub, subscribe, subscriptionSecret, verifyContent, verifyIntent } from '../../../server/utils/websub'
+import { signBody } from '../../../server/utils/signature'
+
+const FEED_URL = 'https://example.com/feed.xml'
+const SUBSCRIPTION = {
+  hub: 'https://hub.example.com/',
+  topic: 'https://example.com/feed',
+  callback: 'https://site.example.com/api/podcast/websub',
+}
+const TOKEN = callbackToken(SUBSCRIPTION.topic)
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] })
+  vi.setSystemTime(0)
+  vi.mocked(fetch).mockReset()
+  vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 202 }))
+})
+
+afterEach(async () => {
+  await clearSubscriptions()
+  vi.useRealTimers()
+})
+
+describe('subscriptionSecret', () => {
+  it('derives the same secret on every instance, one per topic', () => {
+    const secret = subscriptionSecret(SUBSCRIPTION.topic)
+
+    expect(secret).toMatch(/^[0-9a-f]{64}$/)
+    expect(subscriptionSecret(SUBSCRIPTION.topic)).toBe(secret)
+    expect(subscriptionSecret('https://example.com/other')).not.toBe(secret)
+  })
+})
+
+describe('callbackUrl', () => {
+  it('carries the callback token, and the show id in network mode', () => {
+    const token = callbackToken(SUBSCRIPTION.topic)
+
+    expect(callbackUrl('https://site.example.com/', SUBSCRIPTION.topic)).toBe(`https://site.example.com/api/podcast/websub?token=${token}`)
+    expect(callbackUrl('https://site.example.com', SUBSCRIPTION.topic, 'my show')).toBe(`https://site.example.com/api/podcast/websub?show=my+show&token=${token}`)
+  })
+})
+
+describe('subscribe', () => {
+  it('posts a subscription request to the hub', async () => {
+    await subscribe(FEED_URL, SUBSCRIPTION)
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0]!
+    expect(url).toBe(SUBSCRIPTION.hub)
+    const form = init!.body as URLSearchParams
+    expect(form.get('hub.mode')).toBe('subscribe')
+    expect(form.get('hub.topic')).toBe(SUBSCRIPTION.topic)
+    expect(form.get('hub.callback')).toBe(SUBSCRIPTION.callback)
+    expect(form.get('hub.secret')).toBe(subscriptionSecret(SUBSCRIPTION.topic))
+  })
+
+  it('throws when the hub rejects the request', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(null, { status: 400, statusText: 'Bad Request' }))
+
+    await expect(subscribe(FEED_URL, SUBSCRIPTION)).rejects.toThrow(/Hub rejected subscription: 400/)
+  })
+})
+
+describe('verifyIntent', () => {
+  it('echoes the challenge for a subscription we requested', async () => {
+    await subscribe(FEED_URL, SUBSCRIPTION)
+
+    const challenge = await verifyIntent(FEED_URL, {
+      'hub.mode': 'subscribe',
+      'hub.topic': SUBSCRIPTION.topic,
+      'hub.challenge': 'abc123',
+      'hub.lease_seconds': '86400',
+      token: TOKEN,
+    })
+
+    expect(challenge).toBe('abc123')
+  })
+
+  it('rejects unknown topics, feeds, and modes', async () => {
+    await subscribe(FEED_URL, SUBSCRIPTION)
+    const query = { 'hub.mode': 'subscribe', 'hub.topic': SUBSCRIPTION.topic, 'hub.challenge': 'abc123', token: TOKEN }
+
+    expect(await verifyIntent(FEED_URL, { ...query, 'hub.topic': 'https://evil.example.com/' })).toBeNull()
+    expect(await verifyIntent('https://example.com/other.xml', query)).toBeNull()
+    expect(await verifyIntent(FEED_URL, { ...query, 'hub.mode': 'unsubscribe' })).toBeNull()
+    expect(await verifyIntent(FEED_URL, { ...query, token: 'guessed' })).toBeNull()
+  })
+
+  it('renews the subscription before the lease ends', async () => {
+    await subscribe(FEED_URL, SUBSCRIPTION)
+    await verifyIntent(FEED_URL, {
+      'hub.mode': 'subscribe',
+      'hub.topic': SUBSCRIPTION.topic,
+      'hub.challenge': 'abc123',
+      'hub.lease_seconds': '86400',
+      token: TOKEN,
+    })
+
+    await vi.advanceTimersByTimeAsync(23 * 60 * 60 * 1000 - 1)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('handleDenial', () => {
+  const body = '<rss></rss>'
+  const signature = () => `sha1=${signBody(subscriptionSecret(SUBSCRIPTION.topic), body, 'sha1')}`
+  const denial = { 'hub.mode': 'denied', 'hub.topic': SUBSCRIPTION.topic, 'hub.reason': 'no' }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await subscribe(FEED_URL, SUBSCRIPTION)
+    await verifyIntent(FEED_URL, { 'hub.mode': 'subscribe', 'hub.topic': SUBSCRIPTION.topic, 'hub.challenge': 'x', token: TOKEN })
+  })
+
+  it('ignores denials without the callback token', async () => {
+    await handleDenial(FEED_URL, denial)
+    await handleDenial(FEED_URL, { ...denial, token: 'guessed' })
+
+    expect(await verifyContent(FEED_URL, body, signature())).toBe(true)
+  })
+
+  it('stops accepting pushes when the hub denies the subscription', async () => {
+    await handleDenial(FEED_URL, { ...denial, token: TOKEN })
+
+    expect(await verifyContent(FEED_URL, body, signature())).toBe(false)
+  })
+})
+
+describe('verifyContent', () => {
+  const body = '<rss></rss>'
+
+  it('accepts pushes signed with the secret once verified', async () => {
+    await subscribe(FEED_URL, SUBSCRIPTION)
+    const signature = `sha1=${signBody(subscriptionSecret(SUBSCRIPTION.topic), body, 'sha1')}`
+
+    expect(await verifyContent(FEED_URL, body, signature)).toBe(false)
+
+    await verifyIntent(FEED_URL, { 'hub.mode': 'subscribe', 'hub.topic': SUBSCRIPTION.topic, 'hub.challenge': 'x', token: TOKEN })
+    expect(await verifyContent(FEED_URL, body, signature)).toBe(true)
+    expect(await verifyContent(FEED_URL, body, `sha1=${signBody('wrong', body, 'sha1')}`)).toBe(false)
+    expect(await verifyContent(FEED_URL, body, undefined)).toBe(false)
+  })
+})
+
+describe('startWebSub', () => {
+  const SITE_URL = 'https://site.example.com'
+
+  it('subscribes a feed that announces a hub', async () => {
+    await startWebSub(SITE_URL)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect((vi.mocked(fetch).mock.calls[0]![1]!.body as URLSearchParams).get('hub.callback')).toBe(callbackUrl(SITE_URL, SUBSCRIPTION.topic))
+  })
+
+  it('does not subscribe again when another instance holds a verified lease', async () => {
+    await startWebSub(SITE_URL)
+    await verifyIntent(FEED_URL, {
+      'hub.mode': 'subscribe',
+      'hub.topic': SUBSCRIPTION.topic,
+      'hub.challenge': 'abc123',
+      'hub.lease_seconds': '86400',
+      token: TOKEN,
+    })
+
+    // A fresh instance: no timers, but the same storage
+    await startWebSub(SITE_URL)
+    expect(fetch).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(23 * 60 * 60 * 1000)
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { buildEmbedCode, buildEmbedUrl, fitEmbedSize } from '../../../app/utils/embed'
+
+describe('buildEmbedUrl', () => {
+  it('joins the origin and embed path', () => {
+    expect(buildEmbedUrl('https://example.com', '/embed/hello')).toBe('https://example.com/embed/hello')
+  })
+
+  it('adds theme and start time parameters', () => {
+    expect(buildEmbedUrl('https://example.com', '/embed/hello', { theme: 'dark', start: 90.7 }))
+      .toBe('https://example.com/embed/hello?theme=dark&t=90')
+  })
+
+  it('omits the auto theme and a zero start time', () => {
+    expect(buildEmbedUrl('https://example.com', '/shows/daily/embed/hello', { theme: 'auto', start: 0 }))
+      .toBe('https://example.com/shows/daily/embed/hello')
+  })
+})
+
+describe('buildEmbedCode', () => {
+  it('builds an iframe with the given size', () => {
+    const code = buildEmbedCode('https://example.com/embed/hello', 'Hello', { width: '100%', height: 180 })
+    expect(code).toMatch(/^<iframe /)
+    expect(code).toContain('src="https://example.com/embed/hello"')
+    expect(code).toContain('width="100%"')
+    expect(code).toContain('height="180"')
+    expect(code).toContain('loading="lazy"')
+  })
+
+  it('accepts a numeric width', () => {
+    expect(buildEmbedCode('https://example.com/embed/hello', 'Hello', { width: 600, height: 180 }))
+      .toContain('width="600"')
+  })
+
+  it('escapes attribute values', () => {
+    const code = buildEmbedCode('https://example.com/embed/a?theme=dark&t=5', 'Tom & "Jerry" <live>', { width: 600, height: 180 })
+    expect(code).toContain('src="https://example.com/embed/a?theme=dark&amp;t=5"')
+    expect(code).toContain('title="Tom &amp; &quot;Jerry&quot; &lt;live&gt;"')
+  })
+})
+
+describe('fitEmbedSize', () => {
+  it('uses the default size without limits', () => {
+    expect(fitEmbedSize()).toEqual({ width: 600, height: 180 })
+  })
+
+  it('shrinks to the maximum, never beyond it', () => {
+    expect(fitEmbedSize(400.5, 150)).toEqual({ width: 400, height: 150 })
+    expect(fitEmbedSize(1000, 1000)).toEqual({ width: 600, height: 180 })
+  })
+
+  it('gives up when the maximum is below the smallest player', () => {
+    expect(fitEmbedSize(200)).toBeNull()
+    expect(fitEmbedSize(600, 100)).toBeNull()
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { formatDate, formatDuration, formatDurationFriendly, parseDuration } from '../../../app/utils/format'
+import { formatBytes, formatCountdown, formatDate, formatDuration, formatDurationFriendly, parseDuration } from '../../../app/utils/format'
 
 describe('formatDate', () => {
   it('formats an ISO date string', () => {
@@ -240,3 +240,39 @@ describe('parseDuration', () => {
     }
   })
 })
+
+describe('formatBytes', () => {
+  it('shows bytes below 1 KB', () => {
+    expect(formatBytes(0)).toBe('0 B')
+    expect(formatBytes(512)).toBe('512 B')
+  })
+
+  it('keeps one decimal for small values', () => {
+    expect(formatBytes(1536)).toBe('1.5 KB')
+    expect(formatBytes(4.2 * 1024 * 1024)).toBe('4.2 MB')
+  })
+
+  it('rounds values of 10 or more', () => {
+    expect(formatBytes(48.4 * 1024 * 1024)).toBe('48 MB')
+  })
+
+  it('caps the unit at GB', () => {
+    expect(formatBytes(2048 * 1024 ** 3)).toBe('2048 GB')
+  })
+})
+
+describe('formatCountdown', () => {
+  it('shows the two largest units', () => {
+    expect(formatCountdown(2 * 86400 + 3 * 3600 + 59)).toBe('2d 3h')
+    expect(formatCountdown(3 * 3600 + 20 * 60 + 5)).toBe('3h 20m')
+    expect(formatCountdown(12 * 60 + 5)).toBe('12m 5s')
+  })
+
+  it('shows seconds alone under a minute', () => {
+    expect(formatCountdown(45.7)).toBe('45s')
+  })
+
+  it('stops at zero', () => {
+    expect(formatCountdown(-30)).toBe('0s')
+  })
+})
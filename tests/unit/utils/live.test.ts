@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { isOverdue, liveEpisode } from '../../../app/utils/live'
+import type { LiveItem } from '../../../types/podcast'
+
+const ITEM: LiveItem = {
+  guid: 'live-1',
+  title: 'Launch Party',
+  description: 'Come hang out',
+  status: 'pending',
+  start: '2024-04-01T18:00:00.000Z',
+  streamUrl: 'https://example.com/live.m3u8',
+  streamType: 'application/x-mpegURL',
+  artwork: 'https://example.com/live.jpg',
+}
+
+describe('liveEpisode', () => {
+  it('plays the stream under the live item GUID', () => {
+    expect(liveEpisode(ITEM, 'show-a')).toMatchObject({
+      guid: 'live-1',
+      title: 'Launch Party',
+      audioUrl: 'https://example.com/live.m3u8',
+      audioType: 'application/x-mpegURL',
+      artwork: 'https://example.com/live.jpg',
+      duration: 0,
+      showId: 'show-a',
+      live: true,
+    })
+  })
+})
+
+describe('isOverdue', () => {
+  const start = new Date(ITEM.start).getTime()
+
+  it('is overdue once a pending stream is past its start', () => {
+    expect(isOverdue(ITEM, start - 1000)).toBe(false)
+    expect(isOverdue(ITEM, start + 1000)).toBe(true)
+  })
+
+  it('is never overdue once live', () => {
+    expect(isOverdue({ ...ITEM, status: 'live' }, start + 1000)).toBe(false)
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { alternateLabel, episodeSources, estimateBitrate, isHlsType, isSlowConnection, isVideoType, pickSource } from '../../../app/utils/media-sources'
+import type { AlternateEnclosure } from '../../../types/podcast'
+
+const ALTERNATES: AlternateEnclosure[] = [
+  { type: 'audio/opus', url: 'https://example.com/ep.opus', bitrate: 24000, codecs: 'opus' },
+  { type: 'audio/mp4', url: 'https://example.com/ep.m4a', bitrate: 64000, title: 'Low bandwidth' },
+  { type: 'video/mp4', url: 'https://example.com/ep.mp4', height: 1080 },
+  { type: 'application/x-mpegURL', url: 'https://example.com/ep.m3u8' },
+]
+
+const EPISODE = { audioUrl: 'https://example.com/ep.mp3', audioType: 'audio/mpeg', alternateEnclosures: ALTERNATES }
+
+describe('alternateLabel', () => {
+  it('uses the title when there is one', () => {
+    expect(alternateLabel(ALTERNATES[1]!)).toBe('Low bandwidth')
+  })
+
+  it('describes the format and bitrate otherwise', () => {
+    expect(alternateLabel(ALTERNATES[0]!)).toBe('Opus · 24 kbps')
+    expect(alternateLabel({ type: 'audio/x-unknown', url: 'https://example.com/ep' })).toBe('X-UNKNOWN')
+  })
+
+  it('describes video by frame height, and HLS as a stream', () => {
+    expect(alternateLabel(ALTERNATES[2]!)).toBe('Video · 1080p')
+    expect(alternateLabel({ type: 'video/webm', url: 'https://example.com/ep.webm' })).toBe('Video')
+    expect(alternateLabel(ALTERNATES[3]!)).toBe('Stream')
+  })
+})
+
+describe('isVideoType', () => {
+  it('is true for video files and HLS playlists', () => {
+    expect(isVideoType('video/mp4')).toBe(true)
+    expect(isVideoType('application/x-mpegURL')).toBe(true)
+    expect(isVideoType('application/vnd.apple.mpegurl')).toBe(true)
+  })
+
+  it('is false for audio and unknown types', () => {
+    expect(isVideoType('audio/mpeg')).toBe(false)
+    expect(isVideoType(undefined)).toBe(false)
+  })
+})
+
+describe('isHlsType', () => {
+  it('matches HLS playlist types in any case', () => {
+    expect(isHlsType('application/x-mpegURL')).toBe(true)
+    expect(isHlsType('audio/mpegurl')).toBe(true)
+    expect(isHlsType('video/mp4')).toBe(false)
+    expect(isHlsType(undefined)).toBe(false)
+  })
+})
+
+describe('episodeSources', () => {
+  it('lists the enclosure first, then the alternates', () => {
+    const sources = episodeSources(EPISODE)
+
+    expect(sources.map(source => source.url)).toEqual([
+      'https://example.com/ep.mp3',
+      'https://example.com/ep.opus',
+      'https://example.com/ep.m4a',
+      'https://example.com/ep.mp4',
+      'https://example.com/ep.m3u8',
+    ])
+    expect(sources[0]).toMatchObject({ label: 'Standard', original: true, video: false })
+    expect(sources[1]).toMatchObject({ format: 'opus', bitrate: 24000, video: false })
+    expect(sources[3]).toMatchObject({ label: 'Video · 1080p', video: true })
+    expect(sources[4]).toMatchObject({ label: 'Stream', video: true })
+  })
+
+  it('marks a video enclosure', () => {
+    const sources = episodeSources({ audioUrl: 'https://example.com/ep.mp4', audioType: 'video/mp4' })
+
+    expect(sources[0]).toMatchObject({ original: true, video: true })
+  })
+
+  it('leaves out alternates the browser cannot play', () => {
+    const sources = episodeSources(EPISODE, (type, codecs) => codecs !== 'opus' && !type.includes('mpegurl'))
+
+    expect(sources.map(source => source.label)).toEqual(['Standard', 'Low bandwidth', 'Video · 1080p'])
+  })
+
+  it('leaves out alternates that are neither audio nor video', () => {
+    const sources = episodeSources({
+      audioUrl: 'https://example.com/ep.mp3',
+      alternateEnclosures: [{ type: 'text/html', url: 'https://example.com/ep.html' }],
+    })
+
+    expect(sources).toHaveLength(1)
+  })
+
+  it('skips alternates that repeat the enclosure', () => {
+    const sources = episodeSources({
+      audioUrl: 'https://example.com/ep.mp3',
+      alternateEnclosures: [{ type: 'audio/mpeg', url: 'https://example.com/ep.mp3', default: true }],
+    })
+
+    expect(sources).toHaveLength(1)
+  })
+})
+
+describe('isSlowConnection', () => {
+  it('is slow with Data Saver or on 2G', () => {
+    expect(isSlowConnection({ saveData: true, effectiveType: '4g' })).toBe(true)
+    expect(isSlowConnection({ effectiveType: '2g' })).toBe(true)
+    expect(isSlowConnection({ effectiveType: 'slow-2g' })).toBe(true)
+  })
+
+  it('is not slow on 3G and better, or without connection info', () => {
+    expect(isSlowConnection({ effectiveType: '3g' })).toBe(false)
+    expect(isSlowConnection({ effectiveType: '4g' })).toBe(false)
+    expect(isSlowConnection(undefined)).toBe(false)
+  })
+})
+
+describe('pickSource', () => {
+  const sources = episodeSources(EPISODE)
+
+  it('plays the enclosure on a normal connection', () => {
+    expect(pickSource(sources, false)?.url).toBe('https://example.com/ep.mp3')
+  })
+
+  it('plays the lowest bitrate on a slow connection', () => {
+    expect(pickSource(sources, true)?.url).toBe('https://example.com/ep.opus')
+  })
+
+  it('falls back to the enclosure when no bitrates are known', () => {
+    expect(pickSource(episodeSources({ audioUrl: 'https://example.com/ep.mp3' }), true)?.url).toBe('https://example.com/ep.mp3')
+  })
+
+  it('never switches a slow connection to video', () => {
+    const video = episodeSources({
+      audioUrl: 'https://example.com/ep.mp3',
+      alternateEnclosures: [{ type: 'video/mp4', url: 'https://example.com/ep.mp4', bitrate: 2500000 }],
+    })
+
+    expect(pickSource(video, true)?.url).toBe('https://example.com/ep.mp3')
+  })
+
+  it('keeps an enclosure whose estimated bitrate is already the lowest', () => {
+    // 14.4 MB over an hour: 32 kbps, below the 64 kbps alternate
+    const small = episodeSources({
+      audioUrl: 'https://example.com/ep.mp3',
+      audioLength: 14_400_000,
+      duration: 3600,
+      alternateEnclosures: [{ type: 'audio/mp4', url: 'https://example.com/ep.m4a', bitrate: 64000 }],
+    })
+
+    expect(pickSource(small, true)?.url).toBe('https://example.com/ep.mp3')
+  })
+})
+
+describe('estimateBitrate', () => {
+  it('divides the size in bits by the duration', () => {
+    expect(estimateBitrate(57_600_000, 3600)).toBe(128000)
+  })
+
+  it('is unknown without a size or duration', () => {
+    expect(estimateBitrate(0, 3600)).toBeUndefined()
+    expect(estimateBitrate(57_600_000, 0)).toBeUndefined()
+    expect(estimateBitrate(undefined, undefined)).toBeUndefined()
+  })
+})
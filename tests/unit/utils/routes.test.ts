@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { episodeOgImagePath, episodePath, parseEpisodePath, showPath } from '../../../app/utils/routes'
+
+describe('showPath', () => {
+  it('returns the path unchanged without a show id', () => {
+    expect(showPath(undefined, '/people')).toBe('/people')
+    expect(showPath(undefined)).toBe('/')
+  })
+
+  it('prefixes the path with the show route', () => {
+    expect(showPath('daily', '/people')).toBe('/shows/daily/people')
+    expect(showPath('daily', '/page/2')).toBe('/shows/daily/page/2')
+  })
+
+  it('maps the root path to the show home page', () => {
+    expect(showPath('daily', '/')).toBe('/shows/daily')
+    expect(showPath('daily')).toBe('/shows/daily')
+  })
+})
+
+describe('episodePath', () => {
+  it('links to the top-level episode page on single-show sites', () => {
+    expect(episodePath({ slug: 'hello-world' })).toBe('/episodes/hello-world')
+  })
+
+  it('links under the episode\'s show in network mode', () => {
+    expect(episodePath({ slug: 'hello-world', showId: 'daily' })).toBe('/shows/daily/episodes/hello-world')
+  })
+})
+
+describe('episodeOgImagePath', () => {
+  it('points at the episode\'s PNG card', () => {
+    expect(episodeOgImagePath({ slug: 'hello-world' })).toBe('/og/episodes/hello-world.png')
+    expect(episodeOgImagePath({ slug: 'hello-world', showId: 'daily' })).toBe('/shows/daily/og/episodes/hello-world.png')
+  })
+})
+
+describe('parseEpisodePath', () => {
+  it('parses top-level episode and embed paths', () => {
+    expect(parseEpisodePath('/episodes/hello-world')).toEqual({ slug: 'hello-world', showId: undefined })
+    expect(parseEpisodePath('/embed/hello-world/')).toEqual({ slug: 'hello-world', showId: undefined })
+  })
+
+  it('parses per-show paths in network mode', () => {
+    expect(parseEpisodePath('/shows/daily/episodes/hello-world')).toEqual({ slug: 'hello-world', showId: 'daily' })
+  })
+
+  it('decodes encoded slugs', () => {
+    expect(parseEpisodePath('/episodes/caf%C3%A9')).toEqual({ slug: 'café', showId: undefined })
+  })
+
+  it('rejects other paths', () => {
+    expect(parseEpisodePath('/people/jane')).toBeNull()
+    expect(parseEpisodePath('/episodes')).toBeNull()
+    expect(parseEpisodePath('/episodes/%E0%A4%A')).toBeNull()
+  })
+})
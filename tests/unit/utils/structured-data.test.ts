@@ -6,6 +6,7 @@ import {
   generateEpisodeOGTags,
   generatePodcastTwitterTags,
   generateEpisodeTwitterTags,
+  ogCardShowsTitle,
 } from '../../../app/utils/structured-data'
 import type { Podcast, Episode } from '../../../types/podcast'
 
@@ -296,6 +297,30 @@ describe('generateEpisodeOGTags', () => {
     const tags = generateEpisodeOGTags(mockEpisode, mockPodcast, '')
     expect(tags).not.toHaveProperty('og:url')
   })
+
+  it('uses the generated card image with its dimensions when imageUrl is provided', () => {
+    const tags = generateEpisodeOGTags(mockEpisode, mockPodcast, undefined, 'https://example.com/og/episodes/ep-1.png')
+    expect(tags['og:image']).toBe('https://example.com/og/episodes/ep-1.png')
+    expect(tags['og:image:width']).toBe('1200')
+    expect(tags['og:image:height']).toBe('630')
+  })
+
+  it('omits image dimensions when falling back to artwork', () => {
+    const tags = generateEpisodeOGTags(mockEpisode, mockPodcast)
+    expect(tags).not.toHaveProperty('og:image:width')
+  })
+})
+
+describe('ogCardShowsTitle', () => {
+  it('accepts Latin titles, accents and emoji included', () => {
+    expect(ogCardShowsTitle('Episode 12: Café crème 🎉')).toBe(true)
+  })
+
+  it('rejects titles mostly in scripts the card font lacks', () => {
+    expect(ogCardShowsTitle('ポッドキャストの第12回')).toBe(false)
+    expect(ogCardShowsTitle('Выпуск 12: о подкастах')).toBe(false)
+    expect(ogCardShowsTitle('🎙️🎉')).toBe(false)
+  })
 })
 
 describe('generatePodcastTwitterTags', () => {
@@ -341,4 +366,9 @@ describe('generateEpisodeTwitterTags', () => {
     const tags = generateEpisodeTwitterTags(mockEpisodeMinimal, mockPodcast)
     expect(tags['twitter:image']).toBe('https://example.com/artwork.jpg')
   })
+
+  it('uses the generated card image when imageUrl is provided', () => {
+    const tags = generateEpisodeTwitterTags(mockEpisode, mockPodcast, 'https://example.com/og/episodes/ep-1.png')
+    expect(tags['twitter:image']).toBe('https://example.com/og/episodes/ep-1.png')
+  })
 })
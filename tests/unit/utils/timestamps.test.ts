@@ -3,7 +3,9 @@ import {
   parseTimestamp,
   linkifyTimestamps,
   extractTimestamps,
+  extractChapters,
   formatTimestamp,
+  buildClipUrl,
 } from '../../../app/utils/timestamps'
 
 describe('parseTimestamp', () => {
@@ -189,6 +191,59 @@ describe('extractTimestamps', () => {
   })
 })
 
+describe('extractChapters', () => {
+  it('pairs each timestamp with the text that follows it', () => {
+    const html = '<ul><li>00:00 Intro</li><li>05:30 - Listener questions</li><li>1:02:10 — Sick picks</li></ul>'
+    expect(extractChapters(html)).toEqual([
+      { startTime: 0, endTime: 330, title: 'Intro' },
+      { startTime: 330, endTime: 3730, title: 'Listener questions' },
+      { startTime: 3730, title: 'Sick picks' },
+    ])
+  })
+
+  it('handles pre-linked Syntax-style timestamp anchors', () => {
+    const html = '<p><a href="#t=00:00">00:00</a> Welcome</p><p><a href="#t=12:30">12:30</a> CSS nesting</p>'
+    const chapters = extractChapters(html)
+    expect(chapters.map(c => c.title)).toEqual(['Welcome', 'CSS nesting'])
+    expect(chapters[1]?.startTime).toBe(750)
+  })
+
+  it('splits lines on <br> tags', () => {
+    const html = '<p>00:00 Hello<br>10:00 Goodbye</p>'
+    expect(extractChapters(html).map(c => c.title)).toEqual(['Hello', 'Goodbye'])
+  })
+
+  it('uses text before the timestamp when nothing follows it', () => {
+    const html = '<p>Intro 00:00</p><p>Interview 15:00</p>'
+    expect(extractChapters(html).map(c => c.title)).toEqual(['Intro', 'Interview'])
+  })
+
+  it('strips bracket wrappers around timestamps', () => {
+    const html = '<p>[00:00] Start</p><p>(03:15) Middle</p>'
+    expect(extractChapters(html).map(c => c.title)).toEqual(['Start', 'Middle'])
+  })
+
+  it('decodes common HTML entities in titles', () => {
+    const html = '<p>00:00 Q&amp;A</p><p>05:00 Tom&#39;s pick</p>'
+    expect(extractChapters(html).map(c => c.title)).toEqual(['Q&A', "Tom's pick"])
+  })
+
+  it('falls back to the timestamp when no label text exists', () => {
+    const html = '<p>00:00</p><p>05:00 Topic</p>'
+    expect(extractChapters(html)[0]?.title).toBe('00:00')
+  })
+
+  it('returns an empty array for fewer than two timestamps', () => {
+    expect(extractChapters('<p>Skip to 12:30 for the good part</p>')).toEqual([])
+    expect(extractChapters('')).toEqual([])
+  })
+
+  it('sorts chapters by time', () => {
+    const html = '<p>20:00 Later</p><p>00:00 Earlier</p>'
+    expect(extractChapters(html).map(c => c.title)).toEqual(['Earlier', 'Later'])
+  })
+})
+
 describe('formatTimestamp', () => {
   it('formats seconds under a minute as MM:SS', () => {
     expect(formatTimestamp(0)).toBe('0:00')
@@ -231,3 +286,22 @@ describe('formatTimestamp', () => {
     expect(formatTimestamp(3605)).toBe('1:00:05')
   })
 })
+
+describe('buildClipUrl', () => {
+  const url = 'https://example.com/episodes/ep-1'
+
+  it('adds the range in whole seconds', () => {
+    expect(buildClipUrl(url, 73.6, 133.2)).toBe('https://example.com/episodes/ep-1?t=73&end=133')
+  })
+
+  it('keeps an existing query', () => {
+    expect(buildClipUrl(`${url}?show=alpha`, 0, 30)).toBe('https://example.com/episodes/ep-1?show=alpha&t=0&end=30')
+  })
+
+  it('rejects empty, reversed and invalid ranges', () => {
+    expect(buildClipUrl(url, 60, 60)).toBeNull()
+    expect(buildClipUrl(url, 90, 60)).toBeNull()
+    expect(buildClipUrl(url, -5, 60)).toBeNull()
+    expect(buildClipUrl(url, Number.NaN, 60)).toBeNull()
+  })
+})
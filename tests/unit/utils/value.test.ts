@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BOOSTAGRAM_RECORD,
+  activeTimeSplit,
+  boostPayments,
+  canBoost,
+  episodeValue,
+  lnurlpUrl,
+  splitPayment,
+  valueShares,
+} from '../../../app/utils/value'
+import type { ValueBlock, ValueRecipient } from '../../../types/podcast'
+
+const HOST_NODE = '02d5c1bf8b940dc9cadca86d1b0a3c37fbe39cee4c7e839e33bef9174531d27f52'
+const APP_NODE = '03ae9f91a0cb8ff43840e3c322c4c61f019d8c1c3cea15a25cfc425ac605e61a4a'
+const BAND_NODE = '03b9a9b6c9f4b1e9f3a2c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f809a1b2'
+
+const HOST: ValueRecipient = {
+  name: 'Host',
+  type: 'node',
+  address: HOST_NODE,
+  split: 90,
+  customKey: '696969',
+  customValue: 'eChoVKtO1KujpAA5HCoB',
+}
+const PRODUCER: ValueRecipient = { name: 'Producer', type: 'lnaddress', address: 'Producer@Example.com', split: 10 }
+const APP_FEE: ValueRecipient = { name: 'App', type: 'node', address: APP_NODE, split: 2, fee: true }
+
+const VALUE: ValueBlock = {
+  type: 'lightning',
+  method: 'keysend',
+  recipients: [HOST, PRODUCER, APP_FEE],
+  timeSplits: [
+    {
+      startTime: 600,
+      duration: 120,
+      remotePercentage: 95,
+      recipients: [{ name: 'Band', type: 'node', address: BAND_NODE, split: 1 }],
+    },
+    {
+      startTime: 60,
+      duration: 60,
+      remotePercentage: 100,
+      remoteItem: { feedGuid: '917393e3-1b1e-5cef-ace4-edaa54e1f810', itemGuid: 'song-1' },
+    },
+  ],
+}
+
+const PODCAST = {
+  title: 'Value Show',
+  feedUrl: 'https://example.com/feed.xml',
+  podcast2: { guid: 'show-guid', value: VALUE },
+}
+
+describe('valueShares', () => {
+  it('takes fees off the top and divides the rest by split', () => {
+    const percents = valueShares(VALUE.recipients).map(share => share.percent)
+
+    expect(percents[0]).toBeCloseTo(88.2)
+    expect(percents[1]).toBeCloseTo(9.8)
+    expect(percents[2]).toBe(2)
+  })
+
+  it('treats splits as shares, not percentages', () => {
+    const shares = valueShares([
+      { type: 'node', address: HOST_NODE, split: 3 },
+      { type: 'node', address: APP_NODE, split: 1 },
+    ])
+
+    expect(shares.map(share => share.percent)).toEqual([75, 25])
+  })
+})
+
+describe('episodeValue', () => {
+  it("prefers the episode's block over the show's", () => {
+    const episodeBlock: ValueBlock = { ...VALUE, recipients: [HOST] }
+
+    expect(episodeValue({ podcast2: { value: episodeBlock } }, PODCAST)).toBe(episodeBlock)
+    expect(episodeValue({}, PODCAST)).toBe(VALUE)
+    expect(episodeValue(null, null)).toBeUndefined()
+  })
+})
+
+describe('canBoost', () => {
+  it('needs a lightning block with a payable recipient', () => {
+    expect(canBoost(VALUE)).toBe(true)
+    expect(canBoost({ ...VALUE, type: 'hive' })).toBe(false)
+    expect(canBoost({ ...VALUE, recipients: [{ type: 'lnaddress', address: 'not an address', split: 1 }] })).toBe(false)
+    expect(canBoost(undefined)).toBe(false)
+  })
+})
+
+describe('activeTimeSplit', () => {
+  it('finds the split covering a position', () => {
+    expect(activeTimeSplit(VALUE, 650)?.startTime).toBe(600)
+    expect(activeTimeSplit(VALUE, 720)).toBeUndefined()
+    expect(activeTimeSplit(VALUE, 30)).toBeUndefined()
+  })
+})
+
+describe('splitPayment', () => {
+  it('splits into whole sats and drops cuts that round to nothing', () => {
+    expect(splitPayment(VALUE, 1000).map(amount => amount.sats)).toEqual([882, 98, 20])
+    expect(splitPayment(VALUE, 10).map(amount => amount.recipient.name)).toEqual(['Host'])
+  })
+
+  it('pays a time split its remote percentage', () => {
+    const amounts = splitPayment(VALUE, 1000, 650)
+
+    expect(amounts.map(amount => [amount.recipient.name, amount.sats])).toEqual([
+      ['Host', 44],
+      ['Producer', 4],
+      ['App', 1],
+      ['Band', 950],
+    ])
+  })
+
+  it("keeps a remote item's cut with the block's recipients", () => {
+    expect(splitPayment(VALUE, 1000, 90)).toEqual(splitPayment(VALUE, 1000))
+  })
+})
+
+describe('lnurlpUrl', () => {
+  it('resolves a Lightning address to its LNURL-pay endpoint', () => {
+    expect(lnurlpUrl('Producer@Example.com')).toBe('https://example.com/.well-known/lnurlp/producer')
+    expect(lnurlpUrl('no-domain@')).toBeUndefined()
+    expect(lnurlpUrl(HOST_NODE)).toBeUndefined()
+  })
+})
+
+describe('boostPayments', () => {
+  const boost = { sats: 1000, senderName: 'Sam', message: 'Great show!', timestamp: 42.7, appName: 'Value Site' }
+  const episode = { title: 'Episode 1', guid: 'ep-1' }
+
+  it('sends node recipients a keysend with the boostagram and their custom record', () => {
+    const [host] = boostPayments(VALUE, boost, PODCAST, episode)
+
+    expect(host).toMatchObject({ name: 'Host', method: 'keysend', destination: HOST_NODE, amount: 882 })
+    expect(host!.customRecords!['696969']).toBe('eChoVKtO1KujpAA5HCoB')
+    expect(JSON.parse(host!.customRecords![BOOSTAGRAM_RECORD]!)).toEqual({
+      action: 'boost',
+      app_name: 'Value Site',
+      podcast: 'Value Show',
+      guid: 'show-guid',
+      url: 'https://example.com/feed.xml',
+      episode: 'Episode 1',
+      episode_guid: 'ep-1',
+      ts: 42,
+      sender_name: 'Sam',
+      message: 'Great show!',
+      name: 'Host',
+      value_msat: 882000,
+      value_msat_total: 1000000,
+    })
+  })
+
+  it('describes Lightning address payments as LNURL-pay invoice requests', () => {
+    const producer = boostPayments(VALUE, boost, PODCAST, episode)[1]
+
+    expect(producer).toEqual({
+      name: 'Producer',
+      method: 'lnaddress',
+      destination: 'Producer@Example.com',
+      amount: 98,
+      lnurlp: 'https://example.com/.well-known/lnurlp/producer',
+      comment: 'Great show!',
+    })
+  })
+
+  it('leaves out what the listener did not fill in', () => {
+    const [host] = boostPayments(VALUE, { sats: 100, appName: 'Value Site' }, PODCAST)
+    const boostagram = JSON.parse(host!.customRecords![BOOSTAGRAM_RECORD]!)
+
+    expect(boostagram).not.toHaveProperty('message')
+    expect(boostagram).not.toHaveProperty('episode_guid')
+    expect(boostagram).not.toHaveProperty('ts')
+  })
+})
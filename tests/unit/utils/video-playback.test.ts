@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// hls.js needs Media Source Extensions, which happy-dom doesn't have
+const { MockHls } = vi.hoisted(() => {
+  const MockHls = vi.fn().mockImplementation(function (this: any) {
+    this.on = vi.fn()
+    this.loadSource = vi.fn()
+    this.attachMedia = vi.fn()
+    this.destroy = vi.fn()
+  }) as any
+  MockHls.isSupported = vi.fn(() => true)
+  MockHls.Events = { ERROR: 'hlsError' }
+  return { MockHls }
+})
+vi.mock('hls.js', () => ({ default: MockHls }))
+
+import { VideoPlayback } from '../../../app/utils/video-playback'
+import type { PlaybackOptions } from '../../../app/utils/video-playback'
+
+function createOptions(overrides: Partial<PlaybackOptions> = {}): PlaybackOptions {
+  return {
+    src: ['https://example.com/video.mp4'],
+    preload: false,
+    volume: 0.5,
+    rate: 1.5,
+    onload: vi.fn(),
+    onplay: vi.fn(),
+    onpause: vi.fn(),
+    onend: vi.fn(),
+    onerror: vi.fn(),
+    ...overrides,
+  }
+}
+
+describe('VideoPlayback', () => {
+  let element: HTMLVideoElement
+  let play: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    element = document.createElement('video')
+    // happy-dom can't play media
+    play = vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    play.mockRestore()
+  })
+
+  it('applies volume and rate to the element', () => {
+    new VideoPlayback(element, createOptions())
+
+    expect(element.volume).toBe(0.5)
+    expect(element.playbackRate).toBe(1.5)
+  })
+
+  it('loads nothing until played when not preloading', () => {
+    const playback = new VideoPlayback(element, createOptions())
+    expect(element.getAttribute('src')).toBeNull()
+
+    playback.play()
+
+    expect(element.getAttribute('src')).toBe('https://example.com/video.mp4')
+    expect(play).toHaveBeenCalled()
+  })
+
+  it('fetches metadata up front when preloading', () => {
+    new VideoPlayback(element, createOptions({ preload: 'metadata' }))
+
+    expect(element.getAttribute('src')).toBe('https://example.com/video.mp4')
+    expect(element.preload).toBe('metadata')
+  })
+
+  it('reports element events through the callbacks', () => {
+    const options = createOptions()
+    new VideoPlayback(element, options)
+
+    element.dispatchEvent(new Event('loadedmetadata'))
+    element.dispatchEvent(new Event('play'))
+    element.dispatchEvent(new Event('pause'))
+    element.dispatchEvent(new Event('ended'))
+
+    expect(options.onload).toHaveBeenCalledTimes(1)
+    expect(options.onplay).toHaveBeenCalledTimes(1)
+    expect(options.onpause).toHaveBeenCalledTimes(1)
+    expect(options.onend).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not report the pause at the end as a pause', () => {
+    const options = createOptions()
+    new VideoPlayback(element, options)
+    Object.defineProperty(element, 'ended', { value: true })
+
+    element.dispatchEvent(new Event('pause'))
+
+    expect(options.onpause).not.toHaveBeenCalled()
+  })
+
+  it('reports a rejected play() as an error, but not an interrupted one', async () => {
+    const options = createOptions()
+    const playback = new VideoPlayback(element, options)
+
+    play.mockRejectedValueOnce(new DOMException('interrupted', 'AbortError'))
+    playback.play()
+    play.mockRejectedValueOnce(new DOMException('not allowed', 'NotAllowedError'))
+    playback.play()
+    await Promise.resolve()
+
+    expect(options.onerror).toHaveBeenCalledTimes(1)
+  })
+
+  it('seeks and reads the position', () => {
+    const playback = new VideoPlayback(element, createOptions())
+
+    playback.seek(42)
+
+    expect(playback.seek()).toBe(42)
+  })
+
+  it('stops listening and empties the element on unload', () => {
+    const options = createOptions()
+    const playback = new VideoPlayback(element, options)
+    playback.play()
+
+    playback.unload()
+    element.dispatchEvent(new Event('play'))
+
+    expect(options.onplay).not.toHaveBeenCalled()
+    expect(element.getAttribute('src')).toBeNull()
+  })
+
+  describe('HLS', () => {
+    const hlsOptions = (overrides: Partial<PlaybackOptions> = {}) =>
+      createOptions({ src: ['https://example.com/live.m3u8'], hls: true, ...overrides })
+
+    beforeEach(() => {
+      MockHls.mockClear()
+      MockHls.isSupported.mockReturnValue(true)
+    })
+
+    it('streams through hls.js when the browser has no native HLS, then plays', async () => {
+      vi.spyOn(element, 'canPlayType').mockReturnValue('')
+      const playback = new VideoPlayback(element, hlsOptions())
+
+      playback.play()
+      expect(play).not.toHaveBeenCalled()
+      // hls.js is imported on demand
+      await vi.waitFor(() => expect(play).toHaveBeenCalled())
+
+      const hls = MockHls.mock.instances[0]
+      expect(hls.loadSource).toHaveBeenCalledWith('https://example.com/live.m3u8')
+      expect(hls.attachMedia).toHaveBeenCalledWith(element)
+
+      playback.unload()
+      expect(hls.destroy).toHaveBeenCalled()
+    })
+
+    it('plays natively where the browser supports HLS', () => {
+      vi.spyOn(element, 'canPlayType').mockReturnValue('maybe')
+      const playback = new VideoPlayback(element, hlsOptions())
+
+      playback.play()
+
+      expect(element.getAttribute('src')).toBe('https://example.com/live.m3u8')
+      expect(MockHls).not.toHaveBeenCalled()
+    })
+
+    it('reports an error instead of playing when HLS is unsupported', async () => {
+      vi.spyOn(element, 'canPlayType').mockReturnValue('')
+      MockHls.isSupported.mockReturnValue(false)
+      const options = hlsOptions()
+      const playback = new VideoPlayback(element, options)
+
+      playback.play()
+      await vi.waitFor(() => expect(options.onerror).toHaveBeenCalledWith(0, 'This browser can\'t play HLS streams'))
+
+      expect(MockHls).not.toHaveBeenCalled()
+      expect(play).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -50,11 +50,41 @@ export interface NavLink {
   to: string
 }
 
+/**
+ * A show in a multi-show network, configured in app.config.ts `podcast.shows`
+ */
+export interface ShowConfig {
+  /** URL-safe identifier, used in routes (/shows/<id>) and API requests (?show=<id>) */
+  id: string
+  /** RSS feed URL for this show */
+  feedUrl: string
+  /** Local corrections and additions to this show's episodes, keyed by episode GUID */
+  overrides?: FeedOverrides
+}
+
+/**
+ * Boost (podcast:value payment) settings
+ */
+export interface BoostConfig {
+  /**
+   * URL that boost payments are POSTed to instead of a WebLN browser wallet,
+   * e.g. a wallet service, or '/api/wallet/stand-in' to try boosts offline
+   * in development. Receives `{ payments: BoostPayment[] }` and answers
+   * `{ payments: BoostResult[] }`.
+   */
+  walletEndpoint?: string
+}
+
 /**
  * Podcast configuration from app.config.ts
  */
 export interface PodcastConfig {
   feedUrl: string
+  /**
+   * Shows in a podcast network. When set, the home page becomes a network
+   * landing page and each show is served under /shows/<id>.
+   */
+  shows?: ShowConfig[]
   siteTitle: string
   platforms: PlatformLinks
   funding: FundingLinks
@@ -75,6 +105,13 @@ export interface PodcastConfig {
    * Future: could be auto-detected from podcast:chapters data if available.
    */
   transcriptOffset?: number
+  /**
+   * Local corrections and additions to episodes from the feed, keyed by
+   * episode GUID. Applied to everything the site serves, including the
+   * re-published feed at /feed.xml.
+   */
+  overrides?: FeedOverrides
+  boost?: BoostConfig
 }
 
 /**
@@ -102,6 +139,127 @@ export interface Podcast2Tags {
     text: string
   }>
   guid?: string
+  /** Value-for-value payment splits (podcast:value); an episode's replaces the show's */
+  value?: ValueBlock
+  /** Other shows the podcast recommends (podcast:podroll, channel only) */
+  podroll?: RemoteItem[]
+}
+
+/**
+ * A payee in a podcast:value block (podcast:valueRecipient)
+ */
+export interface ValueRecipient {
+  name?: string
+  /** Address type: 'node' (a Lightning node pubkey, paid by keysend) or 'lnaddress' */
+  type: string
+  address: string
+  /** Share of each payment, relative to the other recipients' splits */
+  split: number
+  /** Custom keysend TLV record some nodes need to route to the right wallet */
+  customKey?: string
+  customValue?: string
+  /** A fee recipient's split is a percentage taken off the top, not a share */
+  fee?: boolean
+}
+
+/**
+ * An item in another feed, referenced by its podcast:guid (podcast:remoteItem)
+ */
+export interface RemoteItem {
+  feedGuid: string
+  itemGuid?: string
+  feedUrl?: string
+  medium?: string
+}
+
+/**
+ * A show from the feed's podcast:podroll, resolved for display
+ * (GET /api/podcast/podroll)
+ */
+export interface PodrollShow {
+  feedGuid: string
+  feedUrl: string
+  /** The feed's title, or its host name when it couldn't be loaded */
+  title: string
+  author?: string
+  artwork?: string
+  /** The show's website, or its feed URL */
+  link: string
+  /** Set when it's another show of this network */
+  showId?: string
+  /** The recommended episode, when the item names one (itemGuid) */
+  episode?: { title: string; link?: string }
+  /** The feed failed to load or timed out, so only its URL is known */
+  unavailable?: boolean
+}
+
+/**
+ * A stretch of an episode that pays other recipients (podcast:valueTimeSplit),
+ * e.g. while a song or another show's clip plays
+ */
+export interface ValueTimeSplit {
+  /** Start of the stretch in seconds */
+  startTime: number
+  /** Length of the stretch in seconds */
+  duration: number
+  /** Percentage of each payment that goes to this split's recipients */
+  remotePercentage: number
+  /** Where the stretch starts in the remote item, in seconds */
+  remoteStartTime?: number
+  /** Recipients listed inline */
+  recipients?: ValueRecipient[]
+  /** Or the item whose own value block receives the payment */
+  remoteItem?: RemoteItem
+}
+
+/**
+ * A podcast:value block: how listeners' payments are split
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#value
+ */
+export interface ValueBlock {
+  /** Payment network, e.g. 'lightning' */
+  type: string
+  /** Payment method, e.g. 'keysend' */
+  method: string
+  /** Suggested streaming amount per minute, in the network's unit (BTC for lightning) */
+  suggested?: number
+  recipients: ValueRecipient[]
+  timeSplits?: ValueTimeSplit[]
+}
+
+/**
+ * Local override for one episode, configured in app.config.ts `podcast.overrides`.
+ * Scalar fields and chapters/transcript replace the feed's values;
+ * persons and funding are added to the feed's own.
+ */
+export interface EpisodeOverride {
+  episodeNumber?: number
+  seasonNumber?: number
+  transcript?: Podcast2Tags['transcript']
+  chapters?: Podcast2Tags['chapters']
+  persons?: NonNullable<Podcast2Tags['persons']>
+  funding?: NonNullable<Podcast2Tags['funding']>
+}
+
+/**
+ * Episode overrides keyed by episode GUID
+ */
+export type FeedOverrides = Record<string, EpisodeOverride>
+
+/**
+ * A single chapter from a Podcasting 2.0 JSON Chapters file
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonchapters.md
+ */
+export interface Chapter {
+  /** Start time in seconds */
+  startTime: number
+  /** End time in seconds (derived from the next chapter when omitted) */
+  endTime?: number
+  title: string
+  /** Chapter artwork */
+  img?: string
+  /** Link relevant to the chapter content */
+  url?: string
 }
 
 /**
@@ -119,8 +277,59 @@ export interface Podcast {
   link?: string
   language?: string
   copyright?: string
+  /**
+   * WebSub hub announced by the feed (<atom:link rel="hub">), and the topic
+   * to subscribe to: its <atom:link rel="self">, or the feed URL
+   */
+  websub?: { hub: string; topic: string }
   // Podcasting 2.0 fields
   podcast2?: Podcast2Tags
+  /**
+   * Set by /api/podcast/meta when the feed couldn't be refreshed and the
+   * last good copy is being served. `since` is when it was last confirmed current.
+   */
+  stale?: { since: string }
+}
+
+/**
+ * Another version of an episode's media, from a Podcasting 2.0
+ * <podcast:alternateEnclosure>: a lower bitrate, another codec, video, HLS
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#alternate-enclosure
+ */
+export interface AlternateEnclosure {
+  /** MIME type, e.g. audio/opus, video/mp4, application/x-mpegURL */
+  type: string
+  /** Media URL: the first http(s) <podcast:source> */
+  url: string
+  /** File size in bytes */
+  length?: number
+  /** Average bits per second */
+  bitrate?: number
+  /** Video frame height in pixels */
+  height?: number
+  /** RFC 6381 codecs, e.g. "opus" or "avc1.4d401e,mp4a.40.2" */
+  codecs?: string
+  /** Name to show for this version, e.g. "Low bandwidth" */
+  title?: string
+  /** Language of the media, when it differs from the feed's */
+  lang?: string
+  /** The feed marks this as the same media as the enclosure */
+  default?: boolean
+  /** Hash or signature to verify the file with (<podcast:integrity>) */
+  integrity?: { type: 'sri' | 'pgp-signature'; value: string }
+}
+
+/**
+ * A short highlight of an episode, from a Podcasting 2.0 <podcast:soundbite>
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#soundbite
+ */
+export interface Soundbite {
+  /** Start of the clip, in seconds into the episode */
+  startTime: number
+  /** Length of the clip in seconds */
+  duration: number
+  /** Free-form title; the episode title stands in when missing */
+  title?: string
 }
 
 /**
@@ -135,6 +344,10 @@ export interface Episode {
   audioUrl: string
   audioType: string
   audioLength: number
+  /** Other versions of the audio (and video), kept in summaries for the player's source picker */
+  alternateEnclosures?: AlternateEnclosure[]
+  /** Highlights to play as clips, kept in summaries so episode cards can play them */
+  soundbites?: Soundbite[]
   pubDate: string
   duration: number // In seconds
   artwork?: string // Episode-specific artwork, fallback to show artwork
@@ -144,6 +357,10 @@ export interface Episode {
   explicit: boolean
   keywords?: string[]
   link?: string
+  /** Network mode: id of the show this episode belongs to */
+  showId?: string
+  /** A live stream (see LiveItem), played without a seek bar or saved progress */
+  live?: boolean
   // Podcasting 2.0 fields
   podcast2?: Podcast2Tags
 }
@@ -151,9 +368,47 @@ export interface Episode {
 /**
  * Lightweight episode summary for list views and search index.
  * Omits htmlContent, podcast2, keywords, and other heavy fields
- * to keep SSG payloads small.
+ * to keep SSG payloads small. audioType stays so the player can tell
+ * video episodes apart, and audioLength so it can estimate the
+ * enclosure's bitrate.
  */
-export type EpisodeSummary = Omit<Episode, 'htmlContent' | 'podcast2' | 'keywords' | 'link' | 'audioLength' | 'audioType' | 'explicit'>
+export type EpisodeSummary = Omit<Episode, 'htmlContent' | 'podcast2' | 'keywords' | 'link' | 'explicit'>
+
+/**
+ * A live stream announced with <podcast:liveItem>. Once it ends, feeds
+ * usually publish the recording as a regular item with the same GUID.
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#live-item
+ */
+export interface LiveItem {
+  guid: string
+  title: string
+  description: string
+  status: 'pending' | 'live' | 'ended'
+  /** Scheduled start and end (ISO 8601) */
+  start: string
+  end?: string
+  /** Stream URL and MIME type, from the item's <enclosure> */
+  streamUrl: string
+  streamType: string
+  artwork?: string
+  link?: string
+  /** Other places to follow the stream (<podcast:contentLink>) */
+  contentLinks?: Array<{ href: string; text: string }>
+  /** Live chat (<podcast:chat>) */
+  chat?: {
+    server: string
+    protocol: string
+    accountId?: string
+    space?: string
+    /** Page that embeds the chat */
+    embedUrl?: string
+  }
+  /**
+   * Set by /api/podcast/live on an ended stream once the feed has published
+   * its recording as a regular episode
+   */
+  episode?: EpisodeSummary
+}
 
 /**
  * Paginated response for episode list endpoints
@@ -163,6 +418,42 @@ export interface PaginatedEpisodes {
   total: number
   page: number
   totalPages: number
+  /** Season the episodes were filtered to (?season=) */
+  season?: number
+}
+
+/**
+ * One season of a show, from /api/podcast/seasons
+ */
+export interface SeasonSummary {
+  seasonNumber: number
+  episodeCount: number
+  /** Total runtime in seconds */
+  duration: number
+  /** Publish dates of the season's first and latest episodes */
+  firstPubDate: string
+  latestPubDate: string
+  /** Artwork of the season's first episode */
+  artwork?: string
+}
+
+/**
+ * Response of /api/podcast/seasons
+ */
+export interface SeasonsResponse {
+  seasons: SeasonSummary[]
+  /** Where a new listener should start (serial shows only) */
+  startEpisode?: EpisodeSummary
+}
+
+/**
+ * A show on the network landing page, from /api/network/shows
+ */
+export interface NetworkShow {
+  id: string
+  podcast: Podcast
+  episodeCount: number
+  latestEpisode: EpisodeSummary | null
 }
 
 /**
@@ -179,12 +470,91 @@ export interface SearchIndexEntry {
   artwork?: string
 }
 
+/**
+ * A ranked search hit from /api/podcast/search
+ */
+export interface SearchResult extends SearchIndexEntry {
+  /** Relevance score (higher is better) */
+  score: number
+  /** Title with matched terms wrapped in <mark> (HTML-escaped) */
+  titleHighlight: string
+  /** Excerpt around the best match with terms wrapped in <mark> (HTML-escaped) */
+  snippet: string
+  /** Best-matching transcript cue, when the match came from the transcript */
+  transcriptHit?: TranscriptHit
+}
+
+/**
+ * A transcript cue matching a search query
+ */
+export interface TranscriptHit {
+  /** Cue start time in whole seconds (transcript time, before transcriptOffset) */
+  startTime: number
+  /** Cue text with matched terms wrapped in <mark> (HTML-escaped) */
+  snippet: string
+}
+
+/**
+ * Paginated response for the search endpoint
+ */
+export interface SearchResponse {
+  query: string
+  results: SearchResult[]
+  total: number
+  page: number
+  totalPages: number
+}
+
+/**
+ * Response from POST /api/podcast/refresh: what the refresh changed,
+ * without the feed itself
+ */
+export interface RefreshResult {
+  title: string
+  /** Episodes in the feed after the refresh */
+  episodeCount: number
+  /** False when the feed host answered 304 Not Modified */
+  modified: boolean
+  /** GUIDs of episodes added, changed, and removed by this refresh */
+  added: string[]
+  changed: string[]
+  removed: string[]
+}
+
+/**
+ * One problem found by GET /api/podcast/validate
+ */
+export interface FeedValidationFinding {
+  /** Check that found it, e.g. 'duplicate-slug' */
+  check: string
+  /** error: breaks pages or playback; warning: renders badly; info: worth a look */
+  severity: 'error' | 'warning' | 'info'
+  message: string
+  /** The offending episode; absent for show-level findings. Skipped items have no slug. */
+  episode?: { guid?: string; title: string; slug?: string }
+}
+
+/**
+ * Response from GET /api/podcast/validate
+ */
+export interface FeedValidationReport {
+  feedUrl: string
+  title: string
+  episodeCount: number
+  checkedAt: string
+  /** Number of findings per severity */
+  counts: Record<FeedValidationFinding['severity'], number>
+  findings: FeedValidationFinding[]
+}
+
 /**
  * Complete podcast feed with show metadata and episodes
  */
 export interface PodcastFeed {
   podcast: Podcast
   episodes: Episode[]
+  /** Upcoming, current, and past live streams, in feed order (RSS only) */
+  liveItems?: LiveItem[]
 }
 
 /**
@@ -213,3 +583,38 @@ export interface Person {
   /** Slugs of episodes this person appears in */
   episodeSlugs: string[]
 }
+
+/**
+ * One payment of a boost, in a form Lightning wallets consume
+ */
+export interface BoostPayment {
+  /** Recipient name, for showing results */
+  name: string
+  /**
+   * 'keysend': a spontaneous payment to a node pubkey.
+   * 'lnaddress': a BOLT11 invoice requested from the address's LNURL-pay endpoint.
+   */
+  method: 'keysend' | 'lnaddress'
+  /** Node pubkey or Lightning address */
+  destination: string
+  /** Amount in sats */
+  amount: number
+  /** keysend: TLV records to attach, keyed by record type (the boostagram is 7629169) */
+  customRecords?: Record<string, string>
+  /** lnaddress: the LNURL-pay endpoint that issues the invoice */
+  lnurlp?: string
+  /** lnaddress: the listener's message, sent as the invoice comment */
+  comment?: string
+}
+
+/**
+ * What the wallet did with one BoostPayment
+ */
+export interface BoostResult {
+  destination: string
+  amount: number
+  ok: boolean
+  /** Proof of payment */
+  preimage?: string
+  error?: string
+}
@@ -21,6 +21,9 @@ export default defineConfig({
   },
   resolve: {
     alias: {
+      // App utils and composables live under app/ (Nuxt's srcDir); must precede '~'
+      '~/utils': resolve(__dirname, 'app/utils'),
+      '~/composables': resolve(__dirname, 'app/composables'),
       '~': resolve(__dirname),
       '#app': resolve(__dirname, 'tests/__mocks__/nuxt.ts'),
     },